@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Writes public/title-<id>.timeline.json for every title with more than one
+// time scope: per node and scope its degree, a text hash and its neighbor set,
+// so the node timeline reads one small file instead of every full graph.
+// Run after generate-years-manifest.mjs; each index records the manifest hash
+// of the scopes it was built from, and the app ignores an index gone stale.
+// Usage: node scripts/generate-timeline-indexes.mjs [title ...]
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const publicDir = path.join(__dirname, '..', 'public');
+const onlyTitles = new Set(process.argv.slice(2));
+
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1';
+const INDEX_VERSION = 1;
+
+// Same filter as the loader: per-title term nodes aren't part of the network
+const titleNodePattern = /^term:title-/i;
+
+const endpointId = (end) => (typeof end === 'string' ? end : end?.id);
+
+// Parsed data file, or null for a Git LFS pointer
+const readJson = (file) => {
+  const text = fs.readFileSync(path.join(publicDir, file), 'utf8');
+  if (text.startsWith(LFS_POINTER_PREFIX)) return null;
+  return JSON.parse(text);
+};
+
+// FNV-1a over whitespace-normalized text, as hashText in src/api.ts
+const hashText = (text) => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const intern = (map, key) => {
+  let id = map.get(key);
+  if (id === undefined) {
+    id = map.size;
+    map.set(key, id);
+  }
+  return id;
+};
+
+// A scope's graph, split parts merged the way the loader does; null when any file is an LFS pointer
+const readScopeGraph = (scope) => {
+  if (scope.kind === 'single') return readJson(scope.file);
+
+  const parts = scope.parts ?? readJson(scope.meta)?.parts;
+  if (!parts) return null;
+  const nodes = new Map();
+  const linkKeys = new Set();
+  const links = [];
+  for (const part of parts) {
+    const graph = readJson(part.file);
+    if (!graph) return null;
+    graph.nodes.forEach((n) => nodes.has(n.id) || nodes.set(n.id, n));
+    graph.links.forEach((l) => {
+      const key = `${endpointId(l.source)}→${endpointId(l.target)}::${l.edge_type ?? ''}`;
+      if (linkKeys.has(key)) return;
+      linkKeys.add(key);
+      links.push(l);
+    });
+  }
+  return { nodes: [...nodes.values()], links };
+};
+
+// One scope's entry (see TimelineIndexScope in src/types.ts)
+const indexScope = (graph, nodeIds, edgeTypes) => {
+  const nodes = graph.nodes.filter((n) => !titleNodePattern.test(n.id));
+  const present = new Set(nodes.map((n) => n.id));
+
+  const codes = new Map();
+  graph.links.forEach((l) => {
+    const s = endpointId(l.source);
+    const t = endpointId(l.target);
+    if (!present.has(s) || !present.has(t)) return;
+
+    const edgeType = intern(edgeTypes, l.edge_type ?? 'reference');
+    const push = (from, to, outgoing) => {
+      const code = (intern(nodeIds, to) * 64 + edgeType) * 2 + outgoing;
+      if (codes.has(from)) codes.get(from).push(code);
+      else codes.set(from, [code]);
+    };
+    push(s, t, 1);
+    push(t, s, 0);
+  });
+
+  const entry = { nodes: [], textHashes: [], neighbors: [] };
+  nodes.forEach((n) => {
+    const sorted = (codes.get(n.id) ?? []).sort((a, b) => a - b);
+    entry.nodes.push(intern(nodeIds, n.id));
+    entry.textHashes.push(hashText(n.properties?.text ?? n.text ?? ''));
+    entry.neighbors.push(sorted.map((code, i) => (i === 0 ? code : code - sorted[i - 1])));
+  });
+  return entry;
+};
+
+const manifest = readJson('manifest.json');
+if (!manifest?.titles?.every((t) => t.scopes)) {
+  console.error('manifest.json has no per-scope entries; run scripts/generate-years-manifest.mjs first');
+  process.exit(1);
+}
+
+let written = 0;
+for (const title of manifest.titles) {
+  if (title.timeScopes.length < 2 || (onlyTitles.size > 0 && !onlyTitles.has(title.id))) continue;
+
+  const nodeIds = new Map();
+  const edgeTypes = new Map();
+  const index = { version: INDEX_VERSION, title: title.id, hashes: {}, edgeTypes: [], nodeIds: [], scopes: {} };
+
+  // One full graph in memory at a time
+  let complete = true;
+  for (const scope of [...title.timeScopes].sort()) {
+    const graph = readScopeGraph(title.scopes[scope]);
+    if (!graph) {
+      console.warn(`  ! Title ${title.id}, ${scope} is a Git LFS pointer; run "git lfs pull" to index it`);
+      complete = false;
+      break;
+    }
+    index.scopes[scope] = indexScope(graph, nodeIds, edgeTypes);
+    index.hashes[scope] = title.scopes[scope].hash;
+  }
+  if (!complete) continue;
+
+  index.nodeIds = [...nodeIds.keys()];
+  index.edgeTypes = [...edgeTypes.keys()];
+
+  const file = `title-${title.id}.timeline.json`;
+  fs.writeFileSync(path.join(publicDir, file), JSON.stringify(index));
+  const mb = fs.statSync(path.join(publicDir, file)).size / (1024 * 1024);
+  console.log(`  Title ${title.id}: ${index.nodeIds.length} nodes over ${title.timeScopes.length} scopes (${mb.toFixed(1)} MB)`);
+  written++;
+}
+
+console.log(`Wrote ${written} timeline indexes to ${publicDir}`);
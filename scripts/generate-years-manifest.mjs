@@ -1,4 +1,5 @@
 import fs from 'fs';
+import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -36,6 +37,82 @@ for (const f of files) {
   }
 }
 
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1';
+
+// Parsed graph, or null for a Git LFS pointer (no data to count in this checkout)
+const parseGraph = (file, buf) => {
+  const text = buf.toString('utf8');
+  if (text.startsWith(LFS_POINTER_PREFIX)) {
+    console.warn(`  ! ${file} is a Git LFS pointer; run "git lfs pull" to record its counts`);
+    return null;
+  }
+  return JSON.parse(text);
+};
+
+// Real size of a file, looking through an LFS pointer to the object it stands for
+const dataBytes = (buf) => {
+  const text = buf.subarray(0, 200).toString('utf8');
+  const size = text.startsWith(LFS_POINTER_PREFIX) && /^size (\d+)$/m.exec(buf.toString('utf8'))?.[1];
+  return size ? Number(size) : buf.length;
+};
+
+const endpointId = (end) => (typeof end === 'string' ? end : end?.id);
+
+/**
+ * Everything the browser needs to load a scope without probing: which files
+ * to fetch, node/link counts (deduplicated across split parts the way the
+ * loader does), byte sizes, and a SHA-256 over the file(s) so a persisted
+ * graph can be told apart from a newer drop.
+ */
+const describeScope = (entry) => {
+  const hash = crypto.createHash('sha256');
+  const read = (file) => {
+    const buf = fs.readFileSync(path.join(publicDir, file));
+    hash.update(buf);
+    return buf;
+  };
+
+  if (entry.kind === 'single') {
+    const buf = read(entry.file);
+    const graph = parseGraph(entry.file, buf);
+    return {
+      kind: 'single',
+      file: entry.file,
+      ...(graph && { nodes: graph.nodes.length, links: graph.links.length }),
+      bytes: dataBytes(buf),
+      hash: hash.digest('hex'),
+    };
+  }
+
+  const metaBuf = read(entry.meta);
+  const meta = parseGraph(entry.meta, metaBuf);
+  if (!meta) return { kind: 'split', meta: entry.meta, bytes: 0, hash: hash.digest('hex') };
+
+  const nodeIds = new Set();
+  const linkKeys = new Set();
+  let counted = true;
+  const parts = (meta.parts ?? []).map((part) => {
+    const buf = read(part.file);
+    const graph = parseGraph(part.file, buf);
+    if (!graph) {
+      counted = false;
+      return { file: part.file, bytes: dataBytes(buf) };
+    }
+    graph.nodes.forEach((n) => nodeIds.add(n.id));
+    graph.links.forEach((l) => linkKeys.add(`${endpointId(l.source)}→${endpointId(l.target)}::${l.edge_type ?? ''}`));
+    return { file: part.file, nodes: graph.nodes.length, links: graph.links.length, bytes: dataBytes(buf) };
+  });
+
+  return {
+    kind: 'split',
+    meta: entry.meta,
+    parts,
+    ...(counted && { nodes: nodeIds.size, links: linkKeys.size }),
+    bytes: parts.reduce((sum, p) => sum + p.bytes, 0),
+    hash: hash.digest('hex'),
+  };
+};
+
 // Sort: numeric first, then appendix (5a, 11a, etc.)
 const sortedIds = [...titleMap.keys()].sort((a, b) => {
   const numA = parseInt(a);
@@ -45,39 +122,28 @@ const sortedIds = [...titleMap.keys()].sort((a, b) => {
 });
 
 const titles = sortedIds.map((id) => {
-  const scopes = titleMap.get(id);
-  const sortedScopes = [...scopes.keys()].sort();
-
-  // Build per-scope file/meta lookup
-  const scopeFiles = {};
-  const scopeMetas = {};
-  let dominantKind = 'single';
-
-  for (const [scope, entry] of scopes.entries()) {
-    if (entry.kind === 'split') {
-      scopeMetas[scope] = entry.meta;
-      dominantKind = 'split';
-    } else {
-      scopeFiles[scope] = entry.file;
-    }
-  }
+  const entries = titleMap.get(id);
+  const sortedScopes = [...entries.keys()].sort();
+
+  const scopes = {};
+  for (const scope of sortedScopes) scopes[scope] = describeScope(entries.get(scope));
 
   return {
     id,
-    kind: dominantKind,
+    kind: Object.values(scopes).some((s) => s.kind === 'split') ? 'split' : 'single',
     timeScopes: sortedScopes,
-    ...(dominantKind === 'split'
-      ? { meta: scopeMetas }
-      : { file: scopeFiles }),
+    scopes,
   };
 });
 
-const manifest = { version: 2, titles };
+// Version 3: per-scope entries replace version 2's title-wide kind with file/meta maps
+const manifest = { version: 3, titles };
 
 const manifestPath = path.join(publicDir, 'manifest.json');
 fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 
 console.log(`Wrote ${manifestPath} with ${titles.length} titles`);
 titles.forEach((t) => {
-  console.log(`  Title ${t.id} (${t.kind}): ${t.timeScopes.join(', ')}`);
+  const mb = Object.values(t.scopes).reduce((sum, s) => sum + s.bytes, 0) / (1024 * 1024);
+  console.log(`  Title ${t.id} (${t.kind}, ${mb.toFixed(1)} MB): ${t.timeScopes.join(', ')}`);
 });
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  validateGraph,
+  validateSplitMeta,
+  compareSplitCounts,
+  hasIssues,
+} from '../src/utils/graphValidation.js';
+
+// Validates every title/time graph file against the contract loadGraph assumes.
+// Usage: node scripts/validate-data.mjs [dataDir] [--json report.json]
+// Exits 1 when any file fails, so it can gate data drops.
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const args = process.argv.slice(2);
+const jsonFlag = args.indexOf('--json');
+const jsonPath = jsonFlag !== -1 ? args[jsonFlag + 1] : null;
+if (jsonFlag !== -1) args.splice(jsonFlag, 2);
+const dataDir = path.resolve(args[0] ?? path.join(__dirname, '..', 'public'));
+
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1';
+
+const files = fs.readdirSync(dataDir).sort();
+
+// Reads and parses a data file, turning LFS pointers and bad JSON into messages
+const readJson = (file) => {
+  const text = fs.readFileSync(path.join(dataDir, file), 'utf8');
+  if (text.startsWith(LFS_POINTER_PREFIX)) {
+    return { error: 'Git LFS pointer, not data (run "git lfs pull")' };
+  }
+  try {
+    return { value: JSON.parse(text) };
+  } catch (err) {
+    return { error: `invalid JSON: ${err.message}` };
+  }
+};
+
+// Graphs to check: single files and split metas, keyed by title + time scope
+const graphs = [];
+const listedParts = new Set();
+
+for (const f of files) {
+  if (f.includes('.part-')) continue;
+
+  const singleMatch = f.match(/^title-([\w]+)-time-(\w+)\.json$/i);
+  if (singleMatch) {
+    graphs.push({ file: f, title: singleMatch[1], scope: singleMatch[2], kind: 'single' });
+    continue;
+  }
+
+  const metaMatch = f.match(/^title-([\w]+)-time-(\w+)\.meta\.json$/i);
+  if (metaMatch) {
+    graphs.push({ file: f, title: metaMatch[1], scope: metaMatch[2], kind: 'split' });
+  }
+}
+
+// Merges part reports into one for the whole graph
+const mergeReports = (reports) => {
+  const merged = validateGraph({ nodes: [], links: [] });
+  const addCounts = (into, from) => Object.entries(from).forEach(([k, v]) => (into[k] = (into[k] ?? 0) + v));
+  for (const r of reports) {
+    merged.nodes += r.nodes;
+    merged.links += r.links;
+    merged.crossTitleLinks += r.crossTitleLinks;
+    merged.errors.push(...r.errors);
+    merged.duplicateNodeIds.count += r.duplicateNodeIds.count;
+    merged.duplicateNodeIds.sample.push(...r.duplicateNodeIds.sample);
+    merged.danglingLinks.count += r.danglingLinks.count;
+    merged.danglingLinks.sample.push(...r.danglingLinks.sample);
+    merged.danglingLinks.endpoints.push(...r.danglingLinks.endpoints);
+    addCounts(merged.nodeTypes, r.nodeTypes);
+    addCounts(merged.edgeTypes, r.edgeTypes);
+    addCounts(merged.unknownNodeTypes, r.unknownNodeTypes);
+    addCounts(merged.unknownEdgeTypes, r.unknownEdgeTypes);
+  }
+  merged.danglingLinks.endpoints = [...new Set(merged.danglingLinks.endpoints)];
+  return merged;
+};
+
+// ==============================
+// Pass 1: read every graph, collecting node IDs per time scope and title
+// ==============================
+// Files are read again in pass 2 so only one is held in memory at a time
+const results = [];
+const scopeNodeIds = new Map();
+
+for (const g of graphs) {
+  const result = { ...g, problems: [], parts: [], ids: new Set(), report: null };
+  results.push(result);
+
+  if (g.kind === 'single') {
+    const { value, error } = readJson(g.file);
+    if (error) result.problems.push(error);
+    else result.parts.push({ file: g.file });
+    value?.nodes?.forEach?.((n) => n?.id && result.ids.add(n.id));
+  } else {
+    const { value: meta, error } = readJson(g.file);
+    const metaErrors = error ? [error] : validateSplitMeta(meta).map((e) => `meta: ${e}`);
+    result.problems.push(...metaErrors);
+
+    for (const part of metaErrors.length === 0 ? meta.parts : []) {
+      listedParts.add(part.file);
+      if (!fs.existsSync(path.join(dataDir, part.file))) {
+        result.problems.push(`${part.file}: listed in meta but missing`);
+        continue;
+      }
+      const { value, error: partError } = readJson(part.file);
+      if (partError) {
+        result.problems.push(`${part.file}: ${partError}`);
+        continue;
+      }
+      value?.nodes?.forEach?.((n) => n?.id && result.ids.add(n.id));
+      result.parts.push(part);
+    }
+  }
+
+  if (!scopeNodeIds.has(g.scope)) scopeNodeIds.set(g.scope, []);
+  scopeNodeIds.get(g.scope).push(result);
+}
+
+// ==============================
+// Pass 2: validate, resolving missing endpoints against other titles of the scope
+// ==============================
+for (const result of results) {
+  if (result.parts.length === 0) continue;
+
+  const others = scopeNodeIds.get(result.scope).filter((r) => r.title !== result.title);
+  const externalNodeIds = { has: (id) => others.some((r) => r.ids.has(id)) };
+
+  const reports = result.parts.map((part) => {
+    const report = validateGraph(readJson(part.file).value, { nodeIds: result.ids, externalNodeIds });
+    if (result.kind === 'split') result.problems.push(...compareSplitCounts(part, report));
+    return report;
+  });
+  result.report = reports.length === 1 ? reports[0] : mergeReports(reports);
+}
+
+const orphanParts = files.filter((f) => f.includes('.part-') && !listedParts.has(f));
+
+// ==============================
+// Report
+// ==============================
+const fmt = (n) => n.toLocaleString('en-US');
+const counts = (obj) => Object.entries(obj).map(([k, v]) => `${k} ${fmt(v)}`).join(', ');
+
+let failed = 0;
+for (const result of results) {
+  const { report } = result;
+  const issues = [...result.problems];
+  if (report) {
+    issues.push(...report.errors.slice(0, 5));
+    if (report.errors.length > 5) issues.push(`… and ${report.errors.length - 5} more structural errors`);
+    if (report.duplicateNodeIds.count > 0) {
+      issues.push(`${fmt(report.duplicateNodeIds.count)} duplicate node IDs (${report.duplicateNodeIds.sample.join(', ')})`);
+    }
+    if (Object.keys(report.unknownNodeTypes).length > 0) issues.push(`unknown node types: ${counts(report.unknownNodeTypes)}`);
+    if (Object.keys(report.unknownEdgeTypes).length > 0) issues.push(`unknown edge types: ${counts(report.unknownEdgeTypes)}`);
+    if (report.danglingLinks.count > 0) {
+      const sample = report.danglingLinks.sample.map((l) => `${l.source} → ${l.target}`).join(', ');
+      issues.push(`${fmt(report.danglingLinks.count)} dangling links to ${fmt(report.danglingLinks.endpoints.length)} missing nodes (${sample})`);
+    }
+  }
+
+  const ok = result.problems.length === 0 && !!report && !hasIssues(report);
+  result.ok = ok;
+  if (!ok) failed += 1;
+
+  console.log(`${ok ? '✓' : '✗'} ${result.file}`);
+  if (report) {
+    console.log(`    nodes ${fmt(report.nodes)}${report.nodes > 0 ? ` (${counts(report.nodeTypes)})` : ''}`);
+    console.log(`    links ${fmt(report.links)}${report.links > 0 ? ` (${counts(report.edgeTypes)})` : ''}`);
+    if (report.crossTitleLinks > 0) console.log(`    cross-title links ${fmt(report.crossTitleLinks)}`);
+  }
+  issues.forEach((issue) => console.log(`    ✗ ${issue}`));
+}
+
+orphanParts.forEach((f) => console.log(`! ${f}: part file not listed in any meta file`));
+
+console.log(`\n${results.length - failed} of ${results.length} graphs valid${failed > 0 ? `, ${failed} failed` : ''}`);
+
+if (jsonPath) {
+  // Node ID sets and part lists are working state, not report
+  const json = results.map(({ report, ids: _ids, parts: _parts, ...rest }) => ({
+    ...rest,
+    report: report && { ...report, danglingLinks: { ...report.danglingLinks, endpoints: report.danglingLinks.endpoints.slice(0, 100) } },
+  }));
+  fs.writeFileSync(jsonPath, JSON.stringify({ dataDir, orphanParts, results: json }, null, 2));
+  console.log(`Wrote ${jsonPath}`);
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -2,13 +2,19 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import NetworkGraph from './components/NetworkGraph';
+import type { NetworkGraphHandle } from './components/NetworkGraph';
 import Sidebar from './components/Sidebar';
 import RightSidebar from './components/RightSidebar';
 import MobileBottomNav from './components/MobileBottomNav';
 import { WelcomeModal } from './components/WelcomeModal';
-import { NetworkBuilder } from './services/networkBuilder';
+import { NetworkBuilder, toBuilderState, toSearchParams } from './services/networkBuilder';
+import { QuerySyntaxError } from './services/queryLanguage';
+import { GROUP_LEVELS, aggregateGraph, isGroupNodeId } from './services/metaGraph';
+import type { GroupLevel } from './services/metaGraph';
 import DocumentModal from './components/DocumentModal';
 import TableView from './components/TableView';
+import LoadProgressBar from './components/LoadProgressBar';
+import LoadErrorPanel from './components/LoadErrorPanel';
 
 import { 
   fetchRelationships, 
@@ -16,35 +22,67 @@ import {
   fetchActorCounts,
   fetchStats,
   loadManifest,
-  fetchNodeDetails
+  fetchNodeDetails,
+  mergedTitleKey,
+  loadGraph,
+  fetchTagClusters,
+  fetchNodeCommunities,
+  resolveCitation,
+  isAbortError,
+  fetchHierarchyOutline,
+  getSearchIndex,
 } from './api';
+import type { CitationTarget, LoadProgress } from './api';
+import { computeGraphDiff, changedSubgraph } from './services/graphDiff';
+import type { GraphDiff } from './services/graphDiff';
+import { computeMetricsInWorker, withNodeMetrics } from './services/metricsClient';
+import type { MetricsResult } from './services/metricsClient';
+import { serializeUrlState, parseUrlState, isNavigation, sharedTimeScopes } from './utils/urlState';
+import type { UrlState } from './utils/urlState';
+import { formatCitation } from './utils/citations';
+import { endpointId } from './utils/graphNodes';
+import { branchNodeIds, findBranch } from './services/hierarchyOutline';
+import type { Citation } from './utils/citations';
+import type { WorkspaceSnapshot } from './services/workspaceStore';
 import type {
   Stats,
   Relationship,
   TagCluster,
-  NetworkBuilderState,
   FilteredGraph,
   GraphNode,
   GraphLink,
   TimeScope,
   SelectedNode,
   Manifest,
+  GraphData,
+  MetricKey,
+  PathQuery,
+  PinnedPositions,
+  Workspace,
 } from './types';
 
 function App() {
   const [buildMode, setBuildMode] = useState<'topDown' | 'bottomUp'>('topDown');
   
   const [selectedTitle, setSelectedTitle] = useState<string>('26');
+  // Extra titles merged into the same network as selectedTitle
+  const [additionalTitles, setAdditionalTitles] = useState<string[]>([]);
+  const graphTitle = useMemo(
+    () => mergedTitleKey([selectedTitle, ...additionalTitles]),
+    [selectedTitle, additionalTitles]
+  );
   const [timeScope, setTimeScope] = useState<TimeScope>('2025');
   const [manifest, setManifest] = useState<Manifest | null>(null);
   const [availableTimeScopes, setAvailableTimeScopes] = useState<string[]>([]);
   const [showSectionLevelOnly, setShowSectionLevelOnly] = useState(false);
   const [viewMode, setViewMode] = useState<'graph' | 'table'>('graph');
+  const [groupLevel, setGroupLevel] = useState<GroupLevel | null>(null);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [isLoadingNodeRelationships, setIsLoadingNodeRelationships] = useState(false);
   const [openDocIndex, setOpenDocIndex] = useState<number | null>(null);
   const [selectedNodeDisplayLabel, setSelectedNodeDisplayLabel] = useState<string | null>(null);
 
-  const networkGraphRef = useRef<{ getSvgElement: () => SVGSVGElement | null }>(null);
+  const networkGraphRef = useRef<NetworkGraphHandle>(null);
   
   const [openDocId, setOpenDocId] = useState<string | null>(null);
   const [fullGraph, setFullGraph] = useState<{ nodes: GraphNode[]; links: GraphLink[] }>({
@@ -66,6 +104,8 @@ function App() {
   }, [fullGraph, timeScope]);
 
   const [builder, setBuilder] = useState<NetworkBuilder | null>(null);
+  // Title and scope fullGraph was loaded for, to pair it with that scope's search index
+  const fullGraphSourceRef = useRef<{ title: string; timeScope: TimeScope } | null>(null);
   const [displayGraph, setDisplayGraph] = useState<FilteredGraph>({
     nodes: [],
     links: [],
@@ -88,11 +128,24 @@ function App() {
   } | null>(null);
 
   const [stats, setStats] = useState<Stats | null>(null);
-  const [tagClusters] = useState<TagCluster[]>([]);
+  // Communities detected over the loaded graph, keyed by `${graphTitle}::${timeScope}`
+  const [communities, setCommunities] = useState<{
+    key: string;
+    clusters: TagCluster[];
+    assignments: Map<string, number>;
+  } | null>(null);
+  const [colorByCommunity, setColorByCommunity] = useState(false);
+  // Whether a cluster list is open; detection only runs while clusters are shown or used
+  const [clustersShown, setClustersShown] = useState({ sidebar: false, mobile: false });
   const [relationships, setRelationships] = useState<Relationship[]>([]);
   const [bottomUpSearchKeywords, setBottomUpSearchKeywords] = useState('');
   const [totalBeforeLimit, setTotalBeforeLimit] = useState<number>(0);
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [isGraphLoading, setIsGraphLoading] = useState(true);
+  // Failed manifest or graph load, shown with a retry that bumps that load's attempt counter
+  const [loadError, setLoadError] = useState<{ what: 'manifest' | 'graph'; error: unknown } | null>(null);
+  const [loadAttempts, setLoadAttempts] = useState({ manifest: 0, graph: 0 });
   const [selectedNode, setSelectedNode] = useState<SelectedNode>(null);
   const [actorRelationships, setActorRelationships] = useState<Relationship[]>([]);
   const [actorTotalBeforeFilter, setActorTotalBeforeFilter] = useState<number>(0);
@@ -100,6 +153,13 @@ function App() {
   const [maxHops, setMaxHops] = useState<number | null>(2000);
   const [minDensity, setMinDensity] = useState(50);
   const [enabledClusterIds, setEnabledClusterIds] = useState<Set<number>>(new Set());
+
+  const currentCommunities = communities?.key === `${graphTitle}::${timeScope}` ? communities : null;
+  const tagClusters = useMemo(() => currentCommunities?.clusters ?? [], [currentCommunities]);
+  const nodeCommunities = currentCommunities?.assignments ?? null;
+  const wantsCommunities =
+    clustersShown.sidebar || clustersShown.mobile || colorByCommunity || enabledClusterIds.size > 0;
+  const communitiesLoading = wantsCommunities && !currentCommunities;
   const [enabledCategories, setEnabledCategories] = useState<Set<string>>(
     new Set(['definition', 'reference'])
   );
@@ -123,10 +183,90 @@ function App() {
     searchFields: string[];
     searchLogic: 'AND' | 'OR';
     nodeRankingMode: 'global' | 'subgraph';
+    titles?: string[];
+    seedNodeIds?: string[];
+    seedBranch?: string;
   } | null>(null);
 
+  // A bottom-up network comes from keywords or from a hierarchy branch used as seeds
+  const hasBottomUpSearch =
+    bottomUpSearchKeywords.trim().length > 0 ||
+    (bottomUpSearchParams?.seedNodeIds?.length ?? 0) > 0 ||
+    !!bottomUpSearchParams?.seedBranch;
+
   const bottomUpRunIdRef = useRef(0);
 
+  // Year-over-year diff: compares the current timeScope against diffBaseScope
+  const [diffBaseScope, setDiffBaseScope] = useState<TimeScope | null>(null);
+  const [graphDiff, setGraphDiff] = useState<GraphDiff | null>(null);
+  const [isComputingDiff, setIsComputingDiff] = useState(false);
+
+  // Centrality metrics, computed in a worker for the displayed or full scoped graph
+  const [metricsEnabled, setMetricsEnabled] = useState(false);
+  const [metricsScope, setMetricsScope] = useState<'display' | 'full'>('display');
+  const [sizeMetric, setSizeMetric] = useState<MetricKey>('degree');
+  const [metricsRun, setMetricsRun] = useState<{
+    input: GraphData;
+    result: MetricsResult | null;
+    error: string | null;
+  } | null>(null);
+
+  // Path finder: k shortest paths between two nodes, shown as their own subgraph
+  const [pathQuery, setPathQuery] = useState<PathQuery | null>(null);
+
+  // Nodes the user dragged into place; saved with workspaces
+  const [pinnedPositions, setPinnedPositions] = useState<PinnedPositions>({});
+
+  // Shareable URL: the query string mirrors this state once the manifest has loaded
+  const currentUrlState = useMemo<UrlState>(() => ({
+    title: selectedTitle,
+    additionalTitles,
+    timeScope,
+    buildMode,
+    search: buildMode === 'bottomUp' ? bottomUpSearchParams : null,
+    keywords,
+    selectedNodeId: selectedNode?.id ?? null,
+    enabledCategories: Array.from(enabledCategories),
+    enabledNodeTypes: Array.from(enabledNodeTypes),
+    enabledClusterIds: Array.from(enabledClusterIds),
+    limit,
+    maxHops,
+  }), [
+    selectedTitle,
+    additionalTitles,
+    timeScope,
+    buildMode,
+    bottomUpSearchParams,
+    keywords,
+    selectedNode,
+    enabledCategories,
+    enabledNodeTypes,
+    enabledClusterIds,
+    limit,
+    maxHops,
+  ]);
+  // First-render values double as defaults for anything a URL leaves out
+  const urlDefaultsRef = useRef<UrlState>(currentUrlState);
+  const lastUrlStateRef = useRef<UrlState | null>(null);
+
+  const applyUrlState = useCallback((state: UrlState) => {
+    setSelectedTitle(state.title);
+    setAdditionalTitles(state.additionalTitles);
+    setTimeScope(state.timeScope);
+    setBuildMode(state.buildMode);
+    setBottomUpSearchParams(state.search);
+    setBottomUpSearchKeywords(state.search?.keywords ?? '');
+    setKeywords(state.keywords);
+    setSelectedNode(state.selectedNodeId ? { id: state.selectedNodeId, scope: state.timeScope } : null);
+    if (state.selectedNodeId) setIsRightSidebarOpen(true);
+    setEnabledCategories(new Set(state.enabledCategories));
+    setEnabledNodeTypes(new Set(state.enabledNodeTypes));
+    setEnabledClusterIds(new Set(state.enabledClusterIds));
+    setLimit(state.limit);
+    setMaxHops(state.maxHops);
+    setPathQuery(null);
+  }, []);
+
   const selectedNodeId = selectedNode?.id ?? null;
 
   const isSelectedInScope = !!selectedNode && selectedNode.scope === timeScope;
@@ -183,6 +323,18 @@ const filteredDisplayGraph = useMemo(() => {
     });
   }
   
+  // Apply cluster filters (community detection)
+  if (enabledClusterIds.size > 0 && nodeCommunities) {
+    filteredLinks = filteredLinks.filter(link => {
+      const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+      const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+      return (
+        enabledClusterIds.has(nodeCommunities.get(sourceId) ?? -1) &&
+        enabledClusterIds.has(nodeCommunities.get(targetId) ?? -1)
+      );
+    });
+  }
+
   // Get nodes that have at least one link
   const connectedNodeIds = new Set<string>();
   filteredLinks.forEach(link => {
@@ -238,11 +390,11 @@ const filteredDisplayGraph = useMemo(() => {
     truncated: displayGraph.truncated,
     matchedCount: displayGraph.matchedCount,
   };
-}, [displayGraph, enabledCategories, enabledNodeTypes, buildMode]);
+}, [displayGraph, enabledCategories, enabledNodeTypes, buildMode, enabledClusterIds, nodeCommunities]);
 
   useEffect(() => {
   setViewMode('graph');
-}, [selectedTitle, timeScope]);
+}, [graphTitle, timeScope]);
 
 // Update displayGraphInfo when filteredDisplayGraph changes
 useEffect(() => {
@@ -317,16 +469,63 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
             const latestScope = defaultTitle.timeScopes[defaultTitle.timeScopes.length - 1];
             setTimeScope(latestScope);
           }
+
+          // Restore whatever the URL describes on top of those defaults
+          urlDefaultsRef.current = {
+            ...urlDefaultsRef.current,
+            title: defaultTitle.id,
+            timeScope: defaultTitle.timeScopes[defaultTitle.timeScopes.length - 1] ?? urlDefaultsRef.current.timeScope,
+          };
+          const restored = parseUrlState(window.location.search, manifestData, urlDefaultsRef.current);
+          lastUrlStateRef.current = restored;
+          applyUrlState(restored);
         }
 
         setManifestLoaded(true);
       } catch (err) {
         console.error('Failed to load manifest:', err);
+        setLoadError({ what: 'manifest', error: err });
       }
     };
 
     loadManifestData();
-  }, []);
+  }, [applyUrlState, loadAttempts.manifest]);
+
+  // Write state changes to the URL: navigations push a history entry, filter tweaks replace it
+  useEffect(() => {
+    if (!manifestLoaded) return;
+
+    const prev = lastUrlStateRef.current;
+    lastUrlStateRef.current = currentUrlState;
+
+    const search = serializeUrlState(currentUrlState);
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (prev && isNavigation(prev, currentUrlState)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [manifestLoaded, currentUrlState]);
+
+  // Back/forward: re-apply the state the URL now describes
+  useEffect(() => {
+    if (!manifest) return;
+
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search, manifest, urlDefaultsRef.current);
+      lastUrlStateRef.current = state;
+      if (state.timeScope !== timeScope) {
+        setIsSwitchingScope(true);
+        setIsLoadingNodeRelationships(true);
+      }
+      applyUrlState(state);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [manifest, timeScope, applyUrlState]);
 
   // Update available time scopes when title changes
   useEffect(() => {
@@ -334,31 +533,160 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
     
     const titleData = manifest.titles.find(t => t.id === selectedTitle);
     if (titleData) {
-      setAvailableTimeScopes(titleData.timeScopes);
+      // Merged titles can only be shown for scopes every title has
+      const scopes = additionalTitles.reduce((acc, id) => {
+        const extra = manifest.titles.find(t => t.id === id);
+        return extra ? acc.filter(s => extra.timeScopes.includes(s)) : acc;
+      }, titleData.timeScopes);
+
+      setAvailableTimeScopes(scopes);
       
-      if (!titleData.timeScopes.includes(timeScope)) {
-        const latestScope = titleData.timeScopes[titleData.timeScopes.length - 1];
+      if (scopes.length > 0 && !scopes.includes(timeScope)) {
+        const latestScope = scopes[scopes.length - 1];
         setTimeScope(latestScope);
       }
     }
-  }, [selectedTitle, manifest, timeScope]);
+  }, [selectedTitle, additionalTitles, manifest, timeScope]);
+
+  // The primary title can't also be an additional one
+  const handleTitleChange = useCallback((title: string) => {
+    setSelectedTitle(title);
+    setAdditionalTitles((prev) => prev.filter(t => t !== title));
+    setEnabledClusterIds(new Set());
+    setPathQuery(null);
+    setPinnedPositions({});
+  }, []);
+
+  // Merging titles prefixes node IDs, so a pending path query and pins no longer apply
+  const handleAdditionalTitlesChange = useCallback((titles: string[]) => {
+    setAdditionalTitles(titles);
+    setEnabledClusterIds(new Set());
+    setPathQuery(null);
+    setPinnedPositions({});
+  }, []);
+
+  // Citations: select the cited node, switching to its title when it isn't loaded
+  const navigateToCitation = useCallback((target: CitationTarget, openDocument: boolean) => {
+    if (!target.inLoadedGraph) {
+      handleTitleChange(target.titleId);
+      setAdditionalTitles([]);
+    }
+    setSelectedNode({ id: target.nodeId, scope: timeScope });
+    setIsRightSidebarOpen(true);
+    if (openDocument) {
+      setOpenDocId(target.nodeId);
+      setOpenDocIndex(null);
+    }
+  }, [handleTitleChange, timeScope]);
+
+  const handleCitationSelect = useCallback(
+    (target: CitationTarget) => navigateToCitation(target, false),
+    [navigateToCitation]
+  );
+
+  // Citations without a title refer to the title of the document they appear in
+  const handleDocumentCitation = useCallback(async (citation: Citation) => {
+    const citingNode = fullGraph.nodes.find((n) => n.id === openDocId);
+    const contextTitle = additionalTitles.length > 0 ? citingNode?.source_title : selectedTitle;
+
+    try {
+      const target = await resolveCitation(citation, graphTitle, timeScope, contextTitle);
+      if (!target) {
+        alert(`❌ ${formatCitation(citation, citation.title ? null : contextTitle)} was not found in the ${timeScope} data.`);
+        return;
+      }
+      navigateToCitation(target, true);
+    } catch (err) {
+      console.error('Failed to resolve citation:', err);
+      alert('❌ Could not follow this citation. Check console for details.');
+    }
+  }, [fullGraph, openDocId, additionalTitles, selectedTitle, graphTitle, timeScope, navigateToCitation]);
+
+  // Workspaces: snapshot the current view, or restore a saved one
+  const captureWorkspace = useCallback((): WorkspaceSnapshot => ({
+    titles: [selectedTitle, ...additionalTitles],
+    timeScope,
+    buildMode,
+    builderState: bottomUpSearchParams ? toBuilderState(bottomUpSearchParams) : null,
+    searchLogic: bottomUpSearchParams?.searchLogic ?? 'OR',
+    nodeRankingMode: bottomUpSearchParams?.nodeRankingMode ?? 'global',
+    enabledCategories: Array.from(enabledCategories),
+    enabledNodeTypes: Array.from(enabledNodeTypes),
+    selectedNodeId: selectedNode?.id ?? null,
+    pinnedPositions,
+  }), [
+    selectedTitle,
+    additionalTitles,
+    timeScope,
+    buildMode,
+    bottomUpSearchParams,
+    enabledCategories,
+    enabledNodeTypes,
+    selectedNode,
+    pinnedPositions,
+  ]);
+
+  const handleApplyWorkspace = useCallback((workspace: Workspace) => {
+    if (!manifest) return;
+
+    const [title, ...extraTitles] = workspace.titles;
+    const missing = workspace.titles.filter((id) => !manifest.titles.some((t) => t.id === id));
+    if (missing.length > 0) {
+      alert(`❌ This workspace uses titles that aren't available: ${missing.join(', ')}`);
+      return;
+    }
+    if (!sharedTimeScopes(manifest, workspace.titles).includes(workspace.timeScope)) {
+      alert(`❌ Time scope ${workspace.timeScope} isn't available for title ${workspace.titles.join(' + ')}.`);
+      return;
+    }
 
-  // Load graph with title + timeScope
+    if (workspace.timeScope !== timeScope) {
+      setIsSwitchingScope(true);
+      setIsLoadingNodeRelationships(true);
+    }
+    applyUrlState({
+      title,
+      additionalTitles: extraTitles,
+      timeScope: workspace.timeScope,
+      buildMode: workspace.buildMode,
+      search: workspace.buildMode === 'bottomUp' && workspace.builderState
+        ? toSearchParams(workspace.builderState, workspace.searchLogic, workspace.nodeRankingMode)
+        : null,
+      keywords: '',
+      selectedNodeId: workspace.selectedNodeId,
+      enabledCategories: workspace.enabledCategories,
+      enabledNodeTypes: workspace.enabledNodeTypes,
+      enabledClusterIds: [],
+      limit,
+      maxHops,
+    });
+    setPinnedPositions(workspace.pinnedPositions);
+  }, [manifest, timeScope, limit, maxHops, applyUrlState]);
+
+  // Load graph with title + timeScope; switching either cancels the load in flight
   useEffect(() => {
     if (!manifestLoaded) return;
+    const controller = new AbortController();
 
     const loadGraphData = async () => {
       console.log('🔵 GRAPH LOADING START - timeScope:', timeScope);
       setLoading(true);
+      setIsGraphLoading(true);
+      setLoadProgress(null);
+      setLoadError(null);
       
       try {
         setIsInitialized(false);
         setStats(null);
 
         const apiModule = await import('./api');
-        const data = await apiModule.loadGraph(selectedTitle, timeScope);
+        const data = await apiModule.loadGraph(graphTitle, timeScope, {
+          signal: controller.signal,
+          onProgress: setLoadProgress,
+        });
 
         console.log('🟢 GRAPH LOADED - nodes:', data.nodes.length);
+        fullGraphSourceRef.current = { title: graphTitle, timeScope };
         setFullGraph(data);
 
         // Preserve selected node if it exists in new timeScope
@@ -383,22 +711,239 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
         setDisplayGraphInfo(null);
         setTopDownGraphInfo(null);
       } catch (err) {
+        // Superseded by a newer title or time scope, which now owns the loading state
+        if (isAbortError(err)) return;
         console.error('Failed to load graph data:', err);
+        fullGraphSourceRef.current = null;
         setFullGraph({ nodes: [], links: [] });
+        setLoadError({ what: 'graph', error: err });
       } finally {
-        console.log('🟡 GRAPH LOADING COMPLETE');
-        setLoading(false);
-        setIsSwitchingScope(false);
-        setIsInitialized(true);
+        if (!controller.signal.aborted) {
+          console.log('🟡 GRAPH LOADING COMPLETE');
+          setLoading(false);
+          setIsGraphLoading(false);
+          setLoadProgress(null);
+          setIsSwitchingScope(false);
+          setIsInitialized(true);
+        }
       }
     };
 
     loadGraphData();
-  }, [selectedTitle, timeScope, manifestLoaded]);
+    return () => controller.abort();
+  }, [graphTitle, timeScope, manifestLoaded, loadAttempts.graph]);
+
+  const handleRetryLoad = useCallback(() => {
+    if (!loadError) return;
+    setLoadError(null);
+    setLoadAttempts((prev) => ({ ...prev, [loadError.what]: prev[loadError.what] + 1 }));
+  }, [loadError]);
 
+  // The builder shares the scope's search index with autocomplete instead of building its own
   useEffect(() => {
-    setBuilder(new NetworkBuilder(scopedFullGraph.nodes, scopedFullGraph.links));
-  }, [scopedFullGraph.nodes, scopedFullGraph.links]);
+    const { nodes, links } = scopedFullGraph;
+    const source = fullGraphSourceRef.current;
+    let active = true;
+
+    const sharedIndex =
+      source && source.timeScope === timeScope && nodes.length > 0
+        ? getSearchIndex(source.title, source.timeScope).catch((err) => {
+            console.warn('Shared search index unavailable, building one for the builder:', err);
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+    sharedIndex.then((index) => {
+      if (active) setBuilder(new NetworkBuilder(nodes, links, index));
+    });
+    return () => { active = false; };
+  }, [scopedFullGraph, timeScope]);
+
+  const pathResults = useMemo(
+    () => (pathQuery && builder
+      ? builder.findShortestPaths(pathQuery.sourceId, pathQuery.targetId, pathQuery.k, pathQuery.edgeTypes)
+      : null),
+    [pathQuery, builder]
+  );
+
+  // Nodes on any path plus every allowed edge between them; path edges carry path_rank
+  const pathDisplayGraph = useMemo<FilteredGraph | null>(() => {
+    if (!pathQuery || !pathResults || pathResults.length === 0) return null;
+
+    const rankByLink = new Map<GraphLink, number>();
+    pathResults.forEach((path, rank) => {
+      path.hops.forEach((hop) => {
+        if (!rankByLink.has(hop.link)) rankByLink.set(hop.link, rank);
+      });
+    });
+
+    const pathNodeIds = new Set(pathResults.flatMap((path) => path.nodeIds));
+    const degree = new Map<string, number>();
+
+    const links = scopedFullGraph.links
+      .filter((link) => {
+        const s = typeof link.source === 'string' ? link.source : link.source.id;
+        const t = typeof link.target === 'string' ? link.target : link.target.id;
+        return pathQuery.edgeTypes.includes(link.edge_type) && pathNodeIds.has(s) && pathNodeIds.has(t);
+      })
+      .map((link) => {
+        // Fresh link objects with string IDs to avoid D3 mutation issues
+        const s = typeof link.source === 'string' ? link.source : link.source.id;
+        const t = typeof link.target === 'string' ? link.target : link.target.id;
+        degree.set(s, (degree.get(s) || 0) + 1);
+        degree.set(t, (degree.get(t) || 0) + 1);
+        return { ...link, source: s, target: t, path_rank: rankByLink.get(link) };
+      });
+
+    const nodes = scopedFullGraph.nodes
+      .filter((n) => pathNodeIds.has(n.id))
+      .map((n) => ({ ...n, val: degree.get(n.id) || 1 }));
+
+    return { nodes, links, truncated: false, matchedCount: nodes.length };
+  }, [pathQuery, pathResults, scopedFullGraph]);
+
+  const pathEndpoints = useMemo(
+    () => (pathDisplayGraph && pathQuery
+      ? { sourceId: pathQuery.sourceId, targetId: pathQuery.targetId }
+      : null),
+    [pathDisplayGraph, pathQuery]
+  );
+
+  const handleFindPaths = useCallback((query: PathQuery) => {
+    setPathQuery(query);
+    setIsRightSidebarOpen(true);
+  }, []);
+
+  const handleClearPaths = useCallback(() => setPathQuery(null), []);
+
+  const isDiffActive =
+    !!diffBaseScope && diffBaseScope !== timeScope && availableTimeScopes.includes(diffBaseScope);
+
+  useEffect(() => {
+    if (!isDiffActive || loading || scopedFullGraph.nodes.length === 0) return;
+
+    let active = true;
+    const computeDiff = async () => {
+      setIsComputingDiff(true);
+      try {
+        const base = await loadGraph(graphTitle, diffBaseScope!);
+        if (!active) return;
+
+        const baseNodes = base.nodes.filter((n) => n.time === diffBaseScope);
+        const baseNodeIds = new Set(baseNodes.map((n) => n.id));
+        const baseLinks = base.links.filter((l) => {
+          const s = typeof l.source === 'string' ? l.source : l.source.id;
+          const t = typeof l.target === 'string' ? l.target : l.target.id;
+          return baseNodeIds.has(s) && baseNodeIds.has(t);
+        });
+
+        setGraphDiff(
+          computeGraphDiff({ nodes: baseNodes, links: baseLinks }, scopedFullGraph, diffBaseScope!, timeScope)
+        );
+      } catch (err) {
+        console.error('Failed to compute year-over-year diff:', err);
+        if (active) setGraphDiff(null);
+      } finally {
+        if (active) setIsComputingDiff(false);
+      }
+    };
+
+    computeDiff();
+    return () => { active = false; };
+  }, [isDiffActive, diffBaseScope, timeScope, graphTitle, scopedFullGraph, loading]);
+
+  // Ignore a diff computed for a previous scope pair while the new one loads
+  const activeDiff =
+    isDiffActive && graphDiff?.baseScope === diffBaseScope && graphDiff.compareScope === timeScope
+      ? graphDiff
+      : null;
+
+  const diffDisplayGraph = useMemo<FilteredGraph | null>(() => {
+    if (!activeDiff) return null;
+
+    const typedNodes = enabledNodeTypes.size > 0
+      ? activeDiff.nodes.filter((n) => enabledNodeTypes.has(n.node_type))
+      : activeDiff.nodes;
+    const typedIds = new Set(typedNodes.map((n) => n.id));
+    const typedLinks = activeDiff.links.filter((l) => {
+      const s = typeof l.source === 'string' ? l.source : l.source.id;
+      const t = typeof l.target === 'string' ? l.target : l.target.id;
+      const edgeTypeMatch = enabledCategories.size === 0 || enabledCategories.has(l.edge_type);
+      return edgeTypeMatch && typedIds.has(s) && typedIds.has(t);
+    });
+
+    const { nodes, links, truncated } = changedSubgraph(
+      { ...activeDiff, nodes: typedNodes, links: typedLinks },
+      maxHops ?? 2000
+    );
+
+    return { nodes, links, truncated, matchedCount: nodes.length };
+  }, [activeDiff, enabledNodeTypes, enabledCategories, maxHops]);
+
+  // Meta graph: the network collapsed into one node per chapter, subchapter or part.
+  // A bottom-up search result is aggregated as shown; otherwise the whole
+  // type-filtered scope is, with the node and link caps applied afterwards so
+  // member counts and link weights cover the full title.
+  const metaDisplayGraph = useMemo(() => {
+    if (!groupLevel || pathDisplayGraph || diffDisplayGraph) return null;
+    if (buildMode === 'bottomUp' && hasBottomUpSearch) {
+      return aggregateGraph(filteredDisplayGraph, groupLevel, expandedGroups);
+    }
+
+    const nodes = scopedFullGraph.nodes.filter(
+      (n) =>
+        (enabledNodeTypes.size === 0 || enabledNodeTypes.has(n.node_type)) &&
+        (enabledClusterIds.size === 0 || !nodeCommunities || enabledClusterIds.has(nodeCommunities.get(n.id) ?? -1))
+    );
+    const nodeIds = new Set(nodes.map((n) => n.id));
+    const links = scopedFullGraph.links.filter(
+      (l) =>
+        (enabledCategories.size === 0 || enabledCategories.size >= 3 || enabledCategories.has(l.edge_type)) &&
+        nodeIds.has(endpointId(l.source)) &&
+        nodeIds.has(endpointId(l.target))
+    );
+    const meta = aggregateGraph({ nodes, links }, groupLevel, expandedGroups);
+
+    // Largest groups and heaviest links are kept when capped
+    const nodesCapped = maxHops !== null && meta.nodes.length > maxHops;
+    const cappedNodes = nodesCapped
+      ? [...meta.nodes].sort((a, b) => (b.val ?? 0) - (a.val ?? 0)).slice(0, maxHops!)
+      : meta.nodes;
+    const kept = new Set(cappedNodes.map((n) => n.id));
+    let cappedLinks = meta.links.filter((l) => kept.has(endpointId(l.source)) && kept.has(endpointId(l.target)));
+    const linksCapped = cappedLinks.length > limit;
+    if (linksCapped) cappedLinks = [...cappedLinks].sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1)).slice(0, limit);
+
+    return {
+      nodes: cappedNodes,
+      links: cappedLinks,
+      truncated: nodesCapped || linksCapped,
+      matchedCount: cappedNodes.length,
+    };
+  }, [
+    groupLevel,
+    buildMode,
+    hasBottomUpSearch,
+    pathDisplayGraph,
+    diffDisplayGraph,
+    filteredDisplayGraph,
+    scopedFullGraph,
+    enabledNodeTypes,
+    enabledCategories,
+    enabledClusterIds,
+    nodeCommunities,
+    expandedGroups,
+    maxHops,
+    limit,
+  ]);
+
+  const handleGroupLevelChange = useCallback((level: GroupLevel | null) => {
+    setGroupLevel(level);
+    setExpandedGroups(new Set());
+  }, []);
+
+  const handleGroupExpand = useCallback((groupId: string) => {
+    setExpandedGroups((prev) => new Set(prev).add(groupId));
+  }, []);
 
   const executeBottomUpSearch = useCallback(
     async (
@@ -411,6 +956,8 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
         searchFields: string[];
         searchLogic: 'AND' | 'OR';
         nodeRankingMode: 'global' | 'subgraph';
+        titles?: string[];
+        seedNodeIds?: string[];
       },
       opts?: { preservePreviousGraph?: boolean }
     ) => {
@@ -424,23 +971,7 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
       setTopDownGraphInfo(null);
 
       try {
-        const terms = params.keywords
-          .split(',')
-          .map((t) => t.trim())
-          .filter((t) => t);
-
-        const builderState: NetworkBuilderState = {
-          searchTerms: terms,
-          searchFields: params.searchFields,
-          allowedNodeTypes: params.nodeTypes as ('index' | 'entity' | 'concept')[],
-          allowedEdgeTypes: params.edgeTypes as ('definition' | 'reference' | 'hierarchy')[],
-          allowedTitles: [],
-          allowedSections: [],
-          seedNodeIds: [],
-          expansionDepth: params.expansionDegree,
-          maxNodesPerExpansion: 100,
-          maxTotalNodes: params.maxNodes,
-        };
+        const builderState = toBuilderState(params);
 
         const filtered = builder.buildNetwork(builderState, params.searchLogic, params.nodeRankingMode);
 
@@ -502,6 +1033,7 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
         setIsLoadingNodeRelationships(false); 
       } catch (error) {
         console.error('Error building network:', error);
+        if (error instanceof QuerySyntaxError) alert(`❌ Invalid search query: ${error.message}`);
       } finally {
         if (!opts?.preservePreviousGraph) setLoading(false);
       }
@@ -512,9 +1044,7 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
   useEffect(() => {
     if (buildMode !== 'bottomUp') return;
 
-    const hasSearch = bottomUpSearchKeywords.trim().length > 0;
-
-    if (!hasSearch) {
+    if (!hasBottomUpSearch) {
       const cappedNodes =
         maxHops !== null && scopedFullGraph.nodes.length > maxHops
           ? scopedFullGraph.nodes.slice(0, maxHops)
@@ -552,6 +1082,8 @@ const getOtherNodeId = (rel: any, selectedId: string): string | null => {
 
     if (!builder) return;
 if (!bottomUpSearchParams) return;
+// A branch restored from the URL runs once its seeds are resolved
+if (bottomUpSearchParams.seedBranch && !bottomUpSearchParams.seedNodeIds) return;
 
 // Always search with all types, let filteredDisplayGraph handle filtering
 const searchParamsWithAllTypes = {
@@ -567,7 +1099,7 @@ executeBottomUpSearch(searchParamsWithAllTypes, { preservePreviousGraph: true })
 
   }, [
     buildMode,
-    bottomUpSearchKeywords,
+    hasBottomUpSearch,
     timeScope,
     builder,
     bottomUpSearchParams,
@@ -602,6 +1134,30 @@ executeBottomUpSearch(searchParamsWithAllTypes, { preservePreviousGraph: true })
     }
   }, [fullGraph]);
 
+  // Community detection over the loaded scope feeds the tag clusters, once they are wanted
+  useEffect(() => {
+    if (!wantsCommunities || loading || fullGraph.nodes.length === 0) return;
+
+    let active = true;
+    const key = `${graphTitle}::${timeScope}`;
+
+    const loadCommunities = async () => {
+      try {
+        const [clusters, assignments] = await Promise.all([
+          fetchTagClusters(graphTitle, timeScope),
+          fetchNodeCommunities(graphTitle, timeScope),
+        ]);
+        if (active) setCommunities({ key, clusters, assignments });
+      } catch (err) {
+        console.error('Community detection failed:', err);
+        if (active) setCommunities({ key, clusters: [], assignments: new Map() });
+      }
+    };
+
+    loadCommunities();
+    return () => { active = false; };
+  }, [wantsCommunities, loading, fullGraph, graphTitle, timeScope]);
+
 
   const loadDataDeps = {
   manifestLoaded,
@@ -618,7 +1174,7 @@ executeBottomUpSearch(searchParamsWithAllTypes, { preservePreviousGraph: true })
   includeUndated,
   keywords,
   maxHops,
-  selectedTitle,
+  graphTitle,
 };
 
 const prevDepsRef = useRef(loadDataDeps);
@@ -662,11 +1218,11 @@ useEffect(() => {
             includeUndated,
             keywords,
             maxHops,
-            selectedTitle,
+            graphTitle,
             timeScope
           ),
-          fetchActorCounts(300, undefined, selectedTitle, timeScope),
-          fetchStats(selectedTitle, timeScope),
+          fetchActorCounts(300, undefined, graphTitle, timeScope),
+          fetchStats(graphTitle, timeScope),
         ]);
 
         let workingRelationships = relationshipsResponse.relationships;
@@ -784,7 +1340,7 @@ useEffect(() => {
     includeUndated,
     keywords,
     maxHops,
-    selectedTitle,
+    graphTitle,
   ]);
 
   // Load relationships for persisted node after graph loads
@@ -803,7 +1359,7 @@ const loadNodeRelationships = async () => {
       includeUndated,
       keywords,
       maxHops,
-      selectedTitle,
+      graphTitle,
       timeScope,
       Array.from(enabledNodeTypes)  // ← ADD this line
     );
@@ -812,7 +1368,7 @@ const loadNodeRelationships = async () => {
     setActorTotalBeforeFilter(totalBeforeFilter);
 // After setActorTotalBeforeFilter(response.totalBeforeFilter):
 try {
-  const details = await fetchNodeDetails(id, selectedTitle, timeScope);
+  const details = await fetchNodeDetails(id, graphTitle, timeScope);
   const label = details?.display_label
     ? details.display_label.replace('26 U.S.C. ', '').replace(',', '').trim()
     : id;
@@ -836,7 +1392,7 @@ try {
     loading,
     selectedNode,
     timeScope,
-    selectedTitle,
+    graphTitle,
     buildMode,
     enabledClusterIds,
     enabledCategories,
@@ -859,12 +1415,22 @@ try {
     [timeScope]
   );
 
+  // Super-nodes aren't graph nodes; double-clicking expands them instead
+  const handleGraphNodeClick = useCallback(
+    (nodeId: string | null) => {
+      if (nodeId && isGroupNodeId(nodeId)) return;
+      handleNodeClick(nodeId);
+    },
+    [handleNodeClick]
+  );
+
   const switchTimeScope = useCallback(
   (next: TimeScope) => {
     if (next === timeScope) return;
     
     setIsSwitchingScope(true);
     setIsLoadingNodeRelationships(true); // ← ADD THIS
+    setEnabledClusterIds(new Set()); // Cluster IDs are per scope
     setTimeScope(next);
   },
   [timeScope]
@@ -937,7 +1503,7 @@ try {
             includeUndated,
             keywords,
             maxHops,
-            selectedTitle,
+            graphTitle,
             timeScope,
             Array.from(enabledNodeTypes)
           );
@@ -991,7 +1557,7 @@ try {
     includeUndated,
     keywords,
     maxHops,
-    selectedTitle,
+    graphTitle,
     timeScope,
     displayGraph,
     filteredDisplayGraph,
@@ -1009,6 +1575,7 @@ try {
     searchFields: string[];
     searchLogic: 'AND' | 'OR';
     nodeRankingMode: 'global' | 'subgraph';
+    titles?: string[];
   }) => {
     if (!builder) {
       alert('Network builder is not ready. Please wait for the data to load.');
@@ -1042,6 +1609,59 @@ try {
 );
 
 
+  // Hierarchy browser: show a branch as the network, or build outward from it
+  const handleBranchSelect = useCallback(
+    (nodeIds: string[], mode: 'subtree' | 'seed', branchKey: string) => {
+      if (!builder) {
+        alert('Network builder is not ready. Please wait for the data to load.');
+        return;
+      }
+
+      const effective = {
+        keywords: '',
+        expansionDegree: mode === 'seed' ? Math.max(1, bottomUpSearchParams?.expansionDegree ?? 1) : 0,
+        maxNodes: maxHops || 1500,
+        nodeTypes: ['index', 'entity', 'concept'],
+        edgeTypes: ['definition', 'reference', 'hierarchy'],
+        searchFields: bottomUpSearchParams?.searchFields ?? ['text'],
+        searchLogic: 'OR' as const,
+        nodeRankingMode: bottomUpSearchParams?.nodeRankingMode ?? 'global',
+        seedNodeIds: nodeIds,
+        seedBranch: branchKey,
+      };
+
+      setBottomUpSearchParams(effective);
+      setBottomUpSearchKeywords('');
+      setBuildMode('bottomUp');
+      executeBottomUpSearch(effective);
+    },
+    [builder, bottomUpSearchParams, executeBottomUpSearch, maxHops]
+  );
+
+  // A branch network restored from the URL only names its branch: look its seeds up
+  // in the outline, or fall back to the full view when the branch doesn't exist here
+  useEffect(() => {
+    const branchKey = bottomUpSearchParams?.seedBranch;
+    if (!branchKey || bottomUpSearchParams?.seedNodeIds || loading) return;
+
+    let active = true;
+    fetchHierarchyOutline(graphTitle, timeScope).then(
+      (outline) => {
+        if (!active) return;
+        const branch = findBranch(outline, branchKey);
+        setBottomUpSearchParams((params) =>
+          params?.seedBranch !== branchKey
+            ? params
+            : branch
+            ? { ...params, seedNodeIds: branchNodeIds(branch) }
+            : { ...params, seedBranch: undefined, seedNodeIds: [] }
+        );
+      },
+      (err) => console.error('Failed to resolve hierarchy branch:', err)
+    );
+    return () => { active = false; };
+  }, [bottomUpSearchParams, graphTitle, timeScope, loading]);
+
   const handleStartNewNetwork = useCallback(() => {
     setBuildMode('bottomUp');
     setKeywords('');
@@ -1074,10 +1694,18 @@ const handleResetToTopDown = useCallback(() => {
 }, []);
 
 const tableViewData = useMemo(() => {
+  // Diff mode lists every node of both years with its change status
+  if (activeDiff) {
+    const nodes = enabledNodeTypes.size > 0
+      ? activeDiff.nodes.filter((n) => enabledNodeTypes.has(n.node_type))
+      : activeDiff.nodes;
+    return { nodes, links: activeDiff.links };
+  }
+
   let nodes = scopedFullGraph.nodes;
 
   // In bottom-up mode with an active search, narrow to matched nodes
-  if (buildMode === 'bottomUp' && bottomUpSearchKeywords.trim()) {
+  if (buildMode === 'bottomUp' && hasBottomUpSearch) {
     const searchNodeIds = new Set(displayGraph.nodes.map((n) => n.id));
     nodes = scopedFullGraph.nodes.filter((n) => searchNodeIds.has(n.id));
   }
@@ -1096,12 +1724,18 @@ const tableViewData = useMemo(() => {
   });
 
   return { nodes, links };
-}, [scopedFullGraph, buildMode, bottomUpSearchKeywords, displayGraph, enabledNodeTypes]);
+}, [scopedFullGraph, buildMode, hasBottomUpSearch, displayGraph, enabledNodeTypes, activeDiff]);
 
 
   // Add this before the return statement
   const currentGraphData = useMemo(() => {
-    if (buildMode === 'bottomUp') {
+    if (pathDisplayGraph) {
+      return pathDisplayGraph;
+    } else if (diffDisplayGraph) {
+      return diffDisplayGraph;
+    } else if (metaDisplayGraph) {
+      return metaDisplayGraph;
+    } else if (buildMode === 'bottomUp') {
       return filteredDisplayGraph;
     } else if (buildMode === 'topDown' && relationships) {
       // Convert relationships to graph format
@@ -1151,7 +1785,52 @@ const tableViewData = useMemo(() => {
     }
 
     return null;
-  }, [buildMode, filteredDisplayGraph, relationships, timeScope, selectedTitle]);
+  }, [buildMode, filteredDisplayGraph, metaDisplayGraph, relationships, timeScope, selectedTitle, diffDisplayGraph, pathDisplayGraph]);
+
+  const metricsInput = useMemo<GraphData | null>(() => {
+    if (!metricsEnabled) return null;
+    return metricsScope === 'full' ? scopedFullGraph : currentGraphData;
+  }, [metricsEnabled, metricsScope, scopedFullGraph, currentGraphData]);
+
+  useEffect(() => {
+    if (!metricsInput || metricsInput.nodes.length === 0) return;
+
+    const controller = new AbortController();
+    computeMetricsInWorker(metricsInput, controller.signal)
+      .then((result) => setMetricsRun({ input: metricsInput, result, error: null }))
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        console.error('Failed to compute network metrics:', err);
+        setMetricsRun({ input: metricsInput, result: null, error: 'Failed to compute metrics' });
+      });
+
+    return () => controller.abort();
+  }, [metricsInput]);
+
+  // Results only count for the graph they were computed on
+  const currentMetricsRun = metricsInput && metricsRun?.input === metricsInput ? metricsRun : null;
+  const nodeMetrics = currentMetricsRun?.result?.metrics ?? null;
+
+  const metricsStatus = metricsInput
+    ? {
+        computing: !currentMetricsRun,
+        nodeCount: metricsInput.nodes.length,
+        approximate: currentMetricsRun?.result?.approximate ?? false,
+        error: currentMetricsRun?.error ?? null,
+      }
+    : null;
+
+  const exportGraphData = useMemo(
+    () => (currentGraphData && nodeMetrics
+      ? { nodes: withNodeMetrics(currentGraphData.nodes, nodeMetrics), links: currentGraphData.links }
+      : currentGraphData),
+    [currentGraphData, nodeMetrics]
+  );
+
+  const tableNodes = useMemo(
+    () => withNodeMetrics(tableViewData.nodes, nodeMetrics),
+    [tableViewData.nodes, nodeMetrics]
+  );
 
 
 
@@ -1173,8 +1852,12 @@ const tableViewData = useMemo(() => {
             minDensity={minDensity}
             onMinDensityChange={setMinDensity}
             tagClusters={tagClusters}
+            communitiesLoading={communitiesLoading}
+            onClustersExpandedChange={(expanded) => setClustersShown((s) => ({ ...s, sidebar: expanded }))}
             enabledClusterIds={enabledClusterIds}
             onToggleCluster={toggleCluster}
+            colorByCommunity={colorByCommunity}
+            onColorByCommunityChange={setColorByCommunity}
             enabledCategories={enabledCategories}
             onToggleCategory={toggleCategory}
             enabledNodeTypes={enabledNodeTypes}
@@ -1191,14 +1874,37 @@ const tableViewData = useMemo(() => {
             onTimeScopeChange={switchTimeScope}
             manifest={manifest}
             selectedTitle={selectedTitle}
-            onTitleChange={setSelectedTitle}
+            onTitleChange={handleTitleChange}
+            graphTitle={graphTitle}
+            additionalTitles={additionalTitles}
+            onAdditionalTitlesChange={handleAdditionalTitlesChange}
             availableTimeScopes={availableTimeScopes}
+            diffBaseScope={isDiffActive ? diffBaseScope : null}
+            onDiffBaseScopeChange={setDiffBaseScope}
+            diffSummary={activeDiff?.summary ?? null}
+            isComputingDiff={isComputingDiff}
+            metricsEnabled={metricsEnabled}
+            onMetricsEnabledChange={setMetricsEnabled}
+            metricsScope={metricsScope}
+            onMetricsScopeChange={setMetricsScope}
+            sizeMetric={sizeMetric}
+            onSizeMetricChange={setSizeMetric}
+            metricsStatus={metricsStatus}
+            pathQuery={pathQuery}
+            pathCount={pathResults?.length ?? null}
+            onFindPaths={handleFindPaths}
+            onClearPaths={handleClearPaths}
+            captureWorkspace={captureWorkspace}
+            onApplyWorkspace={handleApplyWorkspace}
+            onCitationSelect={handleCitationSelect}
+            onBranchSelect={handleBranchSelect}
+            onOpenDocument={(nodeId) => { setOpenDocId(nodeId); setOpenDocIndex(null); }}
             onStartNewNetwork={handleStartNewNetwork}
             onResetToTopDown={handleResetToTopDown}
             onBottomUpSearch={handleBottomUpSearch}
             displayGraphInfo={displayGraphInfo}
             topDownGraphInfo={topDownGraphInfo}
-            currentGraphData={currentGraphData}
+            currentGraphData={exportGraphData}
             networkGraphRef={networkGraphRef}
           />
         </div>
@@ -1211,7 +1917,8 @@ const tableViewData = useMemo(() => {
           )}
 
         {/* Graph / Table toggle — bottom left, next to sidebar */}
-        <div className="absolute bottom-14 left-4 z-20 flex rounded-lg overflow-hidden border border-gray-600">
+        <div className="absolute bottom-14 left-4 z-20 flex items-center gap-2">
+        <div className="flex rounded-lg overflow-hidden border border-gray-600">
           <button
             className={`px-4 py-1.5 text-sm font-medium transition-colors ${
               viewMode === 'graph' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
@@ -1230,28 +1937,92 @@ const tableViewData = useMemo(() => {
           </button>
         </div>
 
+        {/* Meta graph grouping */}
+        {viewMode === 'graph' && !pathDisplayGraph && !diffDisplayGraph && (
+          <div className="flex items-center gap-2 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-sm">
+            <select
+              value={groupLevel ?? ''}
+              onChange={(e) => handleGroupLevelChange((e.target.value || null) as GroupLevel | null)}
+              className="bg-gray-800 text-gray-200 focus:outline-none"
+              title="Collapse sections into one node per group; double-click a group to expand it"
+            >
+              <option value="">No grouping</option>
+              {GROUP_LEVELS.map((level) => (
+                <option key={level.value} value={level.value}>Group by {level.label.toLowerCase()}</option>
+              ))}
+            </select>
+            {expandedGroups.size > 0 && (
+              <button
+                onClick={() => setExpandedGroups(new Set())}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                Collapse {expandedGroups.size}
+              </button>
+            )}
+          </div>
+        )}
+        </div>
+
+        {/* Failed load: which file broke and why, over both views */}
+        {loadError && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-gray-900 p-4">
+            <LoadErrorPanel
+              what={
+                loadError.what === 'manifest'
+                  ? 'the title manifest'
+                  : `${graphTitle.split('+').map((t) => `Title ${t.replace(/^0+/, '')}`).join(' + ')} (${timeScope})`
+              }
+              error={loadError.error}
+              onRetry={handleRetryLoad}
+            />
+          </div>
+        )}
+
         {/* Graph — always mounted, hidden when table is active */}
         <div style={{ display: viewMode === 'table' ? 'none' : 'flex', height: '100%', width: '100%' }}>
           {loading ? (
             <div className="flex items-center justify-center h-full w-full bg-gray-900">
-              <div className="text-center">
-                <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-blue-500 mx-auto mb-4"></div>
-                <p className="text-gray-400">Loading network data...</p>
-              </div>
+              {isGraphLoading ? (
+                <LoadProgressBar label="Loading network data..." progress={loadProgress} />
+              ) : (
+                <div className="text-center">
+                  <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-blue-500 mx-auto mb-4"></div>
+                  <p className="text-gray-400">Loading network data...</p>
+                </div>
+              )}
             </div>
           ) : (
             <NetworkGraph
               ref={networkGraphRef}
-              key={`${selectedTitle}::${buildMode}`}
-              graphData={buildMode === 'bottomUp' ? filteredDisplayGraph : undefined}
-              relationships={buildMode === 'topDown' ? relationships : undefined}
+              key={`${graphTitle}::${buildMode}::${activeDiff ? diffBaseScope : ''}::${pathDisplayGraph ? 'paths' : ''}`}
+              graphData={
+                pathDisplayGraph ??
+                diffDisplayGraph ??
+                metaDisplayGraph ??
+                (buildMode === 'bottomUp' ? filteredDisplayGraph : undefined)
+              }
+              relationships={
+                !pathDisplayGraph && !diffDisplayGraph && !metaDisplayGraph && buildMode === 'topDown'
+                  ? relationships
+                  : undefined
+              }
               selectedNode={selectedNode}
-              onNodeClick={handleNodeClick}
+              onNodeClick={handleGraphNodeClick}
               minDensity={minDensity}
               actorTotalCounts={actorTotalCounts}
               enabledCategories={enabledCategories}
               enabledNodeTypes={enabledNodeTypes}
               timeScope={timeScope}
+              diffMode={!pathDisplayGraph && !!diffDisplayGraph}
+              diffBaseScope={diffBaseScope}
+              nodeMetrics={nodeMetrics}
+              nodeCommunities={colorByCommunity ? nodeCommunities : null}
+              tagClusters={tagClusters}
+              sizeMetric={nodeMetrics ? sizeMetric : 'degree'}
+              pathEndpoints={pathEndpoints}
+              pinnedPositions={pinnedPositions}
+              onPinnedPositionsChange={setPinnedPositions}
+              onGroupExpand={metaDisplayGraph ? handleGroupExpand : undefined}
             />
           )}
         </div>
@@ -1260,7 +2031,7 @@ const tableViewData = useMemo(() => {
         {viewMode === 'table' && (
           <div style={{ position: 'absolute', inset: 0 }}>
             <TableView
-              nodes={tableViewData.nodes}
+              nodes={tableNodes}
               links={tableViewData.links}
               selectedNodeId={selectedNodeId}
               onNodeClick={handleNodeClick}
@@ -1300,9 +2071,12 @@ const tableViewData = useMemo(() => {
   setOpenDocIndex(idx >= 0 ? idx : 0);
 }}
 
-              selectedTitle={selectedTitle}
+              selectedTitle={graphTitle}
               availableTimeScopes={availableTimeScopes}
               isLoadingRelationships={isLoadingNodeRelationships}
+              paths={pathDisplayGraph ? pathResults : null}
+              onPathNodeSelect={(nodeId) => setSelectedNode({ id: nodeId, scope: timeScope })}
+              onClearPaths={handleClearPaths}
             />
           )}
         </div>
@@ -1319,6 +2093,7 @@ const tableViewData = useMemo(() => {
             limit={limit}
             onLimitChange={setLimit}
             tagClusters={tagClusters}
+            onClustersShownChange={(shown) => setClustersShown((s) => ({ ...s, mobile: shown }))}
             enabledClusterIds={enabledClusterIds}
             onToggleCluster={toggleCluster}
             enabledCategories={enabledCategories}
@@ -1341,9 +2116,22 @@ const tableViewData = useMemo(() => {
     timeScope={timeScope}
     onTimeScopeChange={switchTimeScope}
     onClose={() => { setOpenDocId(null); setOpenDocIndex(null); }}
-    selectedTitle={selectedTitle}
+    selectedTitle={graphTitle}
     availableTimeScopes={availableTimeScopes}
     isGraphLoading={loading || isSwitchingScope}
+    onCitationClick={handleDocumentCitation}
+    onOpenNode={(nodeId) => {
+      // Keep Prev / Next when the linked node is one of the selected node's neighbors
+      const idx = selectedNodeId
+        ? navRelationships.findIndex((rel) => getOtherNodeId(rel, selectedNodeId) === nodeId)
+        : -1;
+      setOpenDocId(nodeId);
+      setOpenDocIndex(
+        selectedNodeId && nodeId.replace('index:', '') === selectedNodeId.replace('index:', '')
+          ? -1
+          : idx >= 0 ? idx : null
+      );
+    }}
     currentIndex={openDocIndex ?? undefined}
     totalCount={openDocIndex !== null ? navRelationships.length : undefined}
     onPrev={
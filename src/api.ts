@@ -12,17 +12,80 @@ import type {
   TimeScope,
   Manifest,
   ManifestTitle,
+  ManifestPart,
+  TimelineIndexData,
+  TimelineIndexScope,
 } from './types';
+import { detectCommunitiesInWorker } from './services/communityClient';
+import type { CommunityResult } from './services/communityDetection';
+import { SearchIndex, parseSearchQuery } from './services/searchIndex';
+import { matchTitleId, resolveCitationInNodes } from './utils/citations';
+import type { Citation } from './utils/citations';
+import { collectDefinedTerms, definitionSignatures } from './services/definitions';
+import type { DefinedTerm } from './services/definitions';
+import { buildHierarchyOutline } from './services/hierarchyOutline';
+import type { OutlineBranch } from './services/hierarchyOutline';
+import {
+  GraphLru,
+  readMemoryBudgetMB,
+  writeMemoryBudgetMB,
+  readStoredGraph,
+  storeGraph,
+  readStoredTimelineIndex,
+  storeTimelineIndex,
+} from './services/graphCache';
+import type { MemoryCacheEntry } from './services/graphCache';
+import {
+  DataLoadError,
+  assertGraphShape,
+  assertManifestShape,
+  assertSplitMetaShape,
+  assertTimelineIndexShape,
+  htmlFallbackError,
+  parseJsonBody,
+  truncatedBodyError,
+} from './services/loadErrors';
+import { compareSplitCounts } from './utils/graphValidation';
+import { endpointId } from './utils/graphNodes';
 
 // ==============================
 // Cache Management (MODIFIED - now caches by title + timeScope)
 // ==============================
-let cachedGraphs: Map<string, GraphData> = new Map();
+// Parsed graphs in memory, least recently used evicted past the budget;
+// single titles are also persisted to IndexedDB (see services/graphCache.ts)
+const cachedGraphs = new GraphLru(readMemoryBudgetMB() * 1024 * 1024, (key) => forgetDerivedData(key));
 let cachedManifest: Manifest | null = null;
 
+// Links whose endpoint lives in another title, kept aside so merged graphs can
+// turn them into cross-title edges.
+const cachedExternalLinks: Map<string, GraphLink[]> = new Map();
+
 // Helper to create cache key
 const cacheKey = (title: string, timeScope: TimeScope) => `${title}::${timeScope}`;
 
+// ==============================
+// Merged (multi-title) graph keys
+// ==============================
+// Several titles loaded together are addressed by a composite title key such
+// as "26+29+42", so every API function taking `title` works on merged graphs.
+const MERGED_TITLE_SEPARATOR = '+';
+
+export function mergedTitleKey(titles: string[]): string {
+  return Array.from(new Set(titles.filter(Boolean))).join(MERGED_TITLE_SEPARATOR);
+}
+
+export function parseTitleKey(titleKey: string): string[] {
+  return titleKey.split(MERGED_TITLE_SEPARATOR).filter(Boolean);
+}
+
+// Prefix a node ID with its title while keeping the "index:" / "term:" kind
+// first, so existing `index:` handling in the UI keeps working.
+export function prefixNodeId(title: string, id: string): string {
+  const sep = id.indexOf(':');
+  if (sep === -1) return `${title}/${id}`;
+  return `${id.slice(0, sep)}:${title}/${id.slice(sep + 1)}`;
+}
+
 // ==============================
 // Raw Graph Types
 // ==============================
@@ -31,51 +94,190 @@ type RawGraph = { nodes: any[]; links: any[] };
 // Helper for scoped node lookup
 const scopedKey = (time: TimeScope, id: string) => `${time}::${id}`;
 
+// ==============================
+// Load Progress & Cancellation
+// ==============================
+export interface LoadProgress {
+  bytesLoaded: number;
+  bytesTotal: number | null;    // Null until every file's size is known (or when served compressed)
+  partsDone: number;
+  partsTotal: number;
+}
+
+export interface LoadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+// Byte progress is reported at most this often; finished parts always report
+const PROGRESS_INTERVAL_MS = 100;
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+const abortError = () => new DOMException('Graph load cancelled', 'AbortError');
+
 // ==============================
 // Manifest Loading
 // ==============================
 export async function loadManifest(): Promise<Manifest> {
   if (cachedManifest) return cachedManifest;
   
-  cachedManifest = await fetchJson<Manifest>('manifest.json');
+  cachedManifest = await fetchJson<Manifest>('manifest.json', { validate: assertManifestShape });
   return cachedManifest;
 }
 
 // ==============================
 // Core Fetch Helper
 // ==============================
-// REPLACE the existing fetchJson function with this:
-async function fetchJson<T>(relPath: string): Promise<T> {
-  const res = await fetch(`${import.meta.env.BASE_URL}${relPath}`);
-  if (!res.ok) throw new Error(`Failed to fetch: ${relPath} (${res.status})`);
-  const contentType = res.headers.get('content-type') || '';
-  if (contentType.includes('text/html')) {
-    throw new Error(`File not found: ${relPath}`);
+type ByteListener = (loaded: number, total: number | null) => void;
+
+// Failures are DataLoadErrors naming the file and the cause; aborts pass through
+async function fetchResponse(relPath: string, signal?: AbortSignal): Promise<Response> {
+  try {
+    return await fetch(`${import.meta.env.BASE_URL}${relPath}`, { signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new DataLoadError('network', relPath, `The request failed: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+const isHtmlResponse = (res: Response) => (res.headers.get('content-type') || '').includes('text/html');
+
+async function fetchJson<T>(
+  relPath: string,
+  opts: { signal?: AbortSignal; onBytes?: ByteListener; validate?: (value: unknown, file: string) => void } = {}
+): Promise<T> {
+  const res = await fetchResponse(relPath, opts.signal);
+  if (!res.ok) {
+    throw new DataLoadError('http', relPath, `The server answered ${res.status}${res.statusText ? ` ${res.statusText}` : ''}.`);
   }
-  return (await res.json()) as T;
+  return readJson<T>(res, relPath, opts);
+}
+
+async function readJson<T>(
+  res: Response,
+  relPath: string,
+  opts: { onBytes?: ByteListener; validate?: (value: unknown, file: string) => void }
+): Promise<T> {
+  if (isHtmlResponse(res)) throw htmlFallbackError(relPath);
+  const text = opts.onBytes && res.body ? await readBodyText(res, relPath, opts.onBytes) : await res.text();
+  const value = parseJsonBody(relPath, text);
+  opts.validate?.(value, relPath);
+  return value as T;
+}
+
+// Reads a response body chunk by chunk so large files can report progress
+async function readBodyText(res: Response, relPath: string, onBytes: ByteListener): Promise<string> {
+  // Content-Length counts encoded bytes while the reader yields decoded ones
+  const encoding = res.headers.get('content-encoding');
+  const length = Number(res.headers.get('content-length'));
+  const total = length > 0 && (!encoding || encoding === 'identity') ? length : null;
+
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let loaded = 0;
+  onBytes(0, total);
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    chunks.push(decoder.decode(value, { stream: true }));
+    onBytes(loaded, total);
+  }
+  if (total !== null && loaded < total) throw truncatedBodyError(relPath, loaded, total);
+  chunks.push(decoder.decode());
+  return chunks.join('');
+}
+
+// Sums byte and part progress over the files of one load
+function createProgressTracker(partsTotal: number, onProgress?: (progress: LoadProgress) => void) {
+  const files = new Map<string, { loaded: number; total: number | null }>();
+  let partsDone = 0;
+  let lastReport = 0;
+
+  const report = (force: boolean) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = now;
+
+    let bytesLoaded = 0;
+    let bytesTotal: number | null = files.size === partsTotal ? 0 : null;
+    files.forEach((f) => {
+      bytesLoaded += f.loaded;
+      bytesTotal = bytesTotal === null || f.total === null ? null : bytesTotal + f.total;
+    });
+    onProgress({ bytesLoaded, bytesTotal, partsDone, partsTotal });
+  };
+
+  return {
+    // `expected` (from the manifest) stands in when the response doesn't give a usable length
+    bytes: (file: string, expected?: number): ByteListener => (loaded, total) => {
+      const isNew = !files.has(file);
+      files.set(file, { loaded, total: total ?? expected ?? null });
+      report(isNew);
+    },
+    partDone: () => {
+      partsDone += 1;
+      report(true);
+    },
+  };
 }
 
 
 // ==============================
-// Load Raw Graph
+// Manifest File Resolution
 // ==============================
-async function loadRawGraph(title: string, timeScope: TimeScope): Promise<RawGraph> {
-  const base = import.meta.env.BASE_URL;
-  const metaFilename = `title-${title}-time-${timeScope}.meta.json`;
-  const singleFilename = `title-${title}-time-${timeScope}.json`;
+type GraphFiles =
+  | { kind: 'single'; file: string; bytes?: number }
+  | { kind: 'split'; meta: string; parts?: ManifestPart[] };
+
+// Files of a title's time scope as the manifest lists them: version 3 scope
+// entries, else version 2 file/meta maps, else the file naming convention
+async function resolveGraphFiles(title: string, timeScope: TimeScope): Promise<GraphFiles> {
+  const titleData = (await loadManifest()).titles.find((t) => t.id === title);
+  const scope = titleData?.scopes?.[timeScope];
+
+  if (scope?.kind === 'split' && (scope.parts || scope.meta)) {
+    return { kind: 'split', meta: scope.meta ?? `title-${title}-time-${timeScope}.meta.json`, parts: scope.parts };
+  }
+  if (scope?.file) return { kind: 'single', file: scope.file, bytes: scope.bytes };
 
-  // Check for split meta — must verify content-type to avoid SPA HTML fallback
-  const metaRes = await fetch(`${base}${metaFilename}`);
-  const metaContentType = metaRes.headers.get('content-type') || '';
-  const isSplit = metaRes.ok && !metaContentType.includes('text/html');
+  const legacyMeta = titleData?.meta?.[timeScope];
+  if (legacyMeta) return { kind: 'split', meta: legacyMeta };
+  return { kind: 'single', file: titleData?.file?.[timeScope] ?? `title-${title}-time-${timeScope}.json` };
+}
 
-if (isSplit) {
-    const meta = await metaRes.json() as {
-      parts: { file: string; nodes: number; links: number }[];
-    };
+// ==============================
+// Load Raw Graph
+// ==============================
+async function loadRawGraph(title: string, timeScope: TimeScope, opts: LoadOptions = {}): Promise<RawGraph> {
+  const { signal, onProgress } = opts;
+  const files = await resolveGraphFiles(title, timeScope);
+
+  if (files.kind === 'split') {
+    // Parts listed in the manifest are fetched directly; older manifests need the meta file
+    const meta = files.parts
+      ? { parts: files.parts }
+      : await fetchJson<{ parts: ManifestPart[] }>(files.meta, { signal, validate: assertSplitMetaShape });
 
+    const progress = createProgressTracker(meta.parts.length, onProgress);
     const parts = await Promise.all(
-      meta.parts.map((part) => fetchJson<RawGraph>(part.file))
+      meta.parts.map(async (part) => {
+        const graph = await fetchJson<RawGraph>(part.file, {
+          signal,
+          onBytes: progress.bytes(part.file, part.bytes),
+          validate: (value, file) => {
+            const report = assertGraphShape(value, file);
+            compareSplitCounts(part, report).forEach((mismatch) => console.warn(mismatch));
+          },
+        });
+        progress.partDone();
+        return graph;
+      })
     );
 
     const nodeMap = new Map<string, any>();
@@ -102,7 +304,14 @@ if (isSplit) {
 
 
   // Single file — fetchJson already guards against HTML responses
-  return await fetchJson<RawGraph>(singleFilename);
+  const progress = createProgressTracker(1, onProgress);
+  const graph = await fetchJson<RawGraph>(files.file, {
+    signal,
+    onBytes: progress.bytes(files.file, files.bytes),
+    validate: assertGraphShape,
+  });
+  progress.partDone();
+  return graph;
 }
 
 
@@ -137,15 +346,146 @@ async function getGraphOrThrow(title: string, timeScope: TimeScope): Promise<Gra
 // ==============================
 // Main Graph Loader
 // ==============================
-export async function loadGraph(title: string, timeScope: TimeScope): Promise<GraphData> {
+// One in-flight load per title + timeScope, shared by every caller asking for
+// it. A caller's signal only detaches that caller; the download itself is
+// aborted once every caller has detached (callers without a signal never do).
+interface InflightLoad {
+  key: string;
+  promise: Promise<GraphData>;
+  retain: boolean;          // Kept in memory when done; false while only background indexing wants it
+  controller: AbortController;
+  listeners: Set<(progress: LoadProgress) => void>;
+  progress: LoadProgress | null;
+  subscribers: number;
+}
+
+const inflightGraphs: Map<string, InflightLoad> = new Map();
+
+export function loadGraph(title: string, timeScope: TimeScope, opts: LoadOptions = {}): Promise<GraphData> {
   const key = cacheKey(title, timeScope);
-  
+
   // Return from cache if already loaded
-  if (cachedGraphs.has(key)) {
-    return cachedGraphs.get(key)!;
+  const cached = cachedGraphs.get(key);
+  if (cached) return Promise.resolve(cached);
+  if (opts.signal?.aborted) return Promise.reject(abortError());
+
+  const load = inflightGraphs.get(key) ?? startLoad(title, timeScope);
+  load.retain = true;
+  return joinLoad(load, opts);
+}
+
+function startLoad(title: string, timeScope: TimeScope): InflightLoad {
+  const key = cacheKey(title, timeScope);
+  const entry: InflightLoad = {
+    key,
+    promise: Promise.resolve({ nodes: [], links: [] }),
+    retain: false,
+    controller: new AbortController(),
+    listeners: new Set(),
+    progress: null,
+    subscribers: 0,
+  };
+  const onProgress = (progress: LoadProgress) => {
+    entry.progress = progress;
+    entry.listeners.forEach((listener) => listener(progress));
+  };
+  const titles = parseTitleKey(title);
+  entry.promise = (
+    titles.length > 1
+      ? loadMergedGraph(titles, timeScope, { signal: entry.controller.signal, onProgress })
+      : buildGraph(title, timeScope, { signal: entry.controller.signal, onProgress })
+  )
+    .then(({ graph, bytes, externalLinks }) => {
+      if (entry.retain) {
+        cachedGraphs.set(key, graph, bytes);
+        if (externalLinks) cachedExternalLinks.set(key, externalLinks);
+      }
+      return graph;
+    })
+    .finally(() => {
+      if (inflightGraphs.get(key) === entry) inflightGraphs.delete(key);
+    });
+  inflightGraphs.set(key, entry);
+  return entry;
+}
+
+function joinLoad(load: InflightLoad, { signal, onProgress }: LoadOptions): Promise<GraphData> {
+  load.subscribers += 1;
+  if (onProgress) {
+    load.listeners.add(onProgress);
+    if (load.progress) onProgress(load.progress);
   }
 
-  const raw = await loadRawGraph(title, timeScope);
+  return new Promise<GraphData>((resolve, reject) => {
+    const detach = () => {
+      if (onProgress) load.listeners.delete(onProgress);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      detach();
+      reject(abortError());
+      load.subscribers -= 1;
+      if (load.subscribers === 0) {
+        inflightGraphs.delete(load.key);
+        load.controller.abort();
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    load.promise.then(
+      (graph) => {
+        detach();
+        resolve(graph);
+      },
+      (err) => {
+        detach();
+        reject(err);
+      }
+    );
+  });
+}
+
+// Content hash the manifest lists for a title's time scope, if any
+async function contentHash(title: string, timeScope: TimeScope): Promise<string | null> {
+  try {
+    const manifest = await loadManifest();
+    return manifest.titles.find((t) => t.id === title)?.scopes?.[timeScope]?.hash ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// A loaded graph with its download size and, for single titles, the links
+// pointing into other titles
+type BuiltGraph = { graph: GraphData; bytes: number; externalLinks?: GraphLink[] };
+
+async function buildGraph(
+  title: string,
+  timeScope: TimeScope,
+  opts: LoadOptions
+): Promise<BuiltGraph> {
+  const key = cacheKey(title, timeScope);
+
+  // Stored graphs are only trusted when the manifest says which content they hold
+  const hash = await contentHash(title, timeScope);
+  if (hash) {
+    const stored = await readStoredGraph(key, hash).catch((err) => {
+      console.warn('Graph cache read failed:', err);
+      return null;
+    });
+    if (stored) {
+      opts.onProgress?.({ bytesLoaded: stored.bytes, bytesTotal: stored.bytes, partsDone: 1, partsTotal: 1 });
+      return { graph: stored.graph, bytes: stored.bytes, externalLinks: stored.externalLinks };
+    }
+  }
+
+  let bytes = 0;
+  const raw = await loadRawGraph(title, timeScope, {
+    signal: opts.signal,
+    onProgress: (progress) => {
+      bytes = progress.bytesLoaded;
+      opts.onProgress?.(progress);
+    },
+  });
 
   // Calculate degree for node sizing
   const degreeMap = new Map<string, number>();
@@ -187,7 +527,12 @@ export async function loadGraph(title: string, timeScope: TimeScope): Promise<Gr
       chapter: n.chapter,
       subchapter: n.subchapter,
       section: n.section,
+      section_code: n.section_code,
       subsection: n.subsection,
+      paragraph: n.paragraph,
+      subparagraph: n.subparagraph,
+      clause: n.clause,
+      subclause: n.subclause,
       
       // Legacy fields
       full_name: n.full_name,
@@ -224,18 +569,186 @@ const filteredNodes = nodes.filter((n) => !titleNodePattern.test(n.id));
 
 // Also remove any links that referenced the filtered nodes
 const filteredNodeIds = new Set(filteredNodes.map((n) => n.id));
+const removedNodeIds = new Set(nodes.filter((n) => titleNodePattern.test(n.id)).map((n) => n.id));
+const externalLinks: GraphLink[] = [];
 const filteredLinks = links.filter((l) => {
   const s = typeof l.source === 'string' ? l.source : (l.source as any).id;
   const t = typeof l.target === 'string' ? l.target : (l.target as any).id;
-  return filteredNodeIds.has(s) && filteredNodeIds.has(t);
+  if (filteredNodeIds.has(s) && filteredNodeIds.has(t)) return true;
+
+  // One endpoint is missing from this title: may resolve in a merged graph
+  if (!removedNodeIds.has(s) && !removedNodeIds.has(t)) externalLinks.push(l);
+  return false;
 });
 
 const graphData = { nodes: filteredNodes, links: filteredLinks };
-  cachedGraphs.set(key, graphData);
-  
-  return graphData;
+
+  if (hash) {
+    storeGraph({ key, title, timeScope, hash, bytes }, graphData, externalLinks).catch((err) =>
+      console.warn('Failed to persist graph:', err)
+    );
+  }
+
+  return { graph: graphData, bytes, externalLinks };
+}
+
+// ==============================
+// Merged Graph Loader
+// ==============================
+async function loadMergedGraph(
+  titles: string[],
+  timeScope: TimeScope,
+  opts: LoadOptions
+): Promise<BuiltGraph> {
+  // Progress of the merged load is the sum over its titles
+  const perTitle = new Map<string, LoadProgress>();
+  const onTitleProgress = (title: string) => (progress: LoadProgress) => {
+    perTitle.set(title, progress);
+    const all = [...perTitle.values()];
+    opts.onProgress?.({
+      bytesLoaded: all.reduce((sum, p) => sum + p.bytesLoaded, 0),
+      bytesTotal:
+        all.length === titles.length && all.every((p) => p.bytesTotal !== null)
+          ? all.reduce((sum, p) => sum + p.bytesTotal!, 0)
+          : null,
+      partsDone: all.reduce((sum, p) => sum + p.partsDone, 0),
+      // Titles not reporting yet count as one part each
+      partsTotal: all.reduce((sum, p) => sum + p.partsTotal, 0) + titles.length - all.length,
+    });
+  };
+
+  // External links are taken as each title arrives; loading a later title may evict it
+  const externalLinks: GraphLink[][] = [];
+  const graphs = await Promise.all(
+    titles.map((t, i) =>
+      loadGraph(t, timeScope, { signal: opts.signal, onProgress: onTitleProgress(t) }).then((graph) => {
+        externalLinks[i] = cachedExternalLinks.get(cacheKey(t, timeScope)) || [];
+        return graph;
+      })
+    )
+  );
+
+  // Raw node ID → titles containing it, to resolve cross-title link endpoints
+  const rawIdTitles = new Map<string, string[]>();
+  graphs.forEach((graph, i) => {
+    graph.nodes.forEach((n) => {
+      const list = rawIdTitles.get(n.id);
+      if (list) list.push(titles[i]);
+      else rawIdTitles.set(n.id, [titles[i]]);
+    });
+  });
+
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
+
+  graphs.forEach((graph, i) => {
+    const title = titles[i];
+
+    graph.nodes.forEach((n) => {
+      nodes.push({ ...n, id: prefixNodeId(title, n.id), usc_title: title, source_title: title });
+    });
+
+    graph.links.forEach((l) => {
+      const s = typeof l.source === 'string' ? l.source : l.source.id;
+      const t = typeof l.target === 'string' ? l.target : l.target.id;
+      links.push({ ...l, source: prefixNodeId(title, s), target: prefixNodeId(title, t) });
+    });
+
+    // Cross-title edges: the missing endpoint lives in another loaded title
+    externalLinks[i].forEach((l) => {
+      const s = typeof l.source === 'string' ? l.source : l.source.id;
+      const t = typeof l.target === 'string' ? l.target : l.target.id;
+      const resolve = (id: string) => {
+        const owners = rawIdTitles.get(id) || [];
+        if (owners.includes(title)) return prefixNodeId(title, id);
+        const other = owners.find((o) => o !== title);
+        return other ? prefixNodeId(other, id) : null;
+      };
+      const source = resolve(s);
+      const target = resolve(t);
+      if (!source || !target) return;
+      links.push({ ...l, source, target, cross_title: true });
+    });
+  });
+
+  // Degrees now include cross-title edges
+  const degreeMap = new Map<string, number>();
+  links.forEach((l) => {
+    const s = l.source as string;
+    const t = l.target as string;
+    degreeMap.set(s, (degreeMap.get(s) || 0) + 1);
+    degreeMap.set(t, (degreeMap.get(t) || 0) + 1);
+  });
+  nodes.forEach((n) => {
+    n.val = degreeMap.get(n.id) || 0;
+    n.totalVal = n.val;
+  });
+
+  const bytes = titles.reduce((sum, t) => sum + cachedGraphs.entryBytes(cacheKey(t, timeScope)), 0);
+  return { graph: { nodes, links }, bytes };
 }
 
+// ==============================
+// Cache Controls
+// ==============================
+export interface MemoryCacheStats {
+  entries: (MemoryCacheEntry & { title: string; timeScope: TimeScope })[];   // Most recently used first
+  bytes: number;
+  budget: number;
+}
+
+export function memoryCacheStats(): MemoryCacheStats {
+  const entries = cachedGraphs.list().map((e) => {
+    const [title, timeScope] = e.key.split('::');
+    return { ...e, title, timeScope };
+  });
+  return { entries, bytes: cachedGraphs.bytes, budget: cachedGraphs.budget };
+}
+
+export function setMemoryCacheBudget(mb: number): void {
+  writeMemoryBudgetMB(mb);
+  cachedGraphs.setBudget(mb * 1024 * 1024);
+}
+
+// Frees memory held by graphs other than `keep`, normally the graph on screen
+export function clearMemoryCache(keep?: { title: string; timeScope: TimeScope }): void {
+  const kept = keep ? [cacheKey(keep.title, keep.timeScope)] : [];
+  cachedGraphs.clear(kept);
+
+  // Also whatever was derived from a graph that never reached the cache
+  perGraphCaches().forEach((cache) =>
+    [...cache.keys()].forEach((key) => {
+      if (!kept.includes(key)) cache.delete(key);
+    })
+  );
+  timelineIndexes.clear();
+  definitionIndexes.clear();
+}
+
+// Caches keyed like `cachedGraphs`, each holding data derived from one graph
+const perGraphCaches = (): Map<string, unknown>[] => [
+  cachedExternalLinks,
+  cachedCommunities,
+  cachedSearchIndexes,
+  cachedDefinedTerms,
+  cachedOutlines,
+];
+
+// Drops what was derived from an evicted graph, including title-wide indexes
+// that cover its time scope, so evicting it actually frees its nodes
+function forgetDerivedData(key: string): void {
+  perGraphCaches().forEach((cache) => cache.delete(key));
+
+  const [title, timeScope] = key.split('::');
+  [timelineIndexes, definitionIndexes].forEach((indexes: Map<string, unknown>) => {
+    [...indexes.keys()].forEach((indexKey) => {
+      const [indexTitle, scopes] = indexKey.split('::');
+      if (indexTitle === title && scopes.split(',').includes(timeScope)) indexes.delete(indexKey);
+    });
+  });
+}
+
+
 // ==============================
 // Stats
 // ==============================
@@ -259,10 +772,53 @@ export async function fetchStats(title: string, timeScope: TimeScope): Promise<S
 }
 
 // ==============================
-// Tag Clusters
+// Tag Clusters (community detection)
 // ==============================
-export async function fetchTagClusters(): Promise<TagCluster[]> {
-  return [];
+// Louvain runs in a worker; callers only ask when clusters are shown or used
+const cachedCommunities: Map<string, Promise<CommunityResult>> = new Map();
+
+function getCommunities(title: string, timeScope: TimeScope): Promise<CommunityResult> {
+  const key = cacheKey(title, timeScope);
+  let result = cachedCommunities.get(key);
+  if (!result) {
+    result = getGraphOrThrow(title, timeScope).then((graph) => {
+      const nodes = graph.nodes.filter((n) => n.time === timeScope);
+      const links = graph.links.filter((l) => l.time === timeScope);
+      return detectCommunitiesInWorker({ nodes, links });
+    });
+    result.catch(() => cachedCommunities.delete(key));
+    cachedCommunities.set(key, result);
+  }
+  return result;
+}
+
+export async function fetchTagClusters(title: string, timeScope: TimeScope): Promise<TagCluster[]> {
+  return (await getCommunities(title, timeScope)).clusters;
+}
+
+// Node ID → TagCluster.id for the given title and scope
+export async function fetchNodeCommunities(title: string, timeScope: TimeScope): Promise<Map<string, number>> {
+  return (await getCommunities(title, timeScope)).assignments;
+}
+
+// Keeps links whose endpoints both belong to an enabled cluster (no filter when none enabled)
+async function filterLinksByClusters(
+  links: GraphLink[],
+  clusterIds: number[],
+  title: string,
+  timeScope: TimeScope,
+  keepNodeId?: string
+): Promise<GraphLink[]> {
+  if (clusterIds.length === 0) return links;
+  const assignments = await fetchNodeCommunities(title, timeScope);
+  const enabled = new Set(clusterIds);
+  const inEnabled = (id: string) => id === keepNodeId || enabled.has(assignments.get(id) ?? -1);
+
+  return links.filter((link) => {
+    const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+    const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+    return inEnabled(sourceId) && inEnabled(targetId);
+  });
 }
 
 // ==============================
@@ -287,6 +843,8 @@ export async function fetchRelationships(
     filteredLinks = filteredLinks.filter((link) => categories.includes(link.edge_type));
   }
 
+  filteredLinks = await filterLinksByClusters(filteredLinks, clusterIds, title, timeScope);
+
   const nodeMap = new Map(
     graph.nodes.map((n) => [scopedKey(n.time as TimeScope, String(n.id)), n] as const)
   );
@@ -312,6 +870,7 @@ export async function fetchRelationships(
       actor_id: String(sourceId),
       target_id: String(targetId),
       definition: link.definition,
+      cross_title: link.cross_title,
       actor_display_label: sourceNode?.display_label,
       target_display_label: targetNode?.display_label,
     };
@@ -361,6 +920,9 @@ export async function fetchActorRelationships(
     relatedLinks = relatedLinks.filter((link) => categories.includes(link.edge_type));
   }
 
+  // Apply cluster filters (the selected node itself is always kept)
+  relatedLinks = await filterLinksByClusters(relatedLinks, clusterIds, title, timeScope, actorNode.id);
+
   // Apply node type filters
 if (enabledNodeTypes && enabledNodeTypes.length > 0 && enabledNodeTypes.length < 3) {
   relatedLinks = relatedLinks.filter((link) => {
@@ -401,6 +963,7 @@ if (enabledNodeTypes && enabledNodeTypes.length > 0 && enabledNodeTypes.length <
       target_id: String(targetId),
       edge_type: link.edge_type,
       definition: link.definition,
+      cross_title: link.cross_title,
       actor_display_label: sourceNode?.display_label,
       target_display_label: targetNode?.display_label,
     };
@@ -457,7 +1020,7 @@ export async function fetchActorCounts(
   if (title && timeScope) {
     graph = await getGraphOrThrow(title, timeScope);
   } else {
-    graph = Array.from(cachedGraphs.values())[0];
+    graph = cachedGraphs.graphs()[0];
   }
 
   const nodes = timeScope ? graph.nodes.filter((n) => n.time === timeScope) : graph.nodes;
@@ -493,46 +1056,107 @@ export async function fetchNodeCounts(
 // ==============================
 // Search Actors
 // ==============================
+// Inverted index per title + scope, built on the first search after a load
+const cachedSearchIndexes: Map<string, Promise<SearchIndex>> = new Map();
+
+const ACTOR_SEARCH_WEIGHTS: Record<string, number> = {
+  name: 3,
+  display_label: 3,
+  full_name: 2,
+  id: 1,
+  text: 1,
+};
+
+export function getSearchIndex(title: string, timeScope: TimeScope): Promise<SearchIndex> {
+  const key = cacheKey(title, timeScope);
+  let index = cachedSearchIndexes.get(key);
+  if (!index) {
+    index = getGraphOrThrow(title, timeScope).then(
+      (graph) => new SearchIndex(graph.nodes.filter((n) => n.time === timeScope))
+    );
+    index.catch(() => cachedSearchIndexes.delete(key));
+    cachedSearchIndexes.set(key, index);
+  }
+  return index;
+}
+
 export async function searchActors(
   query: string,
   title: string,
   timeScope: TimeScope
 ): Promise<Actor[]> {
-  const graph = await getGraphOrThrow(title, timeScope);
-
-  const lowerQuery = query.toLowerCase();
-  const pool = graph.nodes.filter((n) => n.time === timeScope);
-
-  const matches = pool
-    .filter((node) => {
-      const nameMatch        = (node.name ?? '').toLowerCase().includes(lowerQuery);
-      const labelMatch       = (node.display_label ?? '').toLowerCase().includes(lowerQuery);
-      const textMatch        = (node.properties?.text ?? '').toLowerCase().includes(lowerQuery);
-      const propNameMatch    = (node.properties?.name ?? '').toLowerCase().includes(lowerQuery);
-      const fullNameMatch    = (node.full_name ?? '').toLowerCase().includes(lowerQuery);
-      const idMatch          = (node.id ?? '').toLowerCase().includes(lowerQuery);
-      return nameMatch || labelMatch || textMatch || propNameMatch || fullNameMatch || idMatch;
+  const index = await getSearchIndex(title, timeScope);
+
+  // All words must match; quoted phrases match exactly; best BM25 score first
+  return index
+    .search(parseSearchQuery(query), {
+      fields: Object.keys(ACTOR_SEARCH_WEIGHTS),
+      weights: ACTOR_SEARCH_WEIGHTS,
+      logic: 'AND',
     })
-    .map((node) => ({
+    .slice(0, 30)
+    .map(({ node }) => ({
       id: node.id,
       name: node.display_label || node.name || node.id,
       connection_count: node.val || 0,
       time: node.time,
       node_type: node.node_type,
-    }))
-    .sort((a, b) => {
-      // Exact matches first
-      const aExact = a.name.toLowerCase().startsWith(lowerQuery) ? 0 : 1;
-      const bExact = b.name.toLowerCase().startsWith(lowerQuery) ? 0 : 1;
-      if (aExact !== bExact) return aExact - bExact;
-      // Then by connection count descending
-      return b.connection_count - a.connection_count;
-    })
-    .slice(0, 30); // ← increased from 20
+    }));
+}
 
-  return matches;
+
+// ==============================
+// Citations
+// ==============================
+export interface CitationTarget {
+  citation: Citation;
+  titleId: string;
+  nodeId: string;
+  label: string;
+  exact: boolean;           // False when resolved to an enclosing provision
+  inLoadedGraph: boolean;   // False when following it means switching titles
 }
 
+/**
+ * Resolves a citation to an index node. Citations without a title refer to
+ * `contextTitle` (the citing document's title), else the primary loaded
+ * title. Titles outside `titleKey` are loaded on demand for `timeScope`.
+ */
+export async function resolveCitation(
+  citation: Citation,
+  titleKey: string,
+  timeScope: TimeScope,
+  contextTitle?: string
+): Promise<CitationTarget | null> {
+  const manifest = await loadManifest();
+  const loadedTitles = parseTitleKey(titleKey);
+  const titleId = citation.title ? matchTitleId(citation.title, manifest) : contextTitle ?? loadedTitles[0];
+  if (!titleId) return null;
+
+  const inLoadedGraph = loadedTitles.includes(titleId);
+  if (!inLoadedGraph) {
+    const manifestTitle = manifest.titles.find((t) => t.id === titleId);
+    if (!manifestTitle?.timeScopes.includes(timeScope)) return null;
+  }
+
+  const graph = await getGraphOrThrow(inLoadedGraph ? titleKey : titleId, timeScope);
+  const merged = inLoadedGraph && loadedTitles.length > 1;
+  const nodes = graph.nodes.filter(
+    (n) => n.time === timeScope && (!merged || n.source_title === titleId)
+  );
+
+  const resolved = resolveCitationInNodes(citation, nodes);
+  if (!resolved) return null;
+
+  return {
+    citation,
+    titleId,
+    nodeId: resolved.node.id,
+    label: resolved.node.display_label || resolved.node.name || resolved.node.id,
+    exact: resolved.exact,
+    inLoadedGraph,
+  };
+}
 
 // ==============================
 // Fetch Document
@@ -605,6 +1229,41 @@ export async function fetchNodeDetails(
   return { ...node, ...(node as any).properties };
 }
 
+// ==============================
+// Outgoing cross-references of a node (for links in the document text)
+// ==============================
+export interface CrossReference {
+  node: GraphNode;
+  edgeType: 'reference' | 'definition';
+}
+
+export async function fetchCrossReferences(
+  nodeId: string,
+  title: string,
+  timeScope: TimeScope
+): Promise<CrossReference[]> {
+  const graph = await getGraphOrThrow(title, timeScope);
+  const nodeMap = new Map(
+    graph.nodes.filter((n) => n.time === timeScope).map((n) => [n.id, n] as const)
+  );
+
+  const references = new Map<string, CrossReference>();
+  graph.links.forEach((link) => {
+    if (link.time !== timeScope || (link.edge_type !== 'reference' && link.edge_type !== 'definition')) return;
+    const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+    if (sourceId !== nodeId) return;
+
+    const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+    const node = nodeMap.get(targetId);
+    // A definition edge wins over a plain reference to the same node
+    if (node && node.id !== nodeId && references.get(node.id)?.edgeType !== 'definition') {
+      references.set(node.id, { node, edgeType: link.edge_type });
+    }
+  });
+
+  return [...references.values()];
+}
+
 // ==============================
 // Helper to check if node exists in a time scope
 // ==============================
@@ -621,6 +1280,271 @@ export async function nodeExistsInTimeScope(
   }
 }
 
+// ==============================
+// Node Timeline Index
+// ==============================
+// One compact index per title covering every time scope: degree, a text hash
+// and a sorted neighbor code list per node (format in TimelineIndexData).
+// Read from the title's published index file; when there is none or it is
+// stale, from IndexedDB, else built from the scope graphs a few at a time
+// and stored there, so node timelines are lookups afterwards.
+
+export interface NodeTimelineEntry {
+  timeScope: TimeScope;
+  exists: boolean;
+  degree: number;
+  textChanged: boolean | null;   // null when there is no earlier scope to compare with
+  gained: number;
+  lost: number;
+}
+
+type TimelineNodeSummary = { degree: number; textHash: number; neighbors: Float64Array };
+
+interface TitleTimelineIndex {
+  scopes: TimeScope[];
+  byScope: Map<TimeScope, Map<string, TimelineNodeSummary>>;
+}
+
+const timelineIndexes: Map<string, Promise<TitleTimelineIndex>> = new Map();
+const TIMELINE_INDEX_CONCURRENCY = 3;
+const TIMELINE_INDEX_VERSION = 1;
+
+// A scope's graph for background indexing: from memory when there, else
+// through the shared in-flight load (IndexedDB or download). It isn't put in
+// memory unless a viewer asks for the same scope meanwhile, since it would
+// push out the graphs being viewed.
+function readScopeGraph(title: string, timeScope: TimeScope): Promise<GraphData> {
+  const key = cacheKey(title, timeScope);
+  const cached = cachedGraphs.peek(key);
+  if (cached) return Promise.resolve(cached);
+  return joinLoad(inflightGraphs.get(key) ?? startLoad(title, timeScope), {});
+}
+
+// FNV-1a over whitespace-normalized text; only equality matters here
+const hashText = (text: string): number => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Split a merged-graph node ID ("index:26/abc") back into title + raw ID
+function unprefixNodeId(id: string): { title: string; rawId: string } | null {
+  const sep = id.indexOf(':');
+  const rest = sep === -1 ? id : id.slice(sep + 1);
+  const slash = rest.indexOf('/');
+  if (slash === -1) return null;
+  const kind = sep === -1 ? '' : `${id.slice(0, sep)}:`;
+  return { title: rest.slice(0, slash), rawId: `${kind}${rest.slice(slash + 1)}` };
+}
+
+const intern = <K,>(map: Map<K, number>, key: K) => {
+  let id = map.get(key);
+  if (id === undefined) {
+    id = map.size;
+    map.set(key, id);
+  }
+  return id;
+};
+
+// Encodes one scope the way scripts/generate-timeline-indexes.mjs does
+function indexTimelineScope(
+  graph: GraphData,
+  nodeIds: Map<string, number>,
+  edgeTypes: Map<string, number>
+): TimelineIndexScope {
+  const present = new Set(graph.nodes.map((n) => n.id));
+
+  const codes = new Map<string, number[]>();
+  graph.links.forEach((l) => {
+    const s = endpointId(l.source);
+    const t = endpointId(l.target);
+    if (!present.has(s) || !present.has(t)) return;
+
+    const edgeType = intern(edgeTypes, l.edge_type ?? 'reference');
+    const push = (from: string, to: string, outgoing: number) => {
+      const code = (intern(nodeIds, to) * 64 + edgeType) * 2 + outgoing;
+      const list = codes.get(from);
+      if (list) list.push(code);
+      else codes.set(from, [code]);
+    };
+    push(s, t, 1);
+    push(t, s, 0);
+  });
+
+  const entry: TimelineIndexScope = { nodes: [], textHashes: [], neighbors: [] };
+  graph.nodes.forEach((n) => {
+    const sorted = (codes.get(n.id) ?? []).sort((a, b) => a - b);
+    entry.nodes.push(intern(nodeIds, n.id));
+    entry.textHashes.push(hashText(n.properties?.text ?? n.text ?? ''));
+    entry.neighbors.push(sorted.map((code, i) => (i === 0 ? code : code - sorted[i - 1])));
+  });
+  return entry;
+}
+
+// Scopes that fail to load are left out, and the index is then not stored
+async function buildTimelineIndexData(
+  title: string,
+  scopes: TimeScope[],
+  hashes: Record<TimeScope, string>
+): Promise<TimelineIndexData> {
+  const nodeIds = new Map<string, number>();
+  const edgeTypes = new Map<string, number>();
+  const byScope: Record<TimeScope, TimelineIndexScope> = {};
+
+  const queue = [...scopes];
+  const worker = async () => {
+    while (queue.length > 0) {
+      const scope = queue.shift()!;
+      try {
+        byScope[scope] = indexTimelineScope(await readScopeGraph(title, scope), nodeIds, edgeTypes);
+      } catch (err) {
+        console.warn(`Failed to index Title ${title}, Time ${scope}:`, err);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(TIMELINE_INDEX_CONCURRENCY, scopes.length) }, worker)
+  );
+
+  return {
+    version: TIMELINE_INDEX_VERSION,
+    title,
+    hashes,
+    edgeTypes: [...edgeTypes.keys()],
+    nodeIds: [...nodeIds.keys()],
+    scopes: byScope,
+  };
+}
+
+function decodeTimelineIndex(data: TimelineIndexData, scopes: TimeScope[]): TitleTimelineIndex {
+  const byScope = new Map<TimeScope, Map<string, TimelineNodeSummary>>();
+  scopes.forEach((scope) => {
+    const entry = data.scopes[scope];
+    if (!entry) return;
+
+    const summaries = new Map<string, TimelineNodeSummary>();
+    entry.nodes.forEach((node, i) => {
+      const deltas = entry.neighbors[i];
+      const neighbors = new Float64Array(deltas.length);
+      let code = 0;
+      deltas.forEach((delta, j) => {
+        code += delta;
+        neighbors[j] = code;
+      });
+      summaries.set(data.nodeIds[node], { degree: deltas.length, textHash: entry.textHashes[i], neighbors });
+    });
+    byScope.set(scope, summaries);
+  });
+  return { scopes, byScope };
+}
+
+async function loadTitleTimelineIndex(title: string, scopes: TimeScope[]): Promise<TitleTimelineIndex> {
+  const hashes: Record<TimeScope, string> = {};
+  await Promise.all(scopes.map(async (scope) => (hashes[scope] = (await contentHash(title, scope)) ?? '')));
+
+  // Usable when it covers every scope, built from the content the manifest lists now
+  const current = (data: TimelineIndexData | null): data is TimelineIndexData =>
+    !!data &&
+    data.version === TIMELINE_INDEX_VERSION &&
+    scopes.every((scope) => data.scopes[scope] && data.hashes[scope] === hashes[scope]);
+
+  if (scopes.length > 1) {
+    const file = `title-${title}.timeline.json`;
+    const published = await fetchJson<TimelineIndexData>(file, { validate: assertTimelineIndexShape }).catch((err) => {
+      console.warn(`No timeline index file for Title ${title}, using a built one:`, err instanceof Error ? err.message : err);
+      return null;
+    });
+    if (current(published)) return decodeTimelineIndex(published, scopes);
+  }
+
+  const key = `${title}::${scopes.join(',')}`;
+  const stored = await readStoredTimelineIndex(key).catch((err) => {
+    console.warn('Timeline index cache read failed:', err);
+    return null;
+  });
+  if (current(stored)) return decodeTimelineIndex(stored, scopes);
+
+  const built = await buildTimelineIndexData(title, scopes, hashes);
+  if (current(built) && scopes.every((scope) => hashes[scope])) {
+    storeTimelineIndex(key, built).catch((err) => console.warn('Failed to persist timeline index:', err));
+  }
+  return decodeTimelineIndex(built, scopes);
+}
+
+function getTitleTimelineIndex(title: string, scopes: TimeScope[]): Promise<TitleTimelineIndex> {
+  const sortedScopes = [...scopes].sort();
+  const key = `${title}::${sortedScopes.join(',')}`;
+
+  let index = timelineIndexes.get(key);
+  if (!index) {
+    index = loadTitleTimelineIndex(title, sortedScopes);
+    index.catch(() => timelineIndexes.delete(key));
+    timelineIndexes.set(key, index);
+  }
+  return index;
+}
+
+// Counts codes in `a` missing from `b`; both sorted ascending
+const countMissing = (a: Float64Array, b: Float64Array): number => {
+  let i = 0;
+  let j = 0;
+  let missing = 0;
+  while (i < a.length) {
+    if (j >= b.length || a[i] < b[j]) {
+      missing++;
+      i++;
+    } else if (a[i] > b[j]) {
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return missing;
+};
+
+export async function fetchNodeTimeline(
+  nodeId: string,
+  title: string,
+  availableTimeScopes: string[]
+): Promise<NodeTimelineEntry[]> {
+  let indexTitle = title;
+  let rawId = nodeId;
+
+  if (parseTitleKey(title).length > 1) {
+    const parsed = unprefixNodeId(nodeId);
+    if (!parsed) return [];
+    indexTitle = parsed.title;
+    rawId = parsed.rawId;
+  }
+
+  const index = await getTitleTimelineIndex(indexTitle, availableTimeScopes);
+
+  let previous: TimelineNodeSummary | null = null;
+  return index.scopes.map((timeScope) => {
+    const summary = index.byScope.get(timeScope)?.get(rawId);
+    if (!summary) {
+      return { timeScope, exists: false, degree: 0, textChanged: null, gained: 0, lost: 0 };
+    }
+
+    const entry: NodeTimelineEntry = {
+      timeScope,
+      exists: true,
+      degree: summary.degree,
+      textChanged: previous ? previous.textHash !== summary.textHash : null,
+      gained: previous ? countMissing(summary.neighbors, previous.neighbors) : 0,
+      lost: previous ? countMissing(previous.neighbors, summary.neighbors) : 0,
+    };
+    previous = summary;
+    return entry;
+  });
+}
+
 // ==============================
 // Get all time scopes where a node exists
 // ==============================
@@ -629,18 +1553,127 @@ export async function getNodeTimeScopes(
   title: string,
   availableTimeScopes: string[]
 ): Promise<string[]> {
-  const existingScopes: string[] = [];
-  
-  for (const timeScope of availableTimeScopes) {
-    try {
-      await loadGraph(title, timeScope);
-      if (await nodeExistsInTimeScope(nodeId, title, timeScope)) {
-        existingScopes.push(timeScope);
+  try {
+    const timeline = await fetchNodeTimeline(nodeId, title, availableTimeScopes);
+    return timeline.filter((entry) => entry.exists).map((entry) => entry.timeScope);
+  } catch (err) {
+    console.warn(`Failed to check node time scopes:`, err);
+    return [];
+  }
+}
+
+// ==============================
+// Defined Terms
+// ==============================
+const cachedDefinedTerms: Map<string, Promise<DefinedTerm[]>> = new Map();
+
+export function fetchDefinedTerms(title: string, timeScope: TimeScope): Promise<DefinedTerm[]> {
+  const key = cacheKey(title, timeScope);
+  let terms = cachedDefinedTerms.get(key);
+  if (!terms) {
+    terms = getGraphOrThrow(title, timeScope).then((graph) =>
+      collectDefinedTerms({
+        nodes: graph.nodes.filter((n) => n.time === timeScope),
+        links: graph.links.filter((l) => l.time === timeScope),
+      })
+    );
+    terms.catch(() => cachedDefinedTerms.delete(key));
+    cachedDefinedTerms.set(key, terms);
+  }
+  return terms;
+}
+
+// Definition text hashes per term for every scope of a title, built like the
+// timeline index: scopes a few at a time, full graphs not kept in memory.
+const definitionIndexes: Map<string, Promise<Map<TimeScope, Map<string, number>>>> = new Map();
+
+async function buildDefinitionIndex(title: string, scopes: TimeScope[]): Promise<Map<TimeScope, Map<string, number>>> {
+  const byScope = new Map<TimeScope, Map<string, number>>();
+
+  const queue = [...scopes];
+  const worker = async () => {
+    while (queue.length > 0) {
+      const scope = queue.shift()!;
+      try {
+        const graph = await readScopeGraph(title, scope);
+        const hashes = new Map<string, number>();
+        definitionSignatures(graph).forEach((signature, termId) => hashes.set(termId, hashText(signature)));
+        byScope.set(scope, hashes);
+      } catch (err) {
+        console.warn(`Failed to index definitions for Title ${title}, Time ${scope}:`, err);
       }
-    } catch (err) {
-      console.warn(`Failed to check node in ${timeScope}:`, err);
     }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(TIMELINE_INDEX_CONCURRENCY, scopes.length) }, worker)
+  );
+  return byScope;
+}
+
+function getDefinitionIndex(title: string, scopes: TimeScope[]): Promise<Map<TimeScope, Map<string, number>>> {
+  const sortedScopes = [...scopes].sort();
+  const key = `${title}::${sortedScopes.join(',')}`;
+
+  let index = definitionIndexes.get(key);
+  if (!index) {
+    index = buildDefinitionIndex(title, sortedScopes);
+    index.catch(() => definitionIndexes.delete(key));
+    definitionIndexes.set(key, index);
   }
-  
-  return existingScopes;
+  return index;
+}
+
+/**
+ * For each term defined in `timeScope`, the other scopes where the same term
+ * is defined with different text. Terms defined the same way everywhere are
+ * left out.
+ */
+export async function fetchDefinitionChanges(
+  title: string,
+  timeScope: TimeScope,
+  availableTimeScopes: string[]
+): Promise<Map<string, TimeScope[]>> {
+  const titles = parseTitleKey(title);
+  const changes = new Map<string, TimeScope[]>();
+
+  for (const t of titles) {
+    const index = await getDefinitionIndex(t, availableTimeScopes);
+    const current = index.get(timeScope);
+    if (!current) continue;
+
+    current.forEach((hash, termId) => {
+      const differing = availableTimeScopes
+        .filter((scope) => scope !== timeScope)
+        .filter((scope) => {
+          const other = index.get(scope)?.get(termId);
+          return other !== undefined && other !== hash;
+        })
+        .sort();
+      if (differing.length > 0) changes.set(titles.length > 1 ? prefixNodeId(t, termId) : termId, differing);
+    });
+  }
+
+  return changes;
+}
+
+// ==============================
+// Hierarchy Outline
+// ==============================
+const cachedOutlines: Map<string, Promise<OutlineBranch[]>> = new Map();
+
+export function fetchHierarchyOutline(title: string, timeScope: TimeScope): Promise<OutlineBranch[]> {
+  const key = cacheKey(title, timeScope);
+  let outline = cachedOutlines.get(key);
+  if (!outline) {
+    outline = getGraphOrThrow(title, timeScope).then((graph) =>
+      buildHierarchyOutline({
+        nodes: graph.nodes.filter((n) => n.time === timeScope),
+        links: graph.links.filter((l) => l.time === timeScope),
+      })
+    );
+    outline.catch(() => cachedOutlines.delete(key));
+    cachedOutlines.set(key, outline);
+  }
+  return outline;
 }
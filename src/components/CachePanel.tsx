@@ -0,0 +1,215 @@
+// src/components/CachePanel.tsx
+
+import { useState, useEffect, useRef } from 'react';
+import { clearMemoryCache, loadGraph, memoryCacheStats, setMemoryCacheBudget, isAbortError } from '../api';
+import {
+  MEMORY_BUDGET_OPTIONS_MB,
+  clearStoredGraphs,
+  deleteStoredGraph,
+  listStoredGraphs,
+  readMemoryBudgetMB,
+  storageEstimate,
+} from '../services/graphCache';
+import type { StoredGraphEntry } from '../services/graphCache';
+import { formatBytes } from '../utils/formatBytes';
+import type { Manifest, TimeScope } from '../types';
+
+interface CachePanelProps {
+  manifest: Manifest | null;
+  selectedTitle: string;
+  graphTitle: string;       // Kept in memory on "Clear", since it's on screen
+  timeScope: TimeScope;
+}
+
+const titleLabel = (title: string) => `Title ${title.replace(/^0+/, '')}`;
+
+export default function CachePanel({ manifest, selectedTitle, graphTitle, timeScope }: CachePanelProps) {
+  // Bumped after every action so both tiers are read again
+  const [revision, setRevision] = useState(0);
+  const [stored, setStored] = useState<{ entries: StoredGraphEntry[]; estimate: { usage: number; quota: number } | null; error: string | null } | null>(null);
+  const [budgetMB, setBudgetMB] = useState(readMemoryBudgetMB);
+  const [prefetch, setPrefetch] = useState<{ done: number; total: number; scope: TimeScope } | null>(null);
+  const prefetchRef = useRef<AbortController | null>(null);
+
+  const titleData = manifest?.titles.find((t) => t.id === selectedTitle);
+  const scopes = titleData?.timeScopes ?? [];
+  const persistent = Object.values(titleData?.scopes ?? {}).some((scope) => scope.hash);
+  const memory = memoryCacheStats();
+
+  useEffect(() => {
+    let active = true;
+    Promise.all([listStoredGraphs(), storageEstimate().catch(() => null)]).then(
+      ([entries, estimate]) => { if (active) setStored({ entries, estimate, error: null }); },
+      (err) => {
+        console.error('Failed to read graph cache:', err);
+        if (active) setStored({ entries: [], estimate: null, error: 'The browser cache could not be opened.' });
+      }
+    );
+    return () => { active = false; };
+  }, [revision]);
+
+  useEffect(() => () => prefetchRef.current?.abort(), []);
+
+  const refresh = () => setRevision((r) => r + 1);
+
+  const handleBudgetChange = (mb: number) => {
+    setMemoryCacheBudget(mb);
+    setBudgetMB(mb);
+  };
+
+  const handlePrefetch = async () => {
+    const controller = new AbortController();
+    prefetchRef.current = controller;
+    try {
+      for (let i = 0; i < scopes.length; i++) {
+        setPrefetch({ done: i, total: scopes.length, scope: scopes[i] });
+        await loadGraph(selectedTitle, scopes[i], { signal: controller.signal });
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Pre-fetch failed:', err);
+        alert(`❌ Pre-fetch failed: ${err instanceof Error ? err.message : err}`);
+      }
+    } finally {
+      prefetchRef.current = null;
+      setPrefetch(null);
+      refresh();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear all cached graphs? They will be downloaded again when next opened.')) return;
+    clearMemoryCache({ title: graphTitle, timeScope });
+    try {
+      await clearStoredGraphs();
+    } catch (err) {
+      console.error('Failed to clear graph cache:', err);
+      alert('❌ Failed to clear the browser cache.');
+    }
+    refresh();
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await deleteStoredGraph(key);
+    } catch (err) {
+      console.error('Failed to delete cached graph:', err);
+    }
+    refresh();
+  };
+
+  const storedBytes = stored?.entries.reduce((sum, e) => sum + e.bytes, 0) ?? 0;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Memory tier */}
+      <div>
+        <div className="flex items-center justify-between text-gray-300">
+          <span>In memory</span>
+          <span className="font-mono text-xs">
+            {formatBytes(memory.bytes)} / {formatBytes(memory.budget)}
+          </span>
+        </div>
+        <div className="mt-1 h-1.5 w-full rounded-full bg-gray-700 overflow-hidden">
+          <div
+            className="h-full bg-blue-500"
+            style={{ width: `${Math.min(100, (memory.bytes / memory.budget) * 100).toFixed(1)}%` }}
+          />
+        </div>
+        {memory.entries.length > 0 && (
+          <p className="mt-1 text-xs text-gray-400">
+            {memory.entries.map((e) => `${e.title.split('+').map(titleLabel).join(' + ')} · ${e.timeScope}`).join(', ')}
+          </p>
+        )}
+        <label className="mt-2 flex items-center justify-between text-xs text-gray-400">
+          <span>Memory budget</span>
+          <select
+            value={budgetMB}
+            onChange={(e) => handleBudgetChange(Number(e.target.value))}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            {MEMORY_BUDGET_OPTIONS_MB.map((mb) => (
+              <option key={mb} value={mb}>{formatBytes(mb * 1024 * 1024)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Persistent tier */}
+      <div>
+        <div className="flex items-center justify-between text-gray-300">
+          <span>Stored in browser</span>
+          <span className="font-mono text-xs">{formatBytes(storedBytes)}</span>
+        </div>
+        {!stored ? (
+          <p className="text-xs text-gray-400">Reading cache…</p>
+        ) : stored.error ? (
+          <p className="text-xs text-red-400">{stored.error}</p>
+        ) : stored.entries.length === 0 ? (
+          <p className="text-xs text-gray-400">Nothing stored yet.</p>
+        ) : (
+          <div className="mt-1 max-h-40 overflow-y-auto space-y-0.5">
+            {stored.entries.map((e) => (
+              <div key={e.key} className="group flex items-center gap-2 text-xs text-gray-300">
+                <span className="flex-1 truncate">{titleLabel(e.title)} · {e.timeScope}</span>
+                <span className="font-mono text-gray-400">{formatBytes(e.bytes)}</span>
+                <button
+                  onClick={() => handleDelete(e.key)}
+                  className="text-gray-500 hover:text-red-400 invisible group-hover:visible"
+                  title="Remove from cache"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {stored?.estimate && (
+          <p className="mt-1 text-xs text-gray-500">
+            Site storage: {formatBytes(stored.estimate.usage)} of {formatBytes(stored.estimate.quota)} available
+          </p>
+        )}
+        {!persistent && (
+          <p className="mt-1 text-xs text-yellow-400">
+            The manifest has no content hashes for this title, so its graphs are only cached in memory.
+          </p>
+        )}
+      </div>
+
+      {/* Actions */}
+      {prefetch ? (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-300">
+            Pre-fetching {prefetch.scope} ({prefetch.done + 1}/{prefetch.total})…
+          </p>
+          <div className="h-1.5 w-full rounded-full bg-gray-700 overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${(prefetch.done / prefetch.total) * 100}%` }} />
+          </div>
+          <button
+            onClick={() => prefetchRef.current?.abort()}
+            className="text-xs text-blue-400 hover:text-blue-300"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={handlePrefetch}
+            disabled={scopes.length === 0}
+            className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded text-sm"
+            title={`Download and cache every time scope of ${titleLabel(selectedTitle)}`}
+          >
+            Pre-fetch all {scopes.length} years
+          </button>
+          <button
+            onClick={handleClear}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+// src/components/DefinitionsPanel.tsx
+
+import { useState, useEffect, useMemo } from 'react';
+import { fetchDefinedTerms, fetchDefinitionChanges } from '../api';
+import type { DefinedTerm, DefinitionScopeLevel } from '../services/definitions';
+import type { GraphNode, TimeScope } from '../types';
+
+interface DefinitionsPanelProps {
+  graphTitle: string;
+  timeScope: TimeScope;
+  availableTimeScopes: string[];
+  onSelectNode: (nodeId: string) => void;
+  onOpenDocument?: (nodeId: string) => void;
+}
+
+// Rows rendered before "Show more"; titles define thousands of terms
+const PAGE_SIZE = 50;
+const REFERENCES_SHOWN = 20;
+
+const SCOPE_COLORS: Record<DefinitionScopeLevel, string> = {
+  title: 'bg-purple-700 text-purple-100',
+  subtitle: 'bg-purple-700 text-purple-100',
+  chapter: 'bg-blue-700 text-blue-100',
+  subchapter: 'bg-blue-700 text-blue-100',
+  part: 'bg-teal-700 text-teal-100',
+  subpart: 'bg-teal-700 text-teal-100',
+  section: 'bg-gray-600 text-gray-100',
+  subsection: 'bg-gray-600 text-gray-100',
+  paragraph: 'bg-gray-600 text-gray-100',
+};
+
+const nodeLabel = (n: GraphNode) => n.display_label || n.name || n.id;
+
+export default function DefinitionsPanel({
+  graphTitle,
+  timeScope,
+  availableTimeScopes,
+  onSelectNode,
+  onOpenDocument,
+}: DefinitionsPanelProps) {
+  const key = `${graphTitle}::${timeScope}`;
+  const [loaded, setLoaded] = useState<{ key: string; terms: DefinedTerm[]; error: string | null } | null>(null);
+  const [yearChanges, setYearChanges] = useState<{ key: string; changes: Map<string, TimeScope[]> } | null>(null);
+  const [comparingYears, setComparingYears] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    let active = true;
+    fetchDefinedTerms(graphTitle, timeScope).then(
+      (terms) => { if (active) setLoaded({ key, terms, error: null }); },
+      (err) => {
+        console.error('Failed to collect definitions:', err);
+        if (active) setLoaded({ key, terms: [], error: 'Definitions could not be loaded for this title.' });
+      }
+    );
+    return () => { active = false; };
+  }, [graphTitle, timeScope, key]);
+
+  const current = loaded?.key === key ? loaded : null;
+  const changes = yearChanges?.key === key ? yearChanges.changes : null;
+
+  const compareYears = async () => {
+    setComparingYears(true);
+    try {
+      setYearChanges({ key, changes: await fetchDefinitionChanges(graphTitle, timeScope, availableTimeScopes) });
+    } catch (err) {
+      console.error('Failed to compare definitions across years:', err);
+      alert('❌ Could not compare definitions across years. Check console for details.');
+    } finally {
+      setComparingYears(false);
+    }
+  };
+
+  const visibleTerms = useMemo(() => {
+    if (!current) return [];
+    const needle = filter.trim().toLowerCase();
+    return current.terms.filter((t) => {
+      if (needle && !nodeLabel(t.term).toLowerCase().includes(needle)) return false;
+      if (conflictsOnly && t.conflictingChapters.length === 0 && !changes?.has(t.term.id)) return false;
+      return true;
+    });
+  }, [current, filter, conflictsOnly, changes]);
+
+  if (!current) {
+    return <p className="text-xs text-gray-400">Collecting definitions…</p>;
+  }
+  if (current.error) {
+    return <p className="text-xs text-red-400">{current.error}</p>;
+  }
+
+  const chapterConflicts = current.terms.filter((t) => t.conflictingChapters.length > 0).length;
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => { setFilter(e.target.value); setShown(PAGE_SIZE); }}
+        placeholder="Filter defined terms..."
+        className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={conflictsOnly}
+            onChange={(e) => { setConflictsOnly(e.target.checked); setShown(PAGE_SIZE); }}
+            className="mr-1"
+          />
+          Conflicts only
+        </label>
+        {availableTimeScopes.length > 1 && (
+          <button
+            onClick={compareYears}
+            disabled={comparingYears || !!changes}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Load every time scope and flag terms whose definition text changes"
+          >
+            {comparingYears ? 'Comparing…' : changes ? 'Years compared' : 'Compare across years'}
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {current.terms.length.toLocaleString()} defined terms
+        {chapterConflicts > 0 && <span className="text-yellow-400"> · {chapterConflicts} differ across chapters</span>}
+        {changes && changes.size > 0 && <span className="text-orange-400"> · {changes.size} changed across years</span>}
+      </p>
+
+      <div className="space-y-1">
+        {visibleTerms.slice(0, shown).map(({ term, definitions, referencedBy, conflictingChapters }) => {
+          const expanded = expandedId === term.id;
+          const changedIn = changes?.get(term.id);
+
+          return (
+            <div key={term.id} className="bg-gray-900/50 rounded">
+              <button
+                onClick={() => setExpandedId(expanded ? null : term.id)}
+                className="w-full flex items-center justify-between gap-2 px-2 py-1 text-left text-sm text-white hover:bg-gray-700 rounded transition-colors"
+              >
+                <span className="truncate">{nodeLabel(term)}</span>
+                <span className="flex items-center gap-1 shrink-0 text-xs">
+                  {conflictingChapters.length > 0 && <span className="text-yellow-400" title="Defined differently across chapters">⚠</span>}
+                  {changedIn && <span className="text-orange-400" title={`Definition changed: ${changedIn.join(', ')}`}>⏱</span>}
+                  <span className="text-gray-400 font-mono">{definitions.length}/{referencedBy.length}</span>
+                </span>
+              </button>
+
+              {expanded && (
+                <div className="px-2 pb-2 space-y-2 text-xs">
+                  <button onClick={() => onSelectNode(term.id)} className="text-blue-400 hover:text-blue-300">
+                    Select in graph
+                  </button>
+
+                  {conflictingChapters.length > 0 && (
+                    <div className="p-2 bg-yellow-900/20 border border-yellow-700/30 rounded text-yellow-300">
+                      Defined differently in {conflictingChapters.join('; ')}
+                    </div>
+                  )}
+                  {changedIn && (
+                    <div className="p-2 bg-orange-900/20 border border-orange-700/30 rounded text-orange-300">
+                      Definition text differs from {timeScope} in {changedIn.join(', ')}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <div className="text-gray-400">Defined in:</div>
+                    {definitions.map(({ section, text, scope }, i) => (
+                      <div key={`${section.id}-${i}`} className="border-l-2 border-gray-600 pl-2 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => (onOpenDocument ? onOpenDocument(section.id) : onSelectNode(section.id))}
+                            className="text-blue-400 hover:text-blue-300 text-left"
+                          >
+                            {nodeLabel(section)}
+                          </button>
+                          <span
+                            className={`px-1.5 py-0.5 rounded ${SCOPE_COLORS[scope.level]}`}
+                            title={scope.explicit ? `Applies to: ${scope.label}` : 'No scope phrase found; assumed to apply to the defining section'}
+                          >
+                            {scope.level}{scope.explicit ? '' : '?'}
+                          </span>
+                        </div>
+                        {scope.level !== 'section' && <div className="text-gray-500 truncate">{scope.label}</div>}
+                        <div className="text-gray-300 line-clamp-4">{text ?? <span className="text-gray-500">No definition text</span>}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="text-gray-400">Referenced by ({referencedBy.length}):</div>
+                    {referencedBy.length === 0 && <div className="text-gray-500">No referencing sections</div>}
+                    <div className="flex flex-wrap gap-1">
+                      {referencedBy.slice(0, REFERENCES_SHOWN).map((section) => (
+                        <button
+                          key={section.id}
+                          onClick={() => (onOpenDocument ? onOpenDocument(section.id) : onSelectNode(section.id))}
+                          className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+                        >
+                          {nodeLabel(section)}
+                        </button>
+                      ))}
+                      {referencedBy.length > REFERENCES_SHOWN && (
+                        <span className="text-gray-500">+{referencedBy.length - REFERENCES_SHOWN} more</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {visibleTerms.length === 0 && <p className="text-xs text-gray-400">No defined terms match.</p>}
+      {visibleTerms.length > shown && (
+        <button
+          onClick={() => setShown(shown + PAGE_SIZE)}
+          className="w-full px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+        >
+          Show more ({(visibleTerms.length - shown).toLocaleString()} left)
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 // src/components/DocumentModal.tsx
 
-import { useState, useEffect, useRef } from 'react';
-import { fetchDocument, fetchDocumentText, fetchNodeDetails } from '../api';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { fetchDocument, fetchDocumentText, fetchNodeDetails, fetchCrossReferences } from '../api';
+import type { CrossReference } from '../api';
+import { diffWords, diffStats } from '../utils/textDiff';
+import { queryHighlightTerms } from '../services/queryLanguage';
+import { findTextLinks } from '../utils/crossReferences';
+import type { TextLink } from '../utils/crossReferences';
+import type { Citation } from '../utils/citations';
+import type { DiffSegment } from '../utils/textDiff';
 import type { Document, TimeScope } from '../types';
 
 interface DocumentModalProps {
@@ -19,6 +27,14 @@ interface DocumentModalProps {
   onPrev?: () => void;
   currentIndex?: number;
   totalCount?: number;
+  onCitationClick?: (citation: Citation) => void;   // Citations in the text render as links when set
+  onOpenNode?: (nodeId: string) => void;            // Cross-references render as links when set
+}
+
+// Documents visited in this modal, for Back / Forward
+interface DocHistory {
+  stack: string[];
+  index: number;
 }
 
 interface MatchPosition {
@@ -28,6 +44,12 @@ interface MatchPosition {
   percentage: number;
 }
 
+interface CompareText {
+  key: string;
+  text: string;
+  exists: boolean;
+}
+
 const COMMON_WORDS = new Set([
   'the', 'and', 'or', 'to', 'from', 'in', 'on', 'at', 'by', 'for', 'with',
   'about', 'as', 'into', 'through', 'during', 'before', 'after', 'above',
@@ -51,6 +73,8 @@ export default function DocumentModal({
   onPrev,
   currentIndex,
   totalCount,
+  onCitationClick,
+  onOpenNode,
 }: DocumentModalProps) {
   const [document, setDocument] = useState<Document | null>(null);
   const [documentText, setDocumentText] = useState<string>('');
@@ -58,9 +82,24 @@ export default function DocumentModal({
   const [error, setError] = useState<string | null>(null);
   const [matchPositions, setMatchPositions] = useState<MatchPosition[]>([]);
   const [nodeNotFound, setNodeNotFound] = useState(false);
+  const [compareScope, setCompareScope] = useState<TimeScope | null>(null);
+  const [compareData, setCompareData] = useState<CompareText | null>(null);
+  const [crossReferences, setCrossReferences] = useState<CrossReference[]>([]);
+  const [history, setHistory] = useState<DocHistory>({ stack: [docId], index: 0 });
   const contentRef = useRef<HTMLDivElement>(null);
   const matchRefs = useRef<Map<number, HTMLElement>>(new Map());
 
+  // Any document opened other than by Back / Forward (links, Prev / Next) starts a new branch
+  if (history.stack[history.index] !== docId) {
+    const stack = [...history.stack.slice(0, history.index + 1), docId];
+    setHistory({ stack, index: stack.length - 1 });
+  }
+
+  const goToHistory = (index: number) => {
+    setHistory({ ...history, index });
+    onOpenNode?.(history.stack[index]);
+  };
+
   useEffect(() => {
     let active = true;
 
@@ -75,10 +114,11 @@ export default function DocumentModal({
       setNodeNotFound(false);
 
       try {
-        const [doc, textData, nodeDetails] = await Promise.all([
+        const [doc, textData, nodeDetails, references] = await Promise.all([
           fetchDocument(docId, selectedTitle, timeScope),
           fetchDocumentText(docId, selectedTitle, timeScope),
           fetchNodeDetails(docId, selectedTitle, timeScope),
+          fetchCrossReferences(docId, selectedTitle, timeScope),
         ]);
 
         if (!active) return;
@@ -87,6 +127,7 @@ export default function DocumentModal({
           setNodeNotFound(true);
           setDocument(null);
           setDocumentText('');
+          setCrossReferences([]);
           setLoading(false);
           return;
         }
@@ -107,6 +148,7 @@ export default function DocumentModal({
         });
 
         setDocumentText(textData.text);
+        setCrossReferences(references);
       } catch (err: any) {
         if (err?.name === 'AbortError') return;
         console.error('Error loading document:', err);
@@ -121,9 +163,47 @@ export default function DocumentModal({
     return () => { active = false; };
   }, [docId, selectedTitle, timeScope, isGraphLoading]);
 
+  // Text of the same section in the scope being compared against
+  useEffect(() => {
+    if (!compareScope || compareScope === timeScope || isGraphLoading) return;
+
+    let active = true;
+    const key = `${docId}::${compareScope}`;
+
+    const loadCompareText = async () => {
+      try {
+        const [textData, nodeDetails] = await Promise.all([
+          fetchDocumentText(docId, selectedTitle, compareScope),
+          fetchNodeDetails(docId, selectedTitle, compareScope),
+        ]);
+        if (!active) return;
+        setCompareData({ key, text: nodeDetails ? textData.text : '', exists: !!nodeDetails });
+      } catch (err) {
+        console.error('Error loading comparison text:', err);
+        if (active) setCompareData({ key, text: '', exists: false });
+      }
+    };
+
+    loadCompareText();
+    return () => { active = false; };
+  }, [docId, selectedTitle, timeScope, compareScope, isGraphLoading]);
+
+  const activeCompare =
+    compareScope && compareScope !== timeScope && compareData?.key === `${docId}::${compareScope}`
+      ? compareData
+      : null;
+
+  const diffSegments = useMemo<DiffSegment[] | null>(() => {
+    if (!activeCompare || loading) return null;
+    if (!activeCompare.text && !documentText) return null;
+    return diffWords(activeCompare.text, documentText);
+  }, [activeCompare, documentText, loading]);
+
+  const diffSummary = useMemo(() => (diffSegments ? diffStats(diffSegments) : null), [diffSegments]);
+
   useEffect(() => {
     matchRefs.current.clear();
-  }, [docId, timeScope]);
+  }, [docId, timeScope, compareScope]);
 
   useEffect(() => {
     if (!documentText) return;
@@ -131,16 +211,38 @@ export default function DocumentModal({
     const positions: MatchPosition[] = [];
     const textLength = documentText.length;
 
+    // In the diff view deleted text is interleaved with documentText,
+    // so markers are placed by rendered offset rather than text offset.
+    const deletions: { at: number; length: number }[] = [];
+    let displayLength = textLength;
+    if (diffSegments) {
+      let afterOffset = 0;
+      diffSegments.forEach((seg) => {
+        if (seg.op === 'delete') {
+          deletions.push({ at: afterOffset, length: seg.text.length });
+          displayLength += seg.text.length;
+        } else {
+          afterOffset += seg.text.length;
+        }
+      });
+    }
+
+    const toPercentage = (index: number) => {
+      let shift = 0;
+      for (const deletion of deletions) {
+        if (deletion.at > index) break;
+        shift += deletion.length;
+      }
+      return ((index + shift) / displayLength) * 100;
+    };
+
     const searchPatterns: string[] = [];
     const primaryPatterns: string[] = [];
     const secondaryPatterns: string[] = [];
 
     if (searchKeywords) {
-      searchKeywords.split(',').forEach((keyword) => {
-        const trimmed = keyword.trim();
-        if (trimmed.length > 0) {
-          searchPatterns.push(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-        }
+      queryHighlightTerms(searchKeywords).forEach((keyword) => {
+        searchPatterns.push(keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
       });
     }
 
@@ -166,7 +268,7 @@ export default function DocumentModal({
       const regex = new RegExp(`(${searchPatterns.join('|')})`, 'gi');
       let match;
       while ((match = regex.exec(documentText)) !== null) {
-        positions.push({ index: match.index, term: match[0], type: 'search', percentage: (match.index / textLength) * 100 });
+        positions.push({ index: match.index, term: match[0], type: 'search', percentage: toPercentage(match.index) });
       }
     }
 
@@ -174,7 +276,7 @@ export default function DocumentModal({
       const regex = new RegExp(`(${primaryPatterns.join('|')})`, 'gi');
       let match;
       while ((match = regex.exec(documentText)) !== null) {
-        positions.push({ index: match.index, term: match[0], type: 'primary', percentage: (match.index / textLength) * 100 });
+        positions.push({ index: match.index, term: match[0], type: 'primary', percentage: toPercentage(match.index) });
       }
     }
 
@@ -182,16 +284,24 @@ export default function DocumentModal({
       const regex = new RegExp(`(${secondaryPatterns.join('|')})`, 'gi');
       let match;
       while ((match = regex.exec(documentText)) !== null) {
-        positions.push({ index: match.index, term: match[0], type: 'secondary', percentage: (match.index / textLength) * 100 });
+        positions.push({ index: match.index, term: match[0], type: 'secondary', percentage: toPercentage(match.index) });
       }
     }
 
     positions.sort((a, b) => a.index - b.index);
     setMatchPositions(positions);
-  }, [documentText, highlightTerm, secondaryHighlightTerm, searchKeywords]);
+  }, [documentText, highlightTerm, secondaryHighlightTerm, searchKeywords, diffSegments]);
 
   const scrollToMatch = (index: number) => {
-    const element = matchRefs.current.get(index);
+    let element = matchRefs.current.get(index);
+    if (!element) {
+      // A match split across diff segments is registered at the segment start
+      let nearest = -1;
+      matchRefs.current.forEach((_, start) => {
+        if (start <= index && start > nearest) nearest = start;
+      });
+      element = matchRefs.current.get(nearest);
+    }
     if (element && contentRef.current) {
       element.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }
@@ -202,6 +312,7 @@ export default function DocumentModal({
     term: string | null,
     secondaryTerm: string | null,
     searchTerms: string | null,
+    offset = 0,
   ): JSX.Element[] => {
     if (!term && !secondaryTerm && !searchTerms) {
       return [<span key="0">{text}</span>];
@@ -214,12 +325,9 @@ export default function DocumentModal({
       const secondaryWords = new Set<string>();
 
       if (searchTerms) {
-        searchTerms.split(',').forEach((keyword) => {
-          const trimmed = keyword.trim();
-          if (trimmed.length > 0) {
-            searchWords.add(trimmed.toLowerCase());
-            patterns.push(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-          }
+        queryHighlightTerms(searchTerms).forEach((keyword) => {
+          searchWords.add(keyword.toLowerCase());
+          patterns.push(keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
         });
       }
 
@@ -245,7 +353,7 @@ export default function DocumentModal({
 
       const regex = new RegExp(`(${patterns.join('|')})`, 'gi');
       const parts = text.split(regex);
-      let currentIndex = 0;
+      let currentIndex = offset;
 
       return parts.map((part, index) => {
         const partLower = part.toLowerCase();
@@ -294,6 +402,94 @@ export default function DocumentModal({
     }
   };
 
+  const renderLink = (link: TextLink, content: ReactNode[]) => {
+    if (link.kind === 'citation') {
+      return (
+        <button
+          key={`c${link.start}`}
+          type="button"
+          onClick={(e) => { e.stopPropagation(); onCitationClick?.(link.citation); }}
+          className="text-blue-300 underline decoration-dotted hover:text-blue-200"
+          title="Go to cited provision"
+        >
+          {content}
+        </button>
+      );
+    }
+
+    const { node, edgeType } = link.target;
+    return (
+      <button
+        key={`n${link.start}`}
+        type="button"
+        onClick={(e) => { e.stopPropagation(); onOpenNode?.(node.id); }}
+        className={`underline ${
+          edgeType === 'definition'
+            ? 'text-emerald-300 hover:text-emerald-200'
+            : 'text-blue-300 hover:text-blue-200'
+        }`}
+        title={`${edgeType === 'definition' ? 'Defined term' : 'Cross-reference'}: ${node.display_label || node.name}`}
+      >
+        {content}
+      </button>
+    );
+  };
+
+  // Highlighted text with cross-references and citations in it wrapped in links
+  const renderText = (text: string, offset = 0) => {
+    const highlight = (part: string, start: number) =>
+      highlightText(part, highlightTerm, secondaryHighlightTerm || null, searchKeywords || null, start);
+
+    const links = findTextLinks(text, onOpenNode ? crossReferences : []).filter((link) =>
+      link.kind === 'citation' ? !!onCitationClick : true
+    );
+    if (links.length === 0) return highlight(text, offset);
+
+    const parts: ReactNode[] = [];
+    let cursor = 0;
+    links.forEach((link) => {
+      if (link.start > cursor) {
+        parts.push(<span key={`t${cursor}`}>{highlight(text.slice(cursor, link.start), offset + cursor)}</span>);
+      }
+      parts.push(renderLink(link, highlight(text.slice(link.start, link.end), offset + link.start)));
+      cursor = link.end;
+    });
+    if (cursor < text.length) {
+      parts.push(<span key={`t${cursor}`}>{highlight(text.slice(cursor), offset + cursor)}</span>);
+    }
+    return parts;
+  };
+
+  // Inserted and unchanged segments together are exactly documentText, so
+  // highlight offsets (and matchRefs) stay in documentText coordinates.
+  const renderDiff = (segments: DiffSegment[]) => {
+    let afterOffset = 0;
+    return segments.map((seg, index) => {
+      if (seg.op === 'delete') {
+        return (
+          <del key={index} className="bg-red-900/60 text-red-200 line-through decoration-red-400 rounded">
+            {seg.text}
+          </del>
+        );
+      }
+
+      const start = afterOffset;
+      afterOffset += seg.text.length;
+      const content = renderText(seg.text, start);
+
+      if (seg.op === 'insert') {
+        return (
+          <ins key={index} className="bg-green-900/60 text-green-200 no-underline rounded">
+            {content}
+          </ins>
+        );
+      }
+      return <span key={index}>{content}</span>;
+    });
+  };
+
+  const showDiff = !!diffSegments && diffSegments.length > 0;
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
@@ -323,9 +519,42 @@ export default function DocumentModal({
                     <option key={scope} value={scope}>{scope}</option>
                   ))}
                 </select>
+                {availableTimeScopes.length > 1 && (
+                  <select
+                    value={compareScope ?? ''}
+                    onChange={(e) => { e.stopPropagation(); setCompareScope(e.target.value || null); }}
+                    className="px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 focus:outline-none focus:border-blue-500"
+                    title="Show word-level changes against another time scope"
+                  >
+                    <option value="">Compare with…</option>
+                    {availableTimeScopes
+                      .filter((scope) => scope !== timeScope)
+                      .map((scope) => (
+                        <option key={scope} value={scope}>{scope}</option>
+                      ))}
+                  </select>
+                )}
               </div>
             </div>
 
+            {compareScope && compareScope !== timeScope && (
+              <div className="mb-3 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-300">
+                {!activeCompare || loading ? (
+                  <span className="text-gray-400">Loading {compareScope} text…</span>
+                ) : !activeCompare.exists && !nodeNotFound ? (
+                  <span>Not present in {compareScope}; all text shown as inserted.</span>
+                ) : diffSummary && (diffSummary.insertedWords > 0 || diffSummary.deletedWords > 0) ? (
+                  <span>
+                    Changes {compareScope} → {timeScope}:{' '}
+                    <span className="text-green-400">+{diffSummary.insertedWords} words</span>,{' '}
+                    <span className="text-red-400">−{diffSummary.deletedWords} words</span>
+                  </span>
+                ) : (
+                  <span>No text changes between {compareScope} and {timeScope}.</span>
+                )}
+              </div>
+            )}
+
             {nodeNotFound && (
               <div className="mb-3 p-3 bg-yellow-900/20 border border-yellow-700/30 rounded">
                 <div className="text-sm text-yellow-300 font-semibold">
@@ -391,7 +620,7 @@ export default function DocumentModal({
             <div className="bg-red-900/30 border border-red-700 rounded p-4 text-red-300">{error}</div>
           )}
 
-          {!loading && !error && nodeNotFound && (
+          {!loading && !error && nodeNotFound && !showDiff && (
             <div className="flex items-center justify-center py-12">
               <div className="text-gray-400 text-center">
                 <p className="text-lg">This section does not exist in {timeScope}.</p>
@@ -400,7 +629,7 @@ export default function DocumentModal({
             </div>
           )}
 
-          {!loading && !error && !nodeNotFound && (!documentText || documentText.trim() === '') && (
+          {!loading && !error && !nodeNotFound && !showDiff && (!documentText || documentText.trim() === '') && (
             <div className="flex items-center justify-center py-12">
               <div className="text-gray-400 text-center">
                 <p className="text-lg">Full text for this node is not available.</p>
@@ -408,10 +637,18 @@ export default function DocumentModal({
             </div>
           )}
 
-          {!loading && !error && !nodeNotFound && documentText && documentText.trim() !== '' && (
+          {!loading && !error && showDiff && (
             <div className="prose prose-invert max-w-none">
               <div className="whitespace-pre-wrap text-gray-300 leading-relaxed font-mono text-sm">
-                {highlightText(documentText, highlightTerm, secondaryHighlightTerm || null, searchKeywords || null)}
+                {renderDiff(diffSegments!)}
+              </div>
+            </div>
+          )}
+
+          {!loading && !error && !nodeNotFound && !showDiff && documentText && documentText.trim() !== '' && (
+            <div className="prose prose-invert max-w-none">
+              <div className="whitespace-pre-wrap text-gray-300 leading-relaxed font-mono text-sm">
+                {renderText(documentText)}
               </div>
             </div>
           )}
@@ -420,6 +657,16 @@ export default function DocumentModal({
         {/* Footer */}
         <div className="p-4 border-t border-gray-700 flex justify-between items-center">
           <div className="text-sm text-gray-500 flex gap-4">
+            {showDiff && (
+              <span>
+                <span className="inline-block bg-green-900/60 text-green-200 px-2 py-0.5 rounded text-xs mr-1">
+                  Inserted
+                </span>
+                <span className="inline-block bg-red-900/60 text-red-200 line-through px-2 py-0.5 rounded text-xs">
+                  Deleted
+                </span>
+              </span>
+            )}
             {searchKeywords && (
               <span>
                 <span className="inline-block bg-green-300 text-black font-semibold px-2 py-0.5 rounded text-xs mr-1">
@@ -443,6 +690,26 @@ export default function DocumentModal({
             )}
           </div>
           <div className="flex items-center gap-2">
+            {onOpenNode && history.stack.length > 1 && (
+              <div className="flex items-center gap-2 mr-4">
+                <button
+                  onClick={(e) => { e.stopPropagation(); goToHistory(history.index - 1); }}
+                  disabled={history.index === 0}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:cursor-not-allowed text-white rounded text-sm transition-colors"
+                  title="Back to the previously viewed document"
+                >
+                  ← Back
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); goToHistory(history.index + 1); }}
+                  disabled={history.index === history.stack.length - 1}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:cursor-not-allowed text-white rounded text-sm transition-colors"
+                  title="Forward"
+                >
+                  Forward →
+                </button>
+              </div>
+            )}
             {(onPrev || onNext) && (
               <div className="flex items-center gap-2 mr-4">
                 <button
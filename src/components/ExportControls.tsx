@@ -1,6 +1,15 @@
 import { useState } from 'react';
 import type { GraphNode, GraphLink, TimeScope, SelectedNode } from '../types';
 import { exportGraphData, exportGraphImage } from '../utils/exportUtils';
+import type { ExportFormat } from '../utils/exportUtils';
+import { ensureNodeMetrics } from '../services/metricsClient';
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; short: string }> = [
+  { value: 'separate', label: 'Separate files (nodes.csv + links.csv)', short: 'CSV' },
+  { value: 'edgelist', label: 'Single file (edge list)', short: 'CSV' },
+  { value: 'graphml', label: 'GraphML (Cytoscape, Gephi, yEd)', short: 'GraphML' },
+  { value: 'gexf', label: 'GEXF (Gephi)', short: 'GEXF' },
+];
 
 interface ExportControlsProps {
   // Graph data
@@ -11,13 +20,15 @@ interface ExportControlsProps {
   timeScope: TimeScope;
   selectedTitle: string;
   selectedNode: SelectedNode;
+  diffBaseScope?: TimeScope | null;   // Set when the graph spans two years (diff view)
   
   // Filtering info
   filterTypes?: string[];
   searchTerm?: string;
   
-  // SVG ref for PNG export
+  // SVG ref for PNG export; large graphs are drawn on a canvas instead
   svgElement: SVGSVGElement | null;
+  getCanvasElement?: () => HTMLCanvasElement | null;
   
   // Display info
   displayGraphInfo?: {
@@ -34,15 +45,17 @@ export default function ExportControls({
   timeScope,
   selectedTitle,
   selectedNode,
+  diffBaseScope = null,
   filterTypes,
   searchTerm,
   svgElement,
+  getCanvasElement,
   displayGraphInfo,
 }: ExportControlsProps) {
   const [isExporting, setIsExporting] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'separate' | 'edgelist'>('separate');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('separate');
 
-  const handleExportCSV = async () => {
+  const handleExportData = async () => {
     if (!graphData || graphData.nodes.length === 0) {
       alert('No graph data to export. Please load or search for data first.');
       return;
@@ -58,8 +71,12 @@ export default function ExportControls({
         searchTerm: searchTerm || null,
       };
 
-      exportGraphData(graphData, {
+      // Fill centrality columns if they were not computed for this graph yet
+      const dataWithMetrics = await ensureNodeMetrics(graphData);
+
+      exportGraphData(dataWithMetrics, {
         format: exportFormat,
+        timeScopes: diffBaseScope ? [diffBaseScope, timeScope].sort() : null,
         ...metadata,
       });
 
@@ -85,7 +102,8 @@ export default function ExportControls({
   };
 
   const handleExportPNG = async () => {
-    if (!svgElement) {
+    const imageSource = getCanvasElement?.() ?? svgElement;
+    if (!imageSource) {
       alert('Graph is not ready for export. Please wait for it to load.');
       return;
     }
@@ -101,7 +119,7 @@ export default function ExportControls({
         selectedNode,
       };
 
-      exportGraphImage(svgElement, metadata);
+      exportGraphImage(imageSource, metadata);
 
       // Success feedback
       setTimeout(() => {
@@ -136,39 +154,35 @@ export default function ExportControls({
           </div>
         )}
 
-        {/* CSV Export Options */}
+        {/* Data Export Options */}
         <div className="space-y-2 mb-3">
-          <label className="text-xs text-gray-400">CSV Format:</label>
+          <label className="text-xs text-gray-400">Data Format:</label>
           <div className="space-y-1">
-            <label className="flex items-center text-xs text-gray-300">
-              <input
-                type="radio"
-                name="exportFormat"
-                value="separate"
-                checked={exportFormat === 'separate'}
-                onChange={(e) => setExportFormat(e.target.value as 'separate')}
-                className="mr-2"
-              />
-              Separate files (nodes.csv + links.csv)
-            </label>
-            <label className="flex items-center text-xs text-gray-300">
-              <input
-                type="radio"
-                name="exportFormat"
-                value="edgelist"
-                checked={exportFormat === 'edgelist'}
-                onChange={(e) => setExportFormat(e.target.value as 'edgelist')}
-                className="mr-2"
-              />
-              Single file (edge list)
-            </label>
+            {FORMAT_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center text-xs text-gray-300">
+                <input
+                  type="radio"
+                  name="exportFormat"
+                  value={option.value}
+                  checked={exportFormat === option.value}
+                  onChange={() => setExportFormat(option.value)}
+                  className="mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
           </div>
+          {diffBaseScope && exportFormat === 'gexf' && (
+            <p className="text-xs text-gray-500">
+              Spans {diffBaseScope} → {timeScope}: nodes and edges get per-year spells for Gephi's timeline.
+            </p>
+          )}
         </div>
 
         {/* Export Buttons */}
         <div className="flex gap-2">
           <button
-            onClick={handleExportCSV}
+            onClick={handleExportData}
             disabled={!hasData || isExporting}
             className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
               hasData && !isExporting
@@ -176,7 +190,7 @@ export default function ExportControls({
                 : 'bg-gray-700 text-gray-500 cursor-not-allowed'
             }`}
           >
-            {isExporting ? '⏳' : '📊 CSV'}
+            {isExporting ? '⏳' : `📊 ${FORMAT_OPTIONS.find((o) => o.value === exportFormat)?.short}`}
           </button>
 
           <button
@@ -201,7 +215,8 @@ export default function ExportControls({
         
         {hasData && (
           <div className="text-xs text-gray-400 mt-3 space-y-1">
-            <div>💡 CSV includes metadata and empty metric columns for future analysis</div>
+            <div>💡 CSV includes metadata and centrality metric columns</div>
+            <div>💡 GraphML/GEXF open in Cytoscape and Gephi with all node and edge attributes</div>
             <div>💡 PNG captures current zoom/pan view</div>
           </div>
         )}
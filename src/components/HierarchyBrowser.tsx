@@ -0,0 +1,172 @@
+// src/components/HierarchyBrowser.tsx
+
+import { useState, useEffect } from 'react';
+import { fetchHierarchyOutline } from '../api';
+import { branchNodeIds } from '../services/hierarchyOutline';
+import type { OutlineBranch } from '../services/hierarchyOutline';
+import type { TimeScope } from '../types';
+
+interface HierarchyBrowserProps {
+  graphTitle: string;
+  timeScope: TimeScope;
+  selectedNodeId: string | null;
+  onNodeSelect: (nodeId: string) => void;
+  // 'subtree' shows exactly the branch; 'seed' expands from it with the network builder
+  onBranchSelect: (nodeIds: string[], mode: 'subtree' | 'seed', branchKey: string) => void;
+}
+
+// Children rendered per branch before "Show more"; some parts hold hundreds of sections
+const CHILDREN_SHOWN = 100;
+
+function BranchRow({
+  branch,
+  depth,
+  expanded,
+  onToggle,
+  selectedNodeId,
+  onNodeSelect,
+  onBranchSelect,
+}: {
+  branch: OutlineBranch;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (key: string) => void;
+  selectedNodeId: string | null;
+  onNodeSelect: (nodeId: string) => void;
+  onBranchSelect: HierarchyBrowserProps['onBranchSelect'];
+}) {
+  const [shown, setShown] = useState(CHILDREN_SHOWN);
+  const isOpen = expanded.has(branch.key);
+  const hasChildren = branch.children.length > 0;
+  const isSelected = !!selectedNodeId && branch.nodeIds.includes(selectedNodeId);
+
+  return (
+    <div>
+      <div
+        className={`group flex items-center gap-1 pr-1 rounded text-xs ${isSelected ? 'bg-blue-900/50' : 'hover:bg-gray-700'}`}
+        style={{ paddingLeft: depth * 12 }}
+      >
+        <button
+          onClick={() => hasChildren && onToggle(branch.key)}
+          className={`w-4 shrink-0 text-gray-400 ${hasChildren ? 'hover:text-white' : 'invisible'}`}
+        >
+          {isOpen ? '▼' : '▶'}
+        </button>
+        <button
+          onClick={() => (branch.nodeIds.length > 0 ? onNodeSelect(branch.nodeIds[0]) : onToggle(branch.key))}
+          className="flex-1 min-w-0 py-1 text-left text-gray-200 truncate"
+          title={branch.label}
+        >
+          {branch.label}
+        </button>
+        <span className="shrink-0 font-mono text-gray-400" title={`${branch.count} index nodes · ${branch.referenceDegree} references`}>
+          {branch.count.toLocaleString()}
+          <span className="text-gray-500"> · </span>
+          {branch.referenceDegree.toLocaleString()}
+        </span>
+        <span className="shrink-0 hidden group-hover:flex gap-1 ml-1">
+          <button
+            onClick={() => onBranchSelect(branchNodeIds(branch), 'subtree', branch.key)}
+            className="px-1.5 py-0.5 rounded bg-blue-600 hover:bg-blue-700 text-white"
+            title="Show this branch as the network"
+          >
+            Show
+          </button>
+          <button
+            onClick={() => onBranchSelect(branchNodeIds(branch), 'seed', branch.key)}
+            className="px-1.5 py-0.5 rounded bg-gray-600 hover:bg-gray-500 text-white"
+            title="Build a network outward from this branch"
+          >
+            Seed
+          </button>
+        </span>
+      </div>
+
+      {isOpen && (
+        <>
+          {branch.children.slice(0, shown).map((c) => (
+            <BranchRow
+              key={c.key}
+              branch={c}
+              depth={depth + 1}
+              expanded={expanded}
+              onToggle={onToggle}
+              selectedNodeId={selectedNodeId}
+              onNodeSelect={onNodeSelect}
+              onBranchSelect={onBranchSelect}
+            />
+          ))}
+          {branch.children.length > shown && (
+            <button
+              onClick={() => setShown(shown + CHILDREN_SHOWN)}
+              className="text-xs text-blue-400 hover:text-blue-300 py-1"
+              style={{ paddingLeft: (depth + 1) * 12 + 16 }}
+            >
+              Show more ({branch.children.length - shown} left)
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function HierarchyBrowser({
+  graphTitle,
+  timeScope,
+  selectedNodeId,
+  onNodeSelect,
+  onBranchSelect,
+}: HierarchyBrowserProps) {
+  const key = `${graphTitle}::${timeScope}`;
+  const [loaded, setLoaded] = useState<{ key: string; outline: OutlineBranch[]; error: string | null } | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let active = true;
+    fetchHierarchyOutline(graphTitle, timeScope).then(
+      (outline) => { if (active) setLoaded({ key, outline, error: null }); },
+      (err) => {
+        console.error('Failed to build hierarchy outline:', err);
+        if (active) setLoaded({ key, outline: [], error: 'The hierarchy could not be built for this title.' });
+      }
+    );
+    return () => { active = false; };
+  }, [graphTitle, timeScope, key]);
+
+  const toggle = (branchKey: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(branchKey)) next.delete(branchKey);
+      else next.add(branchKey);
+      return next;
+    });
+  };
+
+  const current = loaded?.key === key ? loaded : null;
+  if (!current) return <p className="text-xs text-gray-400">Building outline…</p>;
+  if (current.error) return <p className="text-xs text-red-400">{current.error}</p>;
+  if (current.outline.length === 0) return <p className="text-xs text-gray-400">No index nodes with hierarchy fields.</p>;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        Counts: index nodes · reference edges. Hover a branch to show it or seed the builder with it.
+      </p>
+      <div className="max-h-96 overflow-y-auto">
+        {current.outline.map((root) => (
+          <BranchRow
+            key={root.key}
+            branch={root}
+            depth={0}
+            expanded={expanded}
+            onToggle={toggle}
+            selectedNodeId={selectedNodeId}
+            onNodeSelect={onNodeSelect}
+            onBranchSelect={onBranchSelect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
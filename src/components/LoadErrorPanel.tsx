@@ -0,0 +1,59 @@
+// src/components/LoadErrorPanel.tsx
+
+import { DataLoadError } from '../services/loadErrors';
+import type { LoadErrorKind } from '../services/loadErrors';
+
+interface LoadErrorPanelProps {
+  what: string;             // "the manifest", "Title 26 (2025)"
+  error: unknown;
+  onRetry: () => void;
+}
+
+const KIND_TITLES: Record<LoadErrorKind, string> = {
+  'lfs-pointer': 'Data file not pulled from Git LFS',
+  'html-fallback': 'Data file missing',
+  truncated: 'Data file incomplete',
+  'invalid-json': 'Data file is not valid JSON',
+  schema: 'Data file has an unexpected format',
+  http: 'Server error',
+  network: 'Network error',
+};
+
+// What a maintainer can do about it; retrying only helps the transient kinds
+const KIND_HINTS: Partial<Record<LoadErrorKind, string>> = {
+  'lfs-pointer': 'Run "git lfs pull" in the checkout the site is built from, then rebuild and redeploy.',
+  'html-fallback': 'Check that the file was deployed and that the manifest matches the files in public/.',
+  truncated: 'Retry; if it keeps failing, the deployed file itself is cut off.',
+  schema: 'Regenerate the file, or check that it was produced by the current export.',
+};
+
+export default function LoadErrorPanel({ what, error, onRetry }: LoadErrorPanelProps) {
+  const typed = error instanceof DataLoadError ? error : null;
+  const message = error instanceof Error ? error.message : String(error);
+  const hint = typed ? KIND_HINTS[typed.kind] : undefined;
+
+  return (
+    <div className="max-w-lg w-full bg-gray-800 border border-red-700 rounded-lg shadow-xl p-5 text-sm">
+      <h2 className="text-lg font-semibold text-red-300 mb-1">
+        {typed ? KIND_TITLES[typed.kind] : 'Loading failed'}
+      </h2>
+      <p className="text-gray-400 mb-3">Couldn't load {what}.</p>
+
+      {typed && (
+        <p className="mb-2">
+          <span className="text-gray-400">File: </span>
+          <code className="font-mono text-gray-200 break-all">{typed.file}</code>
+        </p>
+      )}
+      <p className="text-gray-200 mb-2">{message}</p>
+      {hint && <p className="text-gray-400 mb-2">{hint}</p>}
+
+      <button
+        onClick={onRetry}
+        className="mt-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded"
+      >
+        Retry
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+// src/components/LoadProgressBar.tsx
+
+import type { LoadProgress } from '../api';
+import { formatBytes } from '../utils/formatBytes';
+
+interface LoadProgressBarProps {
+  label: string;
+  progress: LoadProgress | null;
+}
+
+export default function LoadProgressBar({ label, progress }: LoadProgressBarProps) {
+  // Bytes when every size is known, otherwise finished parts; null before the first report
+  const fraction = !progress
+    ? null
+    : progress.bytesTotal
+      ? progress.bytesLoaded / progress.bytesTotal
+      : progress.partsTotal > 1
+        ? progress.partsDone / progress.partsTotal
+        : null;
+  const parsing = !!progress && progress.bytesTotal !== null && progress.bytesLoaded >= progress.bytesTotal
+    && progress.partsDone < progress.partsTotal;
+
+  return (
+    <div className="w-80 text-center">
+      <p className="text-gray-300 mb-3">{label}</p>
+      <div className="h-2 w-full rounded-full bg-gray-700 overflow-hidden">
+        {fraction === null ? (
+          <div className="h-full w-full bg-blue-500/60 animate-pulse" />
+        ) : (
+          <div
+            className="h-full bg-blue-500 transition-[width] duration-150"
+            style={{ width: `${Math.min(100, fraction * 100).toFixed(1)}%` }}
+          />
+        )}
+      </div>
+      <p className="mt-2 text-xs text-gray-400 font-mono">
+        {!progress
+          ? 'Connecting…'
+          : parsing
+            ? 'Parsing…'
+            : `${formatBytes(progress.bytesLoaded)}${progress.bytesTotal ? ` of ${formatBytes(progress.bytesTotal)}` : ''}`}
+        {progress && progress.partsTotal > 1 && ` · ${progress.partsDone}/${progress.partsTotal} parts`}
+      </p>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ interface MobileBottomNavProps {
   onLimitChange: (limit: number) => void;
 
   tagClusters: TagCluster[];
+  onClustersShownChange?: (shown: boolean) => void;   // Communities are only detected while shown
   enabledClusterIds: Set<number>;
   onToggleCluster: (clusterId: number) => void;
 
@@ -45,6 +46,7 @@ export default function MobileBottomNav({
   limit,
   onLimitChange,
   tagClusters,
+  onClustersShownChange,
   enabledClusterIds,
   onToggleCluster,
   enabledCategories,
@@ -60,6 +62,12 @@ export default function MobileBottomNav({
 
   const selectedNodeId = selectedNode?.id ?? null;
 
+  // The filters tab lists the tag clusters
+  const showTab = (tab: Tab | null) => {
+    setActiveTab(tab);
+    onClustersShownChange?.(tab === 'filters');
+  };
+
   useEffect(() => {
     setLocalLimit(limit);
   }, [limit]);
@@ -115,7 +123,7 @@ export default function MobileBottomNav({
     onNodeSelect(nodeId);
     setSearchQuery('');
     setSearchResults([]);
-    setActiveTab(null);
+    showTab(null);
   };
 
   return (
@@ -126,7 +134,7 @@ export default function MobileBottomNav({
           {activeTab === 'timeline' && (
             <div className="p-4">
               <button
-                onClick={() => setActiveTab(null)}
+                onClick={() => showTab(null)}
                 className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
                 aria-label="Close"
               >
@@ -217,7 +225,7 @@ export default function MobileBottomNav({
           {activeTab === 'filters' && (
             <div className="p-4">
               <button
-                onClick={() => setActiveTab(null)}
+                onClick={() => showTab(null)}
                 className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
                 aria-label="Close"
               >
@@ -277,10 +285,11 @@ export default function MobileBottomNav({
                       <button
                         key={cluster.id}
                         onClick={() => onToggleCluster(cluster.id)}
-                        className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium inline-flex items-center gap-1.5 ${
                           isEnabled ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'
                         }`}
                       >
+                        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: cluster.color }} />
                         {cluster.name}
                       </button>
                     );
@@ -364,7 +373,7 @@ export default function MobileBottomNav({
       <div className="fixed inset-x-0 bottom-0 bg-gray-800 border-t border-gray-700 z-50">
         <div className="flex justify-around">
           <button
-            onClick={() => setActiveTab(activeTab === 'search' ? null : 'search')}
+            onClick={() => showTab(activeTab === 'search' ? null : 'search')}
             className={`flex-1 py-4 flex flex-col items-center ${
               activeTab === 'search' ? 'text-blue-400' : 'text-gray-400'
             }`}
@@ -381,7 +390,7 @@ export default function MobileBottomNav({
           </button>
 
           <button
-            onClick={() => setActiveTab(activeTab === 'timeline' ? null : 'timeline')}
+            onClick={() => showTab(activeTab === 'timeline' ? null : 'timeline')}
             className={`flex-1 py-4 flex flex-col items-center ${
               activeTab === 'timeline' ? 'text-blue-400' : 'text-gray-400'
             }`}
@@ -398,7 +407,7 @@ export default function MobileBottomNav({
           </button>
 
           <button
-            onClick={() => setActiveTab(activeTab === 'filters' ? null : 'filters')}
+            onClick={() => showTab(activeTab === 'filters' ? null : 'filters')}
             className={`flex-1 py-4 flex flex-col items-center ${
               activeTab === 'filters' ? 'text-blue-400' : 'text-gray-400'
             }`}
@@ -7,10 +7,21 @@ import type {
   GraphNode,
   GraphLink,
   NodeType,
+  ChangeStatus,
   SelectedNode,
   TimeScope,
+  MetricKey,
+  NodeMetrics,
+  TagCluster,
+  PinnedPositions,
 } from '../types';
 import { fetchActorCounts, fetchNodeDetails } from '../api';
+import { PATH_COLORS } from '../services/networkBuilder';
+import { createLayoutWorker } from '../services/layoutClient';
+import type { LayoutStatus, LayoutWorker } from '../services/layoutClient';
+import { LAYOUT_MODES, computeStaticLayout } from '../services/graphLayouts';
+import type { LayoutMode } from '../services/graphLayouts';
+import { isGroupNodeId } from '../services/metaGraph';
 import { forwardRef, useImperativeHandle } from 'react';
 
 interface NetworkGraphProps {
@@ -26,6 +37,84 @@ interface NetworkGraphProps {
   enabledNodeTypes?: Set<string>;
 
   timeScope: TimeScope;
+
+  // Year-over-year diff: color nodes/links by their change_status
+  diffMode?: boolean;
+  diffBaseScope?: TimeScope | null;
+
+  // Centrality metrics by node ID; node radius follows sizeMetric when set
+  nodeMetrics?: Map<string, NodeMetrics> | null;
+  sizeMetric?: MetricKey;
+
+  // Community coloring: node ID → TagCluster.id, colored with the cluster's color
+  nodeCommunities?: Map<string, number> | null;
+  tagClusters?: TagCluster[];
+
+  // Path finder: links carry path_rank; other links are dimmed, endpoints ringed
+  pathEndpoints?: { sourceId: string; targetId: string } | null;
+
+  // Dragging a node pins it (fx/fy) when onPinnedPositionsChange is set; double-click releases it
+  pinnedPositions?: PinnedPositions;
+  onPinnedPositionsChange?: (pins: PinnedPositions) => void;
+
+  // Meta graph: double-clicking a super-node (member_count set) expands it
+  onGroupExpand?: (groupId: string) => void;
+}
+
+// Edges joining two different titles in a merged graph
+const CROSS_TITLE_LINK_COLOR = '#ec4899';
+
+const DIFF_COLORS: Record<ChangeStatus, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#f59e0b',
+  unchanged: '#6b7280',
+};
+
+const PATH_ENDPOINT_STROKE = '#facc15';
+
+// Above this many nodes the graph is drawn on a canvas instead of as SVG elements
+const CANVAS_NODE_THRESHOLD = 2000;
+// Canvas labels are skipped while they would be smaller than this on screen
+const CANVAS_MIN_LABEL_PX = 6;
+
+const usesCanvas = (nodeCount: number) => nodeCount > CANVAS_NODE_THRESHOLD;
+
+// Duration of the animated move between layouts
+const LAYOUT_TRANSITION_MS = 750;
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+function baseLinkColor(l: GraphLink): string {
+  if (l.path_rank !== undefined) return PATH_COLORS[l.path_rank % PATH_COLORS.length];
+  if (l.change_status === 'added' || l.change_status === 'removed') {
+    return DIFF_COLORS[l.change_status];
+  }
+  return l.cross_title ? CROSS_TITLE_LINK_COLOR : '#4b5563';
+}
+
+function isPathEndpoint(id: string, endpoints: { sourceId: string; targetId: string } | null): boolean {
+  return !!endpoints && (id === endpoints.sourceId || id === endpoints.targetId);
+}
+
+// Links to a meta-graph super-node are aggregates; their weight is how many links they stand for
+function baseLinkWidth(l: GraphLink): number {
+  if (l.path_rank === undefined) {
+    const endsAtGroup = [l.source, l.target].some((end) => isGroupNodeId(typeof end === 'string' ? end : end.id));
+    return endsAtGroup ? Math.min(2 + Math.round(Math.log2(Math.max(1, l.weight ?? 1))), 12) : 2;
+  }
+  return l.path_rank === 0 ? 6 : 4;
+}
+
+function baseLinkOpacity(l: GraphLink, pathMode: boolean): number {
+  if (l.path_rank !== undefined) return 0.95;
+  return pathMode ? 0.2 : 0.6;
 }
 
 function baseColorForType(t?: NodeType): string {
@@ -41,10 +130,13 @@ function baseColorForType(t?: NodeType): string {
   }
 }
 
-const NetworkGraph = forwardRef<
-  { getSvgElement: () => SVGSVGElement | null },
-  NetworkGraphProps
->((props, ref) => {
+// Image export reads whichever surface is in use: the SVG, or the canvas for large graphs
+export interface NetworkGraphHandle {
+  getSvgElement: () => SVGSVGElement | null;
+  getCanvasElement: () => HTMLCanvasElement | null;
+}
+
+const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>((props, ref) => {
   // Destructure props inside the component body
   const {
     relationships,
@@ -53,9 +145,22 @@ const NetworkGraph = forwardRef<
     onNodeClick,
     actorTotalCounts,
     timeScope,
+    diffMode = false,
+    diffBaseScope = null,
+    nodeMetrics = null,
+    sizeMetric = 'degree',
+    nodeCommunities = null,
+    tagClusters,
+    pathEndpoints = null,
+    pinnedPositions,
+    onPinnedPositionsChange,
+    onGroupExpand,
   } = props;
   const svgRef = useRef<SVGSVGElement>(null);
-  const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Force layout runs in a worker; nodes are positioned from the ticks it streams back
+  const layoutRef = useRef<LayoutWorker | null>(null);
+  const layoutNodesRef = useRef<GraphNode[]>([]);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
   const nodeGroupRef = useRef<
@@ -68,8 +173,63 @@ const NetworkGraph = forwardRef<
   const transformRef = useRef<d3.ZoomTransform | null>(null);
   const hasInitializedRef = useRef(false);
 
+  // Read by the D3 handlers, which are only rebuilt when the graph changes
+  const pinnedRef = useRef<PinnedPositions>(pinnedPositions ?? {});
+  const onPinsChangeRef = useRef(onPinnedPositionsChange);
+  const onGroupExpandRef = useRef(onGroupExpand);
+
+  useEffect(() => {
+    onPinsChangeRef.current = onPinnedPositionsChange;
+  }, [onPinnedPositionsChange]);
+
+  useEffect(() => {
+    onGroupExpandRef.current = onGroupExpand;
+  }, [onGroupExpand]);
+
+  // Layout controls; the refs carry them into layouts started by later rebuilds
+  const [layoutPaused, setLayoutPaused] = useState(false);
+  const [freezeOnSettle, setFreezeOnSettle] = useState(false);
+  const [layoutStatus, setLayoutStatus] = useState<LayoutStatus>('running');
+  const layoutPausedRef = useRef(false);
+  const freezeOnSettleRef = useRef(false);
+
+  // Force runs in the worker; the static layouts are animated on the main thread
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('force');
+  const layoutModeRef = useRef<LayoutMode>('force');
+  const applyLayoutRef = useRef<((mode: LayoutMode) => void) | null>(null);
+
+  const changeLayoutMode = (mode: LayoutMode) => {
+    layoutModeRef.current = mode;
+    setLayoutMode(mode);
+    applyLayoutRef.current?.(mode);
+  };
+
+  const toggleLayoutPaused = () => {
+    const paused = !layoutPaused;
+    layoutPausedRef.current = paused;
+    setLayoutPaused(paused);
+    if (paused) layoutRef.current?.pause();
+    else layoutRef.current?.resume();
+  };
+
+  const toggleFreezeOnSettle = () => {
+    const enabled = !freezeOnSettle;
+    freezeOnSettleRef.current = enabled;
+    setFreezeOnSettle(enabled);
+    layoutRef.current?.setFreezeOnSettle(enabled);
+  };
+
+  useEffect(
+    () => () => {
+      layoutRef.current?.terminate();
+      layoutRef.current = null;
+    },
+    []
+  );
+
   useImperativeHandle(ref, () => ({
-    getSvgElement: () => svgRef.current,
+    getSvgElement: () => (canvasRef.current ? null : svgRef.current),
+    getCanvasElement: () => canvasRef.current,
   }));
 
   const [onDemandCounts, setOnDemandCounts] = useState<Record<string, number>>({});
@@ -81,6 +241,13 @@ const NetworkGraph = forwardRef<
 
   const labelKey = (id: string) => `${timeScope}::${id}`;
 
+  const pathCount = useMemo(
+    () => (pathEndpoints && externalGraphData
+      ? Math.max(0, ...externalGraphData.links.map((l) => (l.path_rank ?? -1) + 1))
+      : 0),
+    [pathEndpoints, externalGraphData]
+  );
+
   const fetchDisplayLabel = async (nodeId: string) => {
     const key = labelKey(nodeId);
     if (displayLabels[key]) return displayLabels[key];
@@ -101,6 +268,12 @@ const NetworkGraph = forwardRef<
   };
 
   const graphData = useMemo(() => {
+  const clusterColors = new Map((tagClusters ?? []).map((c) => [c.id, c.color] as const));
+  const communityColor = (id: string) => {
+    const cluster = nodeCommunities?.get(id);
+    return cluster === undefined ? undefined : clusterColors.get(cluster);
+  };
+
   // BOTTOM-UP MODE: externalGraphData (from search)
   if (externalGraphData) {
     const validNodeIds = new Set(externalGraphData.nodes.map((n) => n.id));
@@ -126,7 +299,11 @@ const NetworkGraph = forwardRef<
       const t = strength(node.val ?? 1);
 
       let color = node.baseColor || baseColorForType(node.node_type);
-      if (node.node_type === 'section' || node.node_type === 'index') {
+      if (diffMode && node.change_status) {
+        color = DIFF_COLORS[node.change_status];
+      } else if (communityColor(node.id)) {
+        color = communityColor(node.id)!;
+      } else if (node.node_type === 'section' || node.node_type === 'index') {
         color = sectionColorScale(t);
       } else if (node.node_type === 'entity' || node.node_type === 'concept') {
         color = entityConceptColorScale(t);
@@ -205,6 +382,8 @@ const NetworkGraph = forwardRef<
         action: rel.action,
         location: rel.location || undefined,
         timestamp: rel.timestamp || undefined,
+        edge_type: rel.edge_type,
+        cross_title: rel.cross_title,
         count: 1,
       });
     } else {
@@ -233,7 +412,9 @@ const NetworkGraph = forwardRef<
     const t = strength(node.val ?? 1);
 
     let color = node.baseColor || baseColorForType(node.node_type);
-    if (node.node_type === 'section' || node.node_type === 'index') {
+    if (communityColor(node.id)) {
+      color = communityColor(node.id)!;
+    } else if (node.node_type === 'section' || node.node_type === 'index') {
       color = sectionColorScale(t);
     } else if (node.node_type === 'entity' || node.node_type === 'concept') {
       color = entityConceptColorScale(t);
@@ -249,7 +430,9 @@ const NetworkGraph = forwardRef<
   });
 
   return { nodes, links };
-}, [relationships, externalGraphData]);
+}, [relationships, externalGraphData, diffMode, nodeCommunities, tagClusters]);
+
+  const canvasMode = usesCanvas(graphData.nodes.length);
 
   useEffect(() => {
     setOnDemandCounts({});
@@ -257,13 +440,548 @@ const NetworkGraph = forwardRef<
   }, [timeScope]);
 
   useEffect(() => {
-    if (!svgRef.current) return;
+    const surface = canvasMode ? canvasRef.current : svgRef.current;
+    if (!surface || !svgRef.current) return;
 
-    const width = svgRef.current.clientWidth;
-    const height = svgRef.current.clientHeight;
+    const width = surface.clientWidth;
+    const height = surface.clientHeight;
 
     d3.select(svgRef.current).selectAll('*').remove();
 
+    const minRadius = 5;
+    const maxRadius = 100;
+
+    // Degree (val) by default; otherwise the chosen metric, scaled over the displayed nodes
+    const metricValue = (d: GraphNode) => nodeMetrics?.get(d.id)?.[sizeMetric] ?? 0;
+    const useMetric = sizeMetric !== 'degree' && !!nodeMetrics;
+    const maxConnections = Math.max(...graphData.nodes.map((n) => n.val ?? 1), 1);
+    const maxMetric = useMetric ? Math.max(...graphData.nodes.map(metricValue), 0) : 0;
+
+    const degreeScale = d3
+      .scalePow()
+      .exponent(0.5)
+      .domain([1, maxConnections])
+      .range([minRadius, maxRadius])
+      .clamp(true);
+    const metricScale = d3
+      .scaleSqrt()
+      .domain([0, maxMetric || 1])
+      .range([minRadius, maxRadius])
+      .clamp(true);
+
+    const radiusOf = (d: GraphNode) =>
+      useMetric ? metricScale(metricValue(d)) : degreeScale(d.val ?? 1);
+
+    // Meta graph: expanding or collapsing a group leaves every other node where it was;
+    // members appear around their super-node, a collapsed group at its members' centre
+    const previousNodes = layoutNodesRef.current;
+    if ([...previousNodes, ...graphData.nodes].some((n) => n.member_count !== undefined)) {
+      const placed = new Map(previousNodes.filter((n) => n.x !== undefined).map((n) => [n.id, n] as const));
+      graphData.nodes.forEach((n) => {
+        if (n.x !== undefined) return;
+        const same = placed.get(n.id);
+        if (same) {
+          n.x = same.x;
+          n.y = same.y;
+          return;
+        }
+
+        const origin = n.expanded_from ? placed.get(n.expanded_from) : undefined;
+        if (origin) {
+          const spread = radiusOf(origin);
+          n.x = origin.x! + (Math.random() - 0.5) * spread;
+          n.y = origin.y! + (Math.random() - 0.5) * spread;
+          return;
+        }
+
+        const members = previousNodes.filter((p) => p.expanded_from === n.id && p.x !== undefined);
+        if (members.length > 0) {
+          n.x = d3.mean(members, (m) => m.x!);
+          n.y = d3.mean(members, (m) => m.y!);
+        }
+      });
+    }
+
+    // Pinned nodes start (and stay) where they were left
+    graphData.nodes.forEach((n) => {
+      const pin = pinnedRef.current[n.id];
+      if (pin) {
+        n.fx = n.x = pin.fx;
+        n.fy = n.y = pin.fy;
+      }
+    });
+
+    // Link endpoints become node objects, as d3.forceLink would have made them
+    const nodeIndex = new Map(graphData.nodes.map((n, i) => [n.id, i] as const));
+    const linkPairs: Array<[number, number]> = [];
+    graphData.links.forEach((l) => {
+      const source = nodeIndex.get(typeof l.source === 'string' ? l.source : l.source.id);
+      const target = nodeIndex.get(typeof l.target === 'string' ? l.target : l.target.id);
+      if (source === undefined || target === undefined) return;
+      l.source = graphData.nodes[source];
+      l.target = graphData.nodes[target];
+      linkPairs.push([source, target]);
+    });
+
+    const layout = layoutRef.current ?? (layoutRef.current = createLayoutWorker());
+    layoutNodesRef.current = graphData.nodes;
+
+    const startLayout = (onTick: () => void) => {
+      layout.start(
+        {
+          nodes: graphData.nodes.map((n) => ({
+            x: n.x,
+            y: n.y,
+            fx: n.fx,
+            fy: n.fy,
+            radius: radiusOf(n),
+            val: n.val ?? 1,
+          })),
+          links: linkPairs,
+          width,
+          height,
+          paused: layoutPausedRef.current,
+          freezeOnSettle: freezeOnSettleRef.current,
+        },
+        {
+          onTick: (positions) => {
+            graphData.nodes.forEach((n, i) => {
+              n.x = positions[i * 2];
+              n.y = positions[i * 2 + 1];
+            });
+            onTick();
+          },
+          onStatus: setLayoutStatus,
+        }
+      );
+    };
+
+    // Static layouts stop the worker and move nodes to computed targets;
+    // switching back to force restarts it from wherever the nodes are
+    let staticLayout = false;
+    let transition: d3.Timer | null = null;
+    let render = () => {};
+
+    const applyLayout = (mode: LayoutMode, onFrame: () => void) => {
+      render = onFrame;
+      transition?.stop();
+      transition = null;
+
+      if (mode === 'force') {
+        staticLayout = false;
+        startLayout(onFrame);
+        return;
+      }
+
+      staticLayout = true;
+      layout.stop();
+      const targets = computeStaticLayout(mode, graphData, { width, height, radiusOf });
+      const from = graphData.nodes.map((n) => ({ x: n.x ?? width / 2, y: n.y ?? height / 2 }));
+
+      transition = d3.timer((elapsed) => {
+        const t = d3.easeCubicInOut(Math.min(1, elapsed / LAYOUT_TRANSITION_MS));
+        graphData.nodes.forEach((n, i) => {
+          const target = targets.get(n.id);
+          if (!target) return;
+          n.x = from[i].x + (target.x - from[i].x) * t;
+          n.y = from[i].y + (target.y - from[i].y) * t;
+        });
+        onFrame();
+        if (t === 1) {
+          transition?.stop();
+          transition = null;
+        }
+      });
+    };
+
+    // Moves a node under the pointer; the worker holds it there through fx/fy
+    const dragTo = (d: GraphNode, x: number, y: number) => {
+      d.fx = d.x = x;
+      d.fy = d.y = y;
+      if (staticLayout) render();
+      else layout.pin(nodeIndex.get(d.id)!, x, y);
+    };
+
+    const initialTransform = () =>
+      transformRef.current && hasInitializedRef.current
+        ? transformRef.current
+        : d3.zoomIdentity
+            .translate(width / 2, height / 2)
+            .scale(0.15)
+            .translate(-width / 2, -height / 2);
+
+    // Clicking the background clears the selection and nudges the layout
+    const handleBackgroundClick = () => {
+      onNodeClick(null);
+      layout.setAlphaTarget(0.3);
+      setTimeout(() => layout.setAlphaTarget(0), 300);
+    };
+
+    const handleNodeClick = (d: GraphNode) => {
+      const next = selectedNodeId === d.id ? null : d.id;
+      onNodeClick(next);
+    };
+
+    const unpinNode = (d: GraphNode) => {
+      if (!pinnedRef.current[d.id] || !onPinsChangeRef.current) return;
+      const pins = { ...pinnedRef.current };
+      delete pins[d.id];
+      onPinsChangeRef.current(pins);
+    };
+
+    const handleDoubleClick = (d: GraphNode) => {
+      if (d.member_count !== undefined && onGroupExpandRef.current) onGroupExpandRef.current(d.id);
+      else unpinNode(d);
+    };
+
+    // A drag that moved pins the node where it was dropped; a plain click leaves it free.
+    // Pins belong to the force layout, so moves within a static layout are not kept.
+    const endDrag = (d: GraphNode, moved: boolean) => {
+      if (moved && !staticLayout && onPinsChangeRef.current && d.fx != null && d.fy != null) {
+        onPinsChangeRef.current({ ...pinnedRef.current, [d.id]: { fx: d.fx, fy: d.fy } });
+      } else if (!pinnedRef.current[d.id]) {
+        d.fx = null;
+        d.fy = null;
+        layout.release(nodeIndex.get(d.id)!);
+      }
+    };
+
+    const nodeText = (d: GraphNode) => {
+      const key = labelKey(d.id);
+      if ((d.node_type === 'index' || d.node_type === 'section')) {
+        return displayLabels[key] || d.display_label || d.name;
+      }
+      return d.name;
+    };
+
+    const tooltip = d3
+      .select('body')
+      .append('div')
+      .style('position', 'absolute')
+      .style('visibility', 'hidden')
+      .style('background-color', 'rgba(0, 0, 0, 0.8)')
+      .style('color', 'white')
+      .style('padding', '8px 12px')
+      .style('border-radius', '6px')
+      .style('font-size', '12px')
+      .style('pointer-events', 'none')
+      .style('z-index', '1000');
+
+    const moveTooltip = (event: MouseEvent) => {
+      tooltip.style('top', event.pageY - 10 + 'px').style('left', event.pageX + 10 + 'px');
+    };
+
+    const hideTooltip = () => {
+      tooltip.style('visibility', 'hidden');
+    };
+
+    const showNodeTooltip = async (d: GraphNode) => {
+      let displayName = d.name;
+      if ((d.node_type === 'index' || d.node_type === 'section') && !d.display_label) {
+        const label = await fetchDisplayLabel(d.id);
+        if (label) displayName = label;
+      } else if (d.display_label) {
+        displayName = d.display_label;
+      }
+
+      let totalCount = actorTotalCounts[d.id] ?? onDemandCounts[d.id];
+
+      if (totalCount === undefined) {
+        tooltip
+          .style('visibility', 'visible')
+          .html(
+            `<strong>${displayName}</strong><br/>${d.val} connections<br/>(loading total...)`
+          );
+
+        try {
+          const counts = await fetchActorCounts(1, [d.id], timeScope);
+          const count = counts[d.id] ?? 0;
+          setOnDemandCounts((prev) => ({ ...prev, [d.id]: count }));
+          totalCount = count;
+
+          tooltip.html(
+            `<strong>${displayName}</strong><br/>${d.val} connections<br/>(${totalCount} total)`
+          );
+        } catch (error) {
+          console.error('Error fetching actor count:', error);
+          tooltip.html(`<strong>${displayName}</strong><br/>${d.val} connections`);
+        }
+      } else {
+        tooltip
+          .style('visibility', 'visible')
+          .html(
+            `<strong>${displayName}</strong><br/>${d.val} connections<br/>(${totalCount} total)`
+          );
+      }
+    };
+
+    const showLinkTooltip = (d: GraphLink) => {
+      const linkData = d as GraphLink & { count?: number };
+      const count = linkData.count || 1;
+      let html =
+        count > 1
+          ? `<strong>${count} relationships</strong><br/>${linkData.action}`
+          : `<strong>${linkData.action}</strong>`;
+      if (linkData.cross_title) html += `<br/>Cross-title reference`;
+      if (linkData.path_rank !== undefined) html += `<br/>On path ${linkData.path_rank + 1}`;
+      if (linkData.change_status && linkData.change_status !== 'unchanged') {
+        html += `<br/>${linkData.change_status === 'added' ? 'Added' : 'Removed'} since ${diffBaseScope}`;
+      }
+      if (linkData.location) html += `<br/>📍 ${linkData.location}`;
+      if (linkData.timestamp) html += `<br/>📅 ${linkData.timestamp}`;
+      tooltip.style('visibility', 'visible').html(html);
+    };
+
+    // ==============================
+    // Canvas renderer (large graphs)
+    // ==============================
+    if (canvasMode) {
+      nodeGroupRef.current = null;
+      linkGroupRef.current = null;
+      gRef.current = null;
+
+      const canvasEl = surface as HTMLCanvasElement;
+      const canvas = d3.select(canvasEl);
+      const ctx = canvasEl.getContext('2d');
+      const dpr = window.devicePixelRatio || 1;
+      canvasEl.width = Math.round(width * dpr);
+      canvasEl.height = Math.round(height * dpr);
+
+      const nodes = graphData.nodes;
+      const links = graphData.links as Array<GraphLink & { source: GraphNode; target: GraphNode }>;
+      const pathMode = !!pathEndpoints;
+      const touchesSelection = (l: GraphLink) =>
+        !!selectedNodeId &&
+        ((l.source as GraphNode).id === selectedNodeId || (l.target as GraphNode).id === selectedNodeId);
+
+      let transform = initialTransform();
+      let frame = 0;
+
+      const draw = () => {
+        if (!ctx) return;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, width, height);
+        ctx.translate(transform.x, transform.y);
+        ctx.scale(transform.k, transform.k);
+
+        // Only what is on screen, with room for the largest radius
+        const [x0, y0] = transform.invert([-maxRadius, -maxRadius]);
+        const [x1, y1] = transform.invert([width + maxRadius, height + maxRadius]);
+        const visible = (n: GraphNode) => n.x! >= x0 && n.x! <= x1 && n.y! >= y0 && n.y! <= y1;
+
+        // Links are batched by style so a frame is a handful of strokes; selected ones go on top
+        const batches = new Map<string, { color: string; width: number; opacity: number; links: typeof links }>();
+        const highlighted: typeof links = [];
+        links.forEach((l) => {
+          if (!visible(l.source) && !visible(l.target)) return;
+          if (touchesSelection(l)) {
+            highlighted.push(l);
+            return;
+          }
+          const color = baseLinkColor(l);
+          const lineWidth = baseLinkWidth(l);
+          const opacity = baseLinkOpacity(l, pathMode);
+          const key = `${color}|${lineWidth}|${opacity}`;
+          if (!batches.has(key)) batches.set(key, { color, width: lineWidth, opacity, links: [] });
+          batches.get(key)!.links.push(l);
+        });
+        if (highlighted.length > 0) {
+          batches.set('selected', { color: '#22c55e', width: 3, opacity: 1, links: highlighted });
+        }
+
+        batches.forEach((batch) => {
+          ctx.beginPath();
+          batch.links.forEach((l) => {
+            ctx.moveTo(l.source.x!, l.source.y!);
+            ctx.lineTo(l.target.x!, l.target.y!);
+          });
+          ctx.strokeStyle = batch.color;
+          ctx.globalAlpha = batch.opacity;
+          ctx.lineWidth = batch.width;
+          ctx.stroke();
+        });
+        ctx.globalAlpha = 1;
+
+        nodes.forEach((d) => {
+          if (!visible(d)) return;
+          const isSelected = d.id === selectedNodeId;
+          const isEndpoint = isPathEndpoint(d.id, pathEndpoints);
+          ctx.beginPath();
+          ctx.arc(d.x!, d.y!, radiusOf(d), 0, 2 * Math.PI);
+          ctx.fillStyle = isSelected ? '#06b6d4' : d.baseColor || d.color || baseColorForType(d.node_type);
+          ctx.fill();
+          ctx.strokeStyle = isEndpoint && !isSelected ? PATH_ENDPOINT_STROKE : '#fff';
+          ctx.lineWidth = isSelected ? 3 : isEndpoint ? 4 : 1;
+          ctx.stroke();
+        });
+
+        // Labels only once they are legible, except the selected node's
+        const showLabels = 8 * transform.k >= CANVAS_MIN_LABEL_PX;
+        ctx.fillStyle = '#fff';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        nodes.forEach((d) => {
+          const isSelected = d.id === selectedNodeId;
+          if ((!showLabels && !isSelected) || !visible(d)) return;
+          ctx.font = isSelected ? 'bold 20px sans-serif' : '8px sans-serif';
+          ctx.fillText(nodeText(d), d.x!, d.y! + radiusOf(d) * 1.5);
+        });
+      };
+
+      const scheduleDraw = () => {
+        if (!frame) {
+          frame = requestAnimationFrame(() => {
+            frame = 0;
+            draw();
+          });
+        }
+      };
+
+      // Node positions indexed for hit-testing, rebuilt on the first test after they move
+      let nodeTree: d3.Quadtree<number> | null = null;
+      const onPositions = () => {
+        nodeTree = null;
+        scheduleDraw();
+      };
+
+      // Topmost (last drawn) node under a canvas point
+      const nodeAt = (px: number, py: number): GraphNode | undefined => {
+        const [x, y] = transform.invert([px, py]);
+        nodeTree ??= d3
+          .quadtree<number>()
+          .x((i) => nodes[i].x!)
+          .y((i) => nodes[i].y!)
+          .addAll(nodes.map((_, i) => i));
+
+        // Only quadrants within the largest radius of the point can hold a hit
+        let hit = -1;
+        nodeTree.visit((quad, qx0, qy0, qx1, qy1) => {
+          if (!quad.length) {
+            for (let leaf: d3.QuadtreeLeaf<number> | undefined = quad as d3.QuadtreeLeaf<number>; leaf; leaf = leaf.next) {
+              const i = leaf.data;
+              const n = nodes[i];
+              const r = radiusOf(n);
+              const dx = x - n.x!;
+              const dy = y - n.y!;
+              if (i > hit && dx * dx + dy * dy <= r * r) hit = i;
+            }
+          }
+          return qx0 > x + maxRadius || qx1 < x - maxRadius || qy0 > y + maxRadius || qy1 < y - maxRadius;
+        });
+        return hit === -1 ? undefined : nodes[hit];
+      };
+
+      // Only tested when no node is hit; the bounding box check skips most links cheaply
+      const linkAt = (px: number, py: number): GraphLink | undefined => {
+        const [x, y] = transform.invert([px, py]);
+        const tolerance = 4 / transform.k;
+        let best: GraphLink | undefined;
+        let bestDistance = tolerance;
+        links.forEach((l) => {
+          const { x: sx, y: sy } = l.source;
+          const { x: tx, y: ty } = l.target;
+          if (
+            x < Math.min(sx!, tx!) - tolerance ||
+            x > Math.max(sx!, tx!) + tolerance ||
+            y < Math.min(sy!, ty!) - tolerance ||
+            y > Math.max(sy!, ty!) + tolerance
+          ) {
+            return;
+          }
+          const distance = distanceToSegment(x, y, sx!, sy!, tx!, ty!);
+          if (distance <= bestDistance) {
+            bestDistance = distance;
+            best = l;
+          }
+        });
+        return best;
+      };
+
+      let dragMoved = false;
+      const drag = d3
+        .drag<HTMLCanvasElement, unknown>()
+        .subject((event) => nodeAt(event.x, event.y))
+        .on('start', (event) => {
+          const d = event.subject as GraphNode;
+          d.fx = d.x;
+          d.fy = d.y;
+          dragMoved = false;
+        })
+        .on('drag', (event) => {
+          const [x, y] = transform.invert(d3.pointer(event, canvasEl));
+          if (!dragMoved && !event.active) layout.setAlphaTarget(0.3);
+          dragMoved = true;
+          dragTo(event.subject as GraphNode, x, y);
+          onPositions();
+        })
+        .on('end', (event) => {
+          if (!event.active && dragMoved) layout.setAlphaTarget(0);
+          endDrag(event.subject as GraphNode, dragMoved);
+          dragMoved = false;
+        });
+
+      const zoom = d3
+        .zoom<HTMLCanvasElement, unknown>()
+        .scaleExtent([0.01, 10])
+        .on('zoom', (event) => {
+          transform = event.transform;
+          transformRef.current = event.transform;
+          scheduleDraw();
+        });
+
+      let hovered: GraphNode | GraphLink | undefined;
+      canvas
+        .call(drag)
+        // Registered before zoom so a double-click on a node unpins (or expands) it instead of zooming
+        .on('dblclick.unpin', (event: MouseEvent) => {
+          const d = nodeAt(...d3.pointer(event, canvasEl));
+          if (!d) return;
+          event.stopImmediatePropagation();
+          handleDoubleClick(d);
+        })
+        .call(zoom)
+        .on('click.select', (event: MouseEvent) => {
+          const d = nodeAt(...d3.pointer(event, canvasEl));
+          if (d) handleNodeClick(d);
+          else handleBackgroundClick();
+        })
+        .on('mousemove.hover', (event: MouseEvent) => {
+          const [px, py] = d3.pointer(event, canvasEl);
+          const target = nodeAt(px, py) ?? linkAt(px, py);
+          canvasEl.style.cursor = target && 'id' in target ? 'pointer' : 'default';
+          if (target !== hovered) {
+            hovered = target;
+            if (!target) hideTooltip();
+            else if ('id' in target) showNodeTooltip(target);
+            else showLinkTooltip(target);
+          }
+          moveTooltip(event);
+        })
+        .on('mouseleave.hover', () => {
+          hovered = undefined;
+          hideTooltip();
+        });
+
+      canvas.call(zoom.transform, transform);
+      hasInitializedRef.current = true;
+
+      applyLayout(layoutModeRef.current, onPositions);
+      applyLayoutRef.current = (mode) => applyLayout(mode, onPositions);
+      draw();
+
+      return () => {
+        transition?.stop();
+        applyLayoutRef.current = null;
+        layout.stop();
+        cancelAnimationFrame(frame);
+        canvas.on('.drag', null).on('.zoom', null).on('.unpin', null).on('.select', null).on('.hover', null);
+        tooltip.remove();
+      };
+    }
+
+    // ==============================
+    // SVG renderer
+    // ==============================
     const svg = d3.select(svgRef.current);
 
     const zoom = d3
@@ -278,75 +996,22 @@ const NetworkGraph = forwardRef<
 
     svg.call(zoom);
 
-    svg.on('click', () => {
-      onNodeClick(null);
-      if (simulationRef.current) {
-        simulationRef.current.alphaTarget(0.3).restart();
-        setTimeout(() => {
-          simulationRef.current && simulationRef.current.alphaTarget(0);
-        }, 300);
-      }
-    });
-
-    if (transformRef.current && hasInitializedRef.current) {
-      svg.call(zoom.transform as any, transformRef.current);
-    } else {
-      const initialScale = 0.15;
-      const initialTransform = d3.zoomIdentity
-        .translate(width / 2, height / 2)
-        .scale(initialScale)
-        .translate(-width / 2, -height / 2);
+    svg.on('click', handleBackgroundClick);
 
-      svg.call(zoom.transform as any, initialTransform);
-      hasInitializedRef.current = true;
-    }
+    svg.call(zoom.transform as any, initialTransform());
+    hasInitializedRef.current = true;
 
     zoomRef.current = zoom;
     gRef.current = g;
 
-    const minRadius = 5;
-    const maxRadius = 100;
-    const maxConnections = Math.max(...graphData.nodes.map((n) => n.val ?? 1), 1);
-    const radiusScale = d3
-      .scalePow()
-      .exponent(0.5)
-      .domain([1, maxConnections])
-      .range([minRadius, maxRadius])
-      .clamp(true);
-
-    const simulation = d3
-      .forceSimulation(graphData.nodes as any)
-      .force(
-        'link',
-        d3
-          .forceLink(graphData.links as any)
-          .id((d: any) => d.id)
-          .distance(50)
-      )
-      .force('charge', d3.forceManyBody().strength(-400))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius((d: any) => radiusScale(d.val) + 5))
-      .force(
-        'radial',
-        d3
-          .forceRadial(
-            (d: any) => (50 - Math.min(d.val, 50)) * 33 + 200,
-            width / 2,
-            height / 2
-          )
-          .strength(0.5)
-      );
-
-    simulationRef.current = simulation as any;
-
     const link = g
       .append('g')
       .selectAll('line')
       .data(graphData.links)
       .join('line')
-      .attr('stroke', '#4b5563')
-      .attr('stroke-width', 2)
-      .attr('stroke-opacity', 0.6);
+      .attr('stroke', (d) => baseLinkColor(d))
+      .attr('stroke-width', (d) => baseLinkWidth(d))
+      .attr('stroke-opacity', (d) => baseLinkOpacity(d, !!pathEndpoints));
 
     linkGroupRef.current = link;
 
@@ -364,19 +1029,17 @@ const NetworkGraph = forwardRef<
             (d as any)._dragging = false;
           })
           .on('drag', (event, d: any) => {
-            (d as any)._dragging = true;
-            d.fx = event.x;
-            d.fy = event.y;
-            if (!event.active && (d as any)._dragging) {
-              simulation.alphaTarget(0.3).restart();
+            if (!event.active && !(d as any)._dragging) {
+              layout.setAlphaTarget(0.3);
             }
+            (d as any)._dragging = true;
+            dragTo(d, event.x, event.y);
           })
           .on('end', (event, d: any) => {
             if (!event.active && (d as any)._dragging) {
-              simulation.alphaTarget(0);
+              layout.setAlphaTarget(0);
             }
-            d.fx = null;
-            d.fy = null;
+            endDrag(d, d._dragging);
             (d as any)._dragging = false;
           }) as any
       );
@@ -385,28 +1048,25 @@ const NetworkGraph = forwardRef<
 
     node
       .append('circle')
-      .attr('r', (d) => radiusScale(d.val ?? 1))
+      .attr('r', (d) => radiusOf(d))
       .attr('fill', (d) => d.color || d.baseColor || baseColorForType(d.node_type))
-      .attr('stroke', '#fff')
-      .attr('stroke-width', 1)
+      .attr('stroke', (d) => (isPathEndpoint(d.id, pathEndpoints) ? PATH_ENDPOINT_STROKE : '#fff'))
+      .attr('stroke-width', (d) => (isPathEndpoint(d.id, pathEndpoints) ? 4 : 1))
       .style('cursor', 'pointer')
       .on('click', (event, d) => {
         event.stopPropagation();
-        const next = selectedNodeId === d.id ? null : d.id;
-        onNodeClick(next);
+        handleNodeClick(d);
+      })
+      .on('dblclick', (event, d) => {
+        event.stopPropagation();
+        handleDoubleClick(d);
       });
 
     node
       .append('text')
-      .text((d) => {
-        const key = labelKey(d.id);
-        if ((d.node_type === 'index' || d.node_type === 'section')) {
-          return displayLabels[key] || d.display_label || d.name;
-        }
-        return d.name;
-      })
+      .text((d) => nodeText(d))
       .attr('x', 0)
-      .attr('y', (d) => radiusScale(d.val ?? 1) * 1.5)
+      .attr('y', (d) => radiusOf(d) * 1.5)
       .attr('text-anchor', 'middle')
       .attr('fill', '#fff')
       .attr('font-size', (d) => (d.id === selectedNodeId ? '20px' : '8px'))
@@ -414,87 +1074,19 @@ const NetworkGraph = forwardRef<
       .style('pointer-events', 'none')
       .style('user-select', 'none');
 
-
-    const tooltip = d3
-      .select('body')
-      .append('div')
-      .style('position', 'absolute')
-      .style('visibility', 'hidden')
-      .style('background-color', 'rgba(0, 0, 0, 0.8)')
-      .style('color', 'white')
-      .style('padding', '8px 12px')
-      .style('border-radius', '6px')
-      .style('font-size', '12px')
-      .style('pointer-events', 'none')
-      .style('z-index', '1000');
-
     node
-      .on('mouseover', async (event, d) => {
-        let displayName = d.name;
-        if ((d.node_type === 'index' || d.node_type === 'section') && !d.display_label) {
-          const label = await fetchDisplayLabel(d.id);
-          if (label) displayName = label;
-        } else if (d.display_label) {
-          displayName = d.display_label;
-        }
-
-        let totalCount = actorTotalCounts[d.id] ?? onDemandCounts[d.id];
-
-        if (totalCount === undefined) {
-          tooltip
-            .style('visibility', 'visible')
-            .html(
-              `<strong>${displayName}</strong><br/>${d.val} connections<br/>(loading total...)`
-            );
-
-          try {
-            const counts = await fetchActorCounts(1, [d.id], timeScope);
-            const count = counts[d.id] ?? 0;
-            setOnDemandCounts((prev) => ({ ...prev, [d.id]: count }));
-            totalCount = count;
-
-            tooltip.html(
-              `<strong>${displayName}</strong><br/>${d.val} connections<br/>(${totalCount} total)`
-            );
-          } catch (error) {
-            console.error('Error fetching actor count:', error);
-            tooltip.html(`<strong>${displayName}</strong><br/>${d.val} connections`);
-          }
-        } else {
-          tooltip
-            .style('visibility', 'visible')
-            .html(
-              `<strong>${displayName}</strong><br/>${d.val} connections<br/>(${totalCount} total)`
-            );
-        }
-      })
-      .on('mousemove', (event) => {
-        tooltip.style('top', event.pageY - 10 + 'px').style('left', event.pageX + 10 + 'px');
+      .on('mouseover', (_event, d) => {
+        showNodeTooltip(d);
       })
-      .on('mouseout', () => {
-        tooltip.style('visibility', 'hidden');
-      });
+      .on('mousemove', moveTooltip)
+      .on('mouseout', hideTooltip);
 
     link
-      .on('mouseover', (event, d) => {
-        const linkData = d as GraphLink & { count?: number };
-        const count = linkData.count || 1;
-        let html =
-          count > 1
-            ? `<strong>${count} relationships</strong><br/>${linkData.action}`
-            : `<strong>${linkData.action}</strong>`;
-        if (linkData.location) html += `<br/>📍 ${linkData.location}`;
-        if (linkData.timestamp) html += `<br/>📅 ${linkData.timestamp}`;
-        tooltip.style('visibility', 'visible').html(html);
-      })
-      .on('mousemove', (event) => {
-        tooltip.style('top', event.pageY - 10 + 'px').style('left', event.pageX + 10 + 'px');
-      })
-      .on('mouseout', () => {
-        tooltip.style('visibility', 'hidden');
-      });
+      .on('mouseover', (_event, d) => showLinkTooltip(d))
+      .on('mousemove', moveTooltip)
+      .on('mouseout', hideTooltip);
 
-    simulation.on('tick', () => {
+    const renderPositions = () => {
       link
         .attr('x1', (d: any) => d.source.x)
         .attr('y1', (d: any) => d.source.y)
@@ -502,13 +1094,41 @@ const NetworkGraph = forwardRef<
         .attr('y2', (d: any) => d.target.y);
 
       node.attr('transform', (d: any) => `translate(${d.x},${d.y})`);
-    });
+    };
+
+    applyLayout(layoutModeRef.current, renderPositions);
+    applyLayoutRef.current = (mode) => applyLayout(mode, renderPositions);
 
     return () => {
-      simulation.stop();
+      transition?.stop();
+      applyLayoutRef.current = null;
+      layout.stop();
       tooltip.remove();
     };
-  }, [graphData, selectedNodeId, onNodeClick, timeScope]);
+  }, [graphData, canvasMode, selectedNodeId, onNodeClick, timeScope, diffBaseScope, nodeMetrics, sizeMetric, pathEndpoints]);
+
+  // Apply pin changes (drags, workspace loads) without rebuilding the graph
+  useEffect(() => {
+    pinnedRef.current = pinnedPositions ?? {};
+    const layout = layoutRef.current;
+    if (!layout) return;
+
+    let moved = false;
+    layoutNodesRef.current.forEach((d, i) => {
+      const pin = pinnedRef.current[d.id];
+      const fx = pin?.fx ?? null;
+      const fy = pin?.fy ?? null;
+      if (d.fx !== fx || d.fy !== fy) {
+        d.fx = fx;
+        d.fy = fy;
+        if (fx !== null && fy !== null) layout.pin(i, fx, fy);
+        else layout.release(i);
+        moved = true;
+      }
+    });
+
+    if (moved) layout.reheat(0.3);
+  }, [pinnedPositions]);
 
     useEffect(() => {
     if (!nodeGroupRef.current || !linkGroupRef.current) return;
@@ -520,7 +1140,9 @@ const NetworkGraph = forwardRef<
       nodeGroupRef.current
         .selectAll('circle')
         .attr('fill', (d: any) => (selectedNodeId && d.id === selectedNodeId ? '#06b6d4' : d.baseColor))
-        .attr('stroke-width', (d: any) => (selectedNodeId && d.id === selectedNodeId ? 3 : 1));
+        .attr('stroke-width', (d: any) =>
+          selectedNodeId && d.id === selectedNodeId ? 3 : isPathEndpoint(d.id, pathEndpoints) ? 4 : 1
+        );
 
       nodeGroupRef.current
         .selectAll('text')
@@ -534,7 +1156,7 @@ const NetworkGraph = forwardRef<
             const targetId = typeof d.target === 'string' ? d.target : d.target.id;
             if (sourceId === selectedNodeId || targetId === selectedNodeId) return '#22c55e';
           }
-          return '#4b5563';
+          return baseLinkColor(d);
         })
         .attr('stroke-opacity', (d: any) => {
           if (selectedNodeId) {
@@ -542,22 +1164,23 @@ const NetworkGraph = forwardRef<
             const targetId = typeof d.target === 'string' ? d.target : d.target.id;
             if (sourceId === selectedNodeId || targetId === selectedNodeId) return 1;
           }
-          return 0.6;
+          return baseLinkOpacity(d, !!pathEndpoints);
         })
         .attr('stroke-width', (d: any) => {
           if (selectedNodeId) {
             const sourceId = typeof d.source === 'string' ? d.source : d.source.id;
             const targetId = typeof d.target === 'string' ? d.target : d.target.id;
-            if (sourceId === selectedNodeId || targetId === selectedNodeId) return 3;
+            if (sourceId === selectedNodeId || targetId === selectedNodeId) return Math.max(3, baseLinkWidth(d));
           }
-          return 2;
+          return baseLinkWidth(d);
         });
     });
-  }, [selectedNodeId, graphData]); // ← ADD graphData to dependencies
+  }, [selectedNodeId, graphData, pathEndpoints]); // ← ADD graphData to dependencies
 
 return (
     <div className="relative w-full h-full">
-      <svg ref={svgRef} className="w-full h-full bg-gray-900" />
+      <svg ref={svgRef} className={`w-full h-full bg-gray-900 ${canvasMode ? 'hidden' : ''}`} />
+      {canvasMode && <canvas ref={canvasRef} className="block w-full h-full bg-gray-900" />}
       
       {/* Top-left timeScope label */}
       <div className="absolute top-4 left-4 bg-gray-800/90 px-3 py-2 rounded-lg border border-gray-700 shadow-lg text-center">
@@ -565,12 +1188,76 @@ return (
         <div className="text-lg font-semibold text-blue-400">{timeScope}</div>
       </div>
 
+      {/* Top-right layout controls */}
+      <div className="absolute top-4 right-4 bg-gray-800/90 px-3 py-2 rounded-lg border border-gray-700 shadow-lg text-xs space-y-2">
+        <select
+          value={layoutMode}
+          onChange={(e) => changeLayoutMode(e.target.value as LayoutMode)}
+          className="w-full px-2 py-1 rounded bg-gray-700 text-gray-200 border border-gray-600"
+        >
+          {LAYOUT_MODES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {layoutMode === 'force' && (
+          <>
+            <button
+              onClick={toggleLayoutPaused}
+              className="w-full px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+            >
+              {layoutPaused ? '▶ Resume layout' : '⏸ Pause layout'}
+            </button>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={freezeOnSettle} onChange={toggleFreezeOnSettle} />
+              Freeze when settled
+            </label>
+            <div className="text-gray-500">
+              Layout: <span className="text-gray-300">{layoutStatus}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {diffMode && (
+        <div className="absolute top-24 left-4 bg-gray-800/90 px-3 py-2 rounded-lg border border-gray-700 shadow-lg text-xs space-y-1">
+          <div className="text-gray-400 mb-1">
+            Changes {diffBaseScope} → {timeScope}
+          </div>
+          {(['added', 'removed', 'changed'] as ChangeStatus[]).map((status) => (
+            <div key={status} className="flex items-center gap-2 text-gray-300">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: DIFF_COLORS[status] }} />
+              <span className="capitalize">{status}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pathCount > 0 && (
+        <div className="absolute top-24 left-4 bg-gray-800/90 px-3 py-2 rounded-lg border border-gray-700 shadow-lg text-xs space-y-1">
+          <div className="text-gray-400 mb-1">Shortest paths</div>
+          {Array.from({ length: pathCount }, (_, rank) => (
+            <div key={rank} className="flex items-center gap-2 text-gray-300">
+              <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: PATH_COLORS[rank % PATH_COLORS.length] }} />
+              <span>Path {rank + 1}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="absolute bottom-0 left-0 right-0 bg-gray-800 px-4 py-2 text-xs text-gray-400 text-center border-t border-gray-700">
         <span>Click nodes to explore relationships</span>
         <span className="mx-3">•</span>
         <span>Scroll to zoom</span>
         <span className="mx-3">•</span>
         <span>Drag to pan</span>
+        {canvasMode && (
+          <>
+            <span className="mx-3">•</span>
+            <span>Canvas rendering ({graphData.nodes.length.toLocaleString()} nodes)</span>
+          </>
+        )}
       </div>
     </div>
   );
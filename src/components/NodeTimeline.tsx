@@ -0,0 +1,131 @@
+// src/components/NodeTimeline.tsx
+
+import { useState, useEffect } from 'react';
+import { fetchNodeTimeline } from '../api';
+import type { NodeTimelineEntry } from '../api';
+import type { TimeScope } from '../types';
+
+interface NodeTimelineProps {
+  nodeId: string;
+  selectedTitle: string;
+  timeScope: TimeScope;
+  availableTimeScopes: string[];
+  onTimeScopeChange: (scope: TimeScope) => void;
+}
+
+export default function NodeTimeline({
+  nodeId,
+  selectedTitle,
+  timeScope,
+  availableTimeScopes,
+  onTimeScopeChange,
+}: NodeTimelineProps) {
+  // Collapsed until asked for: without a published index the timeline reads every scope of the title
+  const [expanded, setExpanded] = useState(false);
+  const [timeline, setTimeline] = useState<{ key: string; entries: NodeTimelineEntry[] | null } | null>(null);
+
+  const requestKey = `${selectedTitle}::${nodeId}::${availableTimeScopes.join(',')}`;
+
+  useEffect(() => {
+    if (!expanded || availableTimeScopes.length === 0) return;
+
+    let active = true;
+    const loadTimeline = async () => {
+      try {
+        const entries = await fetchNodeTimeline(nodeId, selectedTitle, availableTimeScopes);
+        if (active) setTimeline({ key: requestKey, entries });
+      } catch (err) {
+        console.error('Failed to load node timeline:', err);
+        if (active) setTimeline({ key: requestKey, entries: null });
+      }
+    };
+
+    loadTimeline();
+    return () => { active = false; };
+  }, [expanded, nodeId, selectedTitle, availableTimeScopes, requestKey]);
+
+  if (availableTimeScopes.length < 2) return null;
+
+  const isLoading = timeline?.key !== requestKey;
+  const entries = !isLoading ? timeline?.entries ?? null : null;
+  const maxDegree = entries ? Math.max(1, ...entries.map((e) => e.degree)) : 1;
+  const existingCount = entries ? entries.filter((e) => e.exists).length : 0;
+
+  return (
+    <div className="mt-3 border border-gray-700 rounded">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-2 py-1.5 text-xs font-semibold text-gray-300 hover:text-blue-400 transition-colors"
+      >
+        <span>
+          Timeline
+          {entries && (
+            <span className="ml-1 font-normal text-gray-500">
+              ({existingCount} of {entries.length} scopes)
+            </span>
+          )}
+        </span>
+        <span>{expanded ? '▼' : '▶'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-2 pb-2">
+          {isLoading ? (
+            <div className="text-xs text-gray-500 py-1">Indexing time scopes…</div>
+          ) : !entries ? (
+            <div className="text-xs text-red-400 py-1">Failed to load timeline.</div>
+          ) : (
+            <div className="space-y-0.5">
+              {entries.map((entry) => {
+                const isCurrent = entry.timeScope === timeScope;
+                return (
+                  <button
+                    key={entry.timeScope}
+                    onClick={() => onTimeScopeChange(entry.timeScope)}
+                    disabled={!entry.exists || isCurrent}
+                    title={entry.exists ? `Switch to ${entry.timeScope}` : `Not present in ${entry.timeScope}`}
+                    className={`w-full flex items-center gap-2 px-1.5 py-1 rounded text-xs text-left transition-colors ${
+                      isCurrent
+                        ? 'bg-blue-900/40 border border-blue-700/50'
+                        : entry.exists
+                        ? 'hover:bg-gray-700/50'
+                        : 'opacity-40 cursor-not-allowed'
+                    }`}
+                  >
+                    <span className={`w-12 font-mono ${isCurrent ? 'text-blue-300 font-semibold' : 'text-gray-300'}`}>
+                      {entry.timeScope}
+                    </span>
+
+                    {entry.exists ? (
+                      <>
+                        <span className="flex-1 flex items-center gap-1">
+                          <span
+                            className="h-1.5 bg-purple-500 rounded"
+                            style={{ width: `${Math.max(4, (entry.degree / maxDegree) * 100)}%` }}
+                          />
+                          <span className="text-gray-400">{entry.degree}</span>
+                        </span>
+                        {entry.textChanged && (
+                          <span className="text-amber-400" title="Section text changed since the previous scope">
+                            ✎
+                          </span>
+                        )}
+                        {entry.gained > 0 && <span className="text-green-400">+{entry.gained}</span>}
+                        {entry.lost > 0 && <span className="text-red-400">−{entry.lost}</span>}
+                      </>
+                    ) : (
+                      <span className="flex-1 text-gray-500 italic">not present</span>
+                    )}
+                  </button>
+                );
+              })}
+              <div className="text-[10px] text-gray-500 pt-1">
+                Bar = degree · ✎ text changed · +/− relationships gained/lost vs. previous scope
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+// src/components/PathFinder.tsx
+
+import { useState, useEffect } from 'react';
+import { searchActors } from '../api';
+import type { PathQuery, TimeScope } from '../types';
+
+type Actor = Awaited<ReturnType<typeof searchActors>>[number];
+
+const EDGE_TYPES: PathQuery['edgeTypes'] = ['definition', 'reference', 'hierarchy'];
+const MAX_PATHS = 10;
+
+interface PathFinderProps {
+  graphTitle: string;
+  timeScope: TimeScope;
+  activeQuery: PathQuery | null;
+  pathCount: number | null;   // Paths found for activeQuery
+  onFindPaths: (query: PathQuery) => void;
+  onClearPaths: () => void;
+}
+
+function NodePicker({
+  label,
+  value,
+  onChange,
+  graphTitle,
+  timeScope,
+}: {
+  label: string;
+  value: Actor | null;
+  onChange: (actor: Actor | null) => void;
+  graphTitle: string;
+  timeScope: TimeScope;
+}) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Actor[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (query.trim().length < 2) return;
+
+    const performSearch = async () => {
+      setIsSearching(true);
+      try {
+        setResults(await searchActors(query, graphTitle, timeScope));
+      } catch (error) {
+        console.error('Search error:', error);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    const timeoutId = setTimeout(performSearch, 300);
+    return () => clearTimeout(timeoutId);
+  }, [query, graphTitle, timeScope]);
+
+  if (value) {
+    return (
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">{label}</label>
+        <div className="flex items-center justify-between bg-gray-900/50 border border-gray-600 rounded px-2 py-1">
+          <span className="text-sm text-white truncate">{value.name}</span>
+          <button onClick={() => onChange(null)} className="text-xs text-gray-400 hover:text-white ml-2">
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="§ 1, income, deduction..."
+        className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+      />
+
+      {query.trim().length >= 2 && (
+        <div className="absolute z-10 w-full mt-1 bg-gray-700 border border-gray-600 rounded shadow-lg max-h-40 overflow-y-auto">
+          {isSearching ? (
+            <div className="px-2 py-1 text-xs text-gray-400">Searching...</div>
+          ) : results.length > 0 ? (
+            results.map((actor) => (
+              <button
+                key={actor.id}
+                onClick={() => {
+                  onChange(actor);
+                  setQuery('');
+                  setResults([]);
+                }}
+                className="w-full px-2 py-1 text-left text-xs hover:bg-gray-600 transition-colors border-b border-gray-600 last:border-b-0"
+              >
+                <div className="font-medium text-white">{actor.name}</div>
+                <div className="text-xs text-gray-400">{actor.connection_count} relationships</div>
+              </button>
+            ))
+          ) : (
+            <div className="px-2 py-1 text-xs text-gray-400">No nodes found</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function PathFinder({
+  graphTitle,
+  timeScope,
+  activeQuery,
+  pathCount,
+  onFindPaths,
+  onClearPaths,
+}: PathFinderProps) {
+  const [source, setSource] = useState<Actor | null>(null);
+  const [target, setTarget] = useState<Actor | null>(null);
+  const [k, setK] = useState(3);
+  const [edgeTypes, setEdgeTypes] = useState<Set<PathQuery['edgeTypes'][number]>>(new Set(EDGE_TYPES));
+
+  const toggleEdgeType = (type: PathQuery['edgeTypes'][number]) => {
+    setEdgeTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const canSearch = !!source && !!target && source.id !== target.id && edgeTypes.size > 0;
+
+  return (
+    <div className="space-y-3">
+      <NodePicker label="From:" value={source} onChange={setSource} graphTitle={graphTitle} timeScope={timeScope} />
+      <NodePicker label="To:" value={target} onChange={setTarget} graphTitle={graphTitle} timeScope={timeScope} />
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Number of paths: {k}</label>
+        <input
+          type="range"
+          min={1}
+          max={MAX_PATHS}
+          value={k}
+          onChange={(e) => setK(Number(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Follow edges:</label>
+        <div className="flex flex-wrap gap-3">
+          {EDGE_TYPES.map((type) => (
+            <label key={type} className="flex items-center text-xs text-gray-300 capitalize">
+              <input
+                type="checkbox"
+                checked={edgeTypes.has(type)}
+                onChange={() => toggleEdgeType(type)}
+                className="mr-1"
+              />
+              {type}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() =>
+            canSearch &&
+            onFindPaths({
+              sourceId: source.id,
+              targetId: target.id,
+              k,
+              edgeTypes: EDGE_TYPES.filter((t) => edgeTypes.has(t)),
+            })
+          }
+          disabled={!canSearch}
+          className={`flex-1 px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+            canSearch ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          Find paths
+        </button>
+        {activeQuery && (
+          <button
+            onClick={onClearPaths}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {activeQuery && pathCount !== null && (
+        <p className={`text-xs ${pathCount > 0 ? 'text-gray-400' : 'text-yellow-400'}`}>
+          {pathCount > 0
+            ? `Found ${pathCount} path${pathCount !== 1 ? 's' : ''} (of ${activeQuery.k} requested). Hops are listed in the right sidebar.`
+            : 'No path connects these nodes with the selected edge types in this time scope.'}
+        </p>
+      )}
+    </div>
+  );
+}
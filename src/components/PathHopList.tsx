@@ -0,0 +1,101 @@
+// src/components/PathHopList.tsx
+
+import { useState } from 'react';
+import { PATH_COLORS } from '../services/networkBuilder';
+import type { GraphNode, GraphPath, PathHop } from '../types';
+
+interface PathHopListProps {
+  paths: GraphPath[];
+  onNodeSelect: (nodeId: string) => void;
+  onClear: () => void;
+}
+
+const nodeLabel = (node: GraphNode) => node.display_label || node.name || node.id;
+
+const linkSourceId = (hop: PathHop) =>
+  typeof hop.link.source === 'string' ? hop.link.source : hop.link.source.id;
+
+// Definition edges carry their own text; otherwise fall back to a concept endpoint's definition
+const hopDefinition = (hop: PathHop): string | undefined =>
+  hop.link.definition ||
+  (hop.to.node_type === 'concept' ? hop.to.properties?.definition : undefined) ||
+  (hop.from.node_type === 'concept' ? hop.from.properties?.definition : undefined);
+
+export default function PathHopList({ paths, onNodeSelect, onClear }: PathHopListProps) {
+  const [expandedPath, setExpandedPath] = useState<number | null>(0);
+
+  const nodeButton = (node: GraphNode) => (
+    <button
+      onClick={() => onNodeSelect(node.id)}
+      className="font-medium text-blue-300 hover:text-blue-200 hover:underline text-left"
+    >
+      {nodeLabel(node)}
+    </button>
+  );
+
+  return (
+    <div className="border-b border-gray-700">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-900/40">
+        <span className="text-sm font-semibold text-white">
+          {paths.length} shortest path{paths.length !== 1 ? 's' : ''}
+        </span>
+        <button onClick={onClear} className="text-xs text-blue-400 hover:text-blue-300">
+          Clear
+        </button>
+      </div>
+
+      {paths.map((path, rank) => {
+        const isExpanded = expandedPath === rank;
+        return (
+          <div key={path.nodeIds.join('|')} className="border-t border-gray-700/60">
+            <button
+              onClick={() => setExpandedPath(isExpanded ? null : rank)}
+              className="w-full flex items-center gap-2 px-4 py-2 text-xs text-left hover:bg-gray-700/30 transition-colors"
+            >
+              <span
+                className="inline-block w-4 h-1 rounded flex-shrink-0"
+                style={{ backgroundColor: PATH_COLORS[rank % PATH_COLORS.length] }}
+              />
+              <span className="text-gray-200 font-medium">Path {rank + 1}</span>
+              <span className="text-gray-500">
+                {path.hops.length} hop{path.hops.length !== 1 ? 's' : ''}
+              </span>
+              <span className="ml-auto text-gray-500">{isExpanded ? '▼' : '▶'}</span>
+            </button>
+
+            {isExpanded && (
+              <ol className="px-4 pb-3 space-y-2">
+                {path.hops.map((hop, i) => {
+                  const forward = linkSourceId(hop) === hop.from.id;
+                  const definition = hopDefinition(hop);
+                  return (
+                    <li key={i} className="text-xs">
+                      <div className="flex items-start gap-2">
+                        <span className="text-gray-500 font-mono w-4 flex-shrink-0">{i + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-1 flex-wrap">
+                            {nodeButton(hop.from)}
+                            <span className="text-gray-400">
+                              {forward ? `—${hop.link.action}→` : `←${hop.link.action}—`}
+                            </span>
+                            {nodeButton(hop.to)}
+                          </div>
+                          <div className="text-gray-500 mt-0.5">{hop.link.edge_type}</div>
+                          {definition && (
+                            <div className="mt-1 p-1.5 bg-blue-900/20 border border-blue-700/30 rounded text-gray-300">
+                              {definition}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
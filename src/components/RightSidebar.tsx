@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { searchActors, fetchNodeDetails } from '../api';
-import type { Relationship, Actor, GraphNode, SelectedNode, TimeScope } from '../types';
+import NodeTimeline from './NodeTimeline';
+import PathHopList from './PathHopList';
+import type { Relationship, Actor, GraphNode, GraphPath, SelectedNode, TimeScope } from '../types';
 
 interface RightSidebarProps {
   selectedNode: SelectedNode;
@@ -17,6 +19,9 @@ interface RightSidebarProps {
   selectedTitle: string;
   availableTimeScopes: string[];
   isLoadingRelationships?: boolean;
+  paths?: GraphPath[] | null;             // Path finder results, listed above the relationships
+  onPathNodeSelect?: (nodeId: string) => void;
+  onClearPaths?: () => void;
 }
 
 export default function RightSidebar({
@@ -31,6 +36,9 @@ export default function RightSidebar({
   selectedTitle,
   availableTimeScopes,
   isLoadingRelationships = false,
+  paths = null,
+  onPathNodeSelect,
+  onClearPaths,
 }: RightSidebarProps) {
   const [expandedRelId, setExpandedRelId] = useState<number | null>(null);
   const [filterActor, setFilterActor] = useState<string | null>(null);
@@ -347,6 +355,14 @@ export default function RightSidebar({
                       </div>
                     </div>
                   )}
+
+                <NodeTimeline
+                  nodeId={selectedNodeId}
+                  selectedTitle={selectedTitle}
+                  timeScope={timeScope}
+                  availableTimeScopes={availableTimeScopes}
+                  onTimeScopeChange={onTimeScopeChange}
+                />
               </div>
             )}
           </div>
@@ -422,6 +438,10 @@ export default function RightSidebar({
           NEW: Loading state for relationships
           ============================== */}
       <div className="flex-1 overflow-y-auto relative">
+        {paths && paths.length > 0 && onPathNodeSelect && onClearPaths && (
+          <PathHopList paths={paths} onNodeSelect={onPathNodeSelect} onClear={onClearPaths} />
+        )}
+
         {/* Show loading overlay during timeScope switch */}
         {isLoadingRelationships && sortedRelationships.length === 0 && (
           <div className="absolute inset-0 bg-gray-800/90 flex items-center justify-center z-10">
@@ -1,8 +1,15 @@
 // src/components/Sidebar.tsx
 
-import { useState, useEffect, useRef } from 'react';
-import { searchActors, fetchNodeDetails } from '../api';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { searchActors, fetchNodeDetails, resolveCitation } from '../api';
+import type { CitationTarget } from '../api';
 import ExportControls from './ExportControls';
+import PathFinder from './PathFinder';
+import WorkspaceManager from './WorkspaceManager';
+import DefinitionsPanel from './DefinitionsPanel';
+import HierarchyBrowser from './HierarchyBrowser';
+import CachePanel from './CachePanel';
+import type { NetworkGraphHandle } from './NetworkGraph';
 import type { 
   Stats, 
   Actor, 
@@ -10,7 +17,28 @@ import type {
   SelectedNode, 
   TimeScope,
   Manifest,      // ← NEW: Import Manifest type
+  ManifestTitle,
+  ManifestScope,
+  MetricKey,
+  PathQuery,
+  Workspace,
 } from '../types';
+import { METRIC_DEFINITIONS } from '../services/graphMetrics';
+import { validateQuery } from '../services/queryLanguage';
+import { parseCitation, formatCitation } from '../utils/citations';
+import { formatBytes } from '../utils/formatBytes';
+import type { GraphDiffSummary } from '../services/graphDiff';
+import type { WorkspaceSnapshot } from '../services/workspaceStore';
+
+// Fields searched by unfielded query terms
+const SEARCH_FIELD_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'display_label', label: 'Label' },
+  { value: 'entity', label: 'Entities' },
+  { value: 'concept', label: 'Concepts' },
+  { value: 'definition', label: 'Definitions' },
+  { value: 'full_name', label: 'Full name' },
+];
 
 interface SidebarProps {
   stats: Stats | null;
@@ -23,8 +51,12 @@ interface SidebarProps {
   minDensity: number;
   onMinDensityChange: (density: number) => void;
   tagClusters: TagCluster[];
+  communitiesLoading?: boolean;
+  onClustersExpandedChange?: (expanded: boolean) => void;   // Communities are only detected while shown
   enabledClusterIds: Set<number>;
   onToggleCluster: (clusterId: number) => void;
+  colorByCommunity?: boolean;
+  onColorByCommunityChange?: (enabled: boolean) => void;
   enabledCategories: Set<string>;
   onToggleCategory: (category: string) => void;
   enabledNodeTypes: Set<string>;
@@ -42,7 +74,7 @@ interface SidebarProps {
   timeScope: TimeScope;
   onTimeScopeChange: (scope: TimeScope) => void;
   currentGraphData?: { nodes: GraphNode[]; links: GraphLink[] } | null;
-  networkGraphRef?: React.RefObject<{ getSvgElement: () => SVGSVGElement | null }>;
+  networkGraphRef?: React.RefObject<NetworkGraphHandle | null>;
   
   // ==============================
   // NEW: Multi-title props
@@ -51,6 +83,41 @@ interface SidebarProps {
   selectedTitle: string;                        // ← NEW: Currently selected title
   onTitleChange: (title: string) => void;       // ← NEW: Title change handler
   availableTimeScopes: string[];                // ← CHANGED: From availableYears
+  graphTitle: string;                           // Composite key of all loaded titles, e.g. "26+29"
+  additionalTitles: string[];                   // Titles merged into the network alongside selectedTitle
+  onAdditionalTitlesChange: (titles: string[]) => void;
+  diffBaseScope?: TimeScope | null;             // Earlier scope the current one is diffed against
+  onDiffBaseScopeChange?: (scope: TimeScope | null) => void;
+  diffSummary?: GraphDiffSummary | null;
+  isComputingDiff?: boolean;
+
+  // Centrality metrics
+  metricsEnabled?: boolean;
+  onMetricsEnabledChange?: (enabled: boolean) => void;
+  metricsScope?: 'display' | 'full';
+  onMetricsScopeChange?: (scope: 'display' | 'full') => void;
+  sizeMetric?: MetricKey;
+  onSizeMetricChange?: (metric: MetricKey) => void;
+  metricsStatus?: { computing: boolean; nodeCount: number; approximate: boolean; error: string | null } | null;
+
+  // Path finder
+  pathQuery?: PathQuery | null;
+  pathCount?: number | null;
+  onFindPaths?: (query: PathQuery) => void;
+  onClearPaths?: () => void;
+
+  // Saved workspaces
+  captureWorkspace?: () => WorkspaceSnapshot;
+  onApplyWorkspace?: (workspace: Workspace) => void;
+
+  // Searching a citation ("26 U.S.C. § 1(h)") offers a jump to the cited node, in any title
+  onCitationSelect?: (target: CitationTarget) => void;
+
+  // Definitions panel: defining and referencing sections open in the document viewer
+  onOpenDocument?: (nodeId: string) => void;
+
+  // Hierarchy browser: show a branch as the network, or seed the builder with it
+  onBranchSelect?: (nodeIds: string[], mode: 'subtree' | 'seed', branchKey: string) => void;
   
   // These are now deprecated but kept for backwards compatibility
   selectedYear?: string;
@@ -66,6 +133,7 @@ interface SidebarProps {
     searchFields: string[];
     searchLogic: 'AND' | 'OR';
     nodeRankingMode: 'global' | 'subgraph';
+    titles?: string[];
   }) => void;
   displayGraphInfo?: {
     nodeCount: number;
@@ -153,12 +221,47 @@ function SelectedNodeBox({
   );
 }
 
+// Titles whose download is at least this large ask before loading
+const HUGE_TITLE_BYTES = 50 * 1024 * 1024;
+
+// Manifest entry for the scope a title would open in: the current one, else its latest
+const titleScopeEntry = (title: ManifestTitle, timeScope: TimeScope): ManifestScope | undefined =>
+  title.scopes?.[timeScope] ?? title.scopes?.[title.timeScopes[title.timeScopes.length - 1]];
+
+const scopeNodeCount = (scope: ManifestScope) =>
+  scope.nodes ?? scope.parts?.reduce((sum, p) => sum + (p.nodes ?? 0), 0);
+
+const titleSizeLabel = (scope: ManifestScope | undefined) => {
+  if (!scope?.bytes) return '';
+  const nodes = scopeNodeCount(scope);
+  return nodes ? ` (${formatBytes(scope.bytes)}, ${nodes.toLocaleString()} nodes)` : ` (${formatBytes(scope.bytes)})`;
+};
+
+// Asks before a huge title is loaded; true when it's small or the user agrees
+const confirmTitleLoad = (title: ManifestTitle, timeScope: TimeScope) => {
+  const scope = titleScopeEntry(title, timeScope);
+  if (!scope || scope.bytes < HUGE_TITLE_BYTES) return true;
+  const nodes = scopeNodeCount(scope);
+  return confirm(
+    `Title ${title.id} is a ${formatBytes(scope.bytes)} download` +
+    (nodes ? ` with ${nodes.toLocaleString()} nodes` : '') +
+    '. It may take a while to load and use a lot of memory.\n\nLoad it anyway?'
+  );
+};
+
 export default function Sidebar({
   stats,
   selectedNode,
   onNodeSelect,
   limit,
   onLimitChange,
+  tagClusters,
+  communitiesLoading = false,
+  onClustersExpandedChange,
+  enabledClusterIds,
+  onToggleCluster,
+  colorByCommunity = false,
+  onColorByCommunityChange,
   maxHops,
   onMaxHopsChange,
   enabledCategories,
@@ -176,6 +279,29 @@ export default function Sidebar({
   selectedTitle,
   onTitleChange,
   availableTimeScopes,
+  graphTitle,
+  additionalTitles,
+  onAdditionalTitlesChange,
+  diffBaseScope = null,
+  onDiffBaseScopeChange,
+  diffSummary = null,
+  isComputingDiff = false,
+  metricsEnabled = false,
+  onMetricsEnabledChange,
+  metricsScope = 'display',
+  onMetricsScopeChange,
+  sizeMetric = 'degree',
+  onSizeMetricChange,
+  metricsStatus = null,
+  pathQuery = null,
+  pathCount = null,
+  onFindPaths,
+  onClearPaths,
+  captureWorkspace,
+  onApplyWorkspace,
+  onCitationSelect,
+  onOpenDocument,
+  onBranchSelect,
   
   onBottomUpSearch,
   onResetToTopDown,
@@ -187,20 +313,37 @@ export default function Sidebar({
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Actor[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [citationTarget, setCitationTarget] = useState<CitationTarget | null>(null);
   const [categoriesExpanded, setCategoriesExpanded] = useState(false);
   const [nodeTypesExpanded, setNodeTypesExpanded] = useState(false);
   const [graphSettingsExpanded, setGraphSettingsExpanded] = useState(true);
   const [filtersExpanded, setFiltersExpanded] = useState(true);
   const [localLimit, setLocalLimit] = useState(limit);
   const [localKeywords, setLocalKeywords] = useState('');
+  // Follow searches started elsewhere (e.g. restored from the URL)
+  const [syncedSearchKeywords, setSyncedSearchKeywords] = useState(bottomUpSearchKeywords);
+  if (bottomUpSearchKeywords !== syncedSearchKeywords) {
+    setSyncedSearchKeywords(bottomUpSearchKeywords);
+    if (bottomUpSearchKeywords) setLocalKeywords(bottomUpSearchKeywords);
+  }
   const [exportExpanded, setExportExpanded] = useState(false);
+  const [mergeTitlesExpanded, setMergeTitlesExpanded] = useState(false);
+  const [metricsExpanded, setMetricsExpanded] = useState(false);
+  const [clustersExpanded, setClustersExpanded] = useState(false);
+  const [pathFinderExpanded, setPathFinderExpanded] = useState(false);
+  const [workspacesExpanded, setWorkspacesExpanded] = useState(false);
+  const [definitionsExpanded, setDefinitionsExpanded] = useState(false);
+  const [hierarchyExpanded, setHierarchyExpanded] = useState(false);
+  const [cacheExpanded, setCacheExpanded] = useState(false);
+  // Titles the bottom-up search is restricted to; empty means all loaded titles
+  const [searchTitles, setSearchTitles] = useState<Set<string>>(new Set());
 
   const limitDebounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const selectedNodeId = selectedNode?.id ?? null;
 
   const [expansionDegree, setExpansionDegree] = useState(1);
-  const [searchFields] = useState<Set<string>>(
+  const [searchFields, setSearchFields] = useState<Set<string>>(
     new Set(['text', 'display_label', 'entity', 'concept', 'definition'])
   );
   const [searchLogic, setSearchLogic] = useState<'AND' | 'OR'>('OR');
@@ -212,17 +355,29 @@ export default function Sidebar({
     const performSearch = async () => {
       if (searchQuery.trim().length < 2) {
         setSearchResults([]);
+        setCitationTarget(null);
         setIsSearching(false);
         return;
       }
 
       setIsSearching(true);
       try {
-        const results = await searchActors(searchQuery, selectedTitle, timeScope); // ← CHANGED: Added title param
+        const citation = onCitationSelect ? parseCitation(searchQuery) : null;
+        const [results, target] = await Promise.all([
+          searchActors(searchQuery, graphTitle, timeScope),
+          citation
+            ? resolveCitation(citation, graphTitle, timeScope).catch((error) => {
+                console.error('Citation lookup failed:', error);
+                return null;
+              })
+            : null,
+        ]);
         setSearchResults(results);
+        setCitationTarget(target);
       } catch (error) {
         console.error('Search error:', error);
         setSearchResults([]);
+        setCitationTarget(null);
       } finally {
         setIsSearching(false);
       }
@@ -230,7 +385,7 @@ export default function Sidebar({
 
     const timeoutId = setTimeout(performSearch, 300);
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, selectedTitle, timeScope]); // ← CHANGED: Added selectedTitle to deps
+  }, [searchQuery, graphTitle, timeScope, onCitationSelect]);
 
   useEffect(() => {
     setLocalLimit(limit);
@@ -256,8 +411,20 @@ export default function Sidebar({
     };
   }, []);
 
+  const queryError = useMemo(() => validateQuery(localKeywords), [localKeywords]);
+
+  const toggleSearchField = (field: string) => {
+    setSearchFields((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
 const handleKeywordSubmit = (e?: React.FormEvent) => {
   if (e) e.preventDefault();
+  if (queryError) return;
 
 if (!localKeywords.trim()) {
   setLocalKeywords('');   // ← ensure input visually clears
@@ -274,7 +441,11 @@ if (!localKeywords.trim()) {
       edgeTypes: Array.from(enabledCategories),
       searchFields: Array.from(searchFields),
       searchLogic: searchLogic,
-      nodeRankingMode: 'global'
+      nodeRankingMode: 'global',
+      // Ignore restrictions for titles that are no longer loaded
+      titles: Array.from(searchTitles).filter(
+        (t) => t === selectedTitle || additionalTitles.includes(t)
+      ),
     });
   }
 };
@@ -362,15 +533,76 @@ if (!localKeywords.trim()) {
           <label className="block text-sm text-gray-400 mb-2">Title:</label>
           <select
             value={selectedTitle}
-            onChange={(e) => onTitleChange(e.target.value)}
+            onChange={(e) => {
+              const title = manifest.titles.find((t) => t.id === e.target.value);
+              if (title && !confirmTitleLoad(title, timeScope)) return;
+              onTitleChange(e.target.value);
+            }}
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-blue-500"
           >
             {manifest.titles.map((title) => (
   <option key={title.id} value={title.id}>
-    Title {title.id} — {USC_TITLE_NAMES[title.id] || title.name}
+    Title {title.id} — {USC_TITLE_NAMES[title.id] || title.name}{titleSizeLabel(titleScopeEntry(title, timeScope))}
   </option>
 ))}
           </select>
+
+          <button
+            onClick={() => setMergeTitlesExpanded(!mergeTitlesExpanded)}
+            className="mt-2 w-full flex items-center justify-between text-xs text-gray-400 hover:text-blue-400 transition-colors"
+          >
+            <span>
+              Merge with other titles
+              {additionalTitles.length > 0 && ` (${additionalTitles.length})`}
+            </span>
+            <span>{mergeTitlesExpanded ? '▼' : '▶'}</span>
+          </button>
+
+          {mergeTitlesExpanded && (
+            <div className="mt-2 max-h-40 overflow-y-auto space-y-1 bg-gray-900/40 border border-gray-700 rounded p-2">
+              {manifest.titles
+                .filter((title) => title.id !== selectedTitle)
+                .map((title) => {
+                  const primaryScopes = currentTitleData?.timeScopes ?? [];
+                  const sharesScope = title.timeScopes.some((s) => primaryScopes.includes(s));
+                  const checked = additionalTitles.includes(title.id);
+                  const bytes = titleScopeEntry(title, timeScope)?.bytes;
+                  return (
+                    <label
+                      key={title.id}
+                      className={`flex items-center gap-2 text-xs ${
+                        sharesScope ? 'text-gray-300 cursor-pointer' : 'text-gray-600'
+                      }`}
+                      title={sharesScope ? undefined : 'No time scope in common with the selected title'}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={!sharesScope && !checked}
+                        onChange={() => {
+                          if (!checked && !confirmTitleLoad(title, timeScope)) return;
+                          onAdditionalTitlesChange(
+                            checked
+                              ? additionalTitles.filter((id) => id !== title.id)
+                              : [...additionalTitles, title.id]
+                          );
+                        }}
+                        className="accent-blue-500"
+                      />
+                      <span className="flex-1">Title {title.id} — {USC_TITLE_NAMES[title.id] || title.name}</span>
+                      {!!bytes && <span className="font-mono text-gray-500">{formatBytes(bytes)}</span>}
+                    </label>
+                  );
+                })}
+            </div>
+          )}
+
+          {additionalTitles.length > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing Titles {[selectedTitle, ...additionalTitles].join(', ')} as one network.
+              Cross-title references are drawn in pink.
+            </p>
+          )}
         </div>
       )}
 
@@ -395,8 +627,28 @@ if (!localKeywords.trim()) {
                 <div className="px-3 py-2 text-sm text-gray-400">
                   Searching...
                 </div>
-              ) : searchResults.length > 0 ? (
-                searchResults.map((actor) => (
+              ) : searchResults.length > 0 || citationTarget ? (
+                <>
+                {citationTarget && (
+                  <button
+                    onClick={() => {
+                      onCitationSelect?.(citationTarget);
+                      setSearchQuery('');
+                      setSearchResults([]);
+                      setCitationTarget(null);
+                    }}
+                    className="w-full px-3 py-2 text-left text-sm bg-blue-900/40 hover:bg-gray-600 transition-colors border-b border-gray-600"
+                  >
+                    <div className="font-medium text-white">
+                      📍 {formatCitation(citationTarget.citation, citationTarget.titleId)}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {citationTarget.exact ? citationTarget.label : `Closest provision: ${citationTarget.label}`}
+                      {!citationTarget.inLoadedGraph && ` · switches to Title ${citationTarget.titleId}`}
+                    </div>
+                  </button>
+                )}
+                {searchResults.map((actor) => (
                   <button
                     key={actor.id}
                     onClick={() => {
@@ -411,7 +663,8 @@ if (!localKeywords.trim()) {
                       {actor.connection_count} relationships
                     </div>
                   </button>
-                ))
+                ))}
+                </>
               ) : (
                 <div className="px-3 py-2 text-sm text-gray-400">
                   No nodes found
@@ -475,7 +728,7 @@ if (!localKeywords.trim()) {
       {selectedNode && (
         <SelectedNodeBox 
           selectedNode={selectedNode}
-          selectedTitle={selectedTitle}
+          selectedTitle={graphTitle}
           timeScope={timeScope}
           onNodeSelect={onNodeSelect} 
         />
@@ -559,6 +812,49 @@ if (!localKeywords.trim()) {
                 </select>
               </div>
 
+              {onDiffBaseScopeChange && (
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-2">
+                    Compare with:
+                  </label>
+                  <select
+                    value={diffBaseScope ?? ''}
+                    onChange={(e) => onDiffBaseScopeChange(e.target.value || null)}
+                    disabled={availableTimeScopes.length < 2}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                  >
+                    <option value="">None (no diff)</option>
+                    {availableTimeScopes
+                      .filter((scope) => scope !== timeScope)
+                      .map((scope) => (
+                        <option key={scope} value={scope}>
+                          {scope}
+                        </option>
+                      ))}
+                  </select>
+
+                  {diffBaseScope && (
+                    <div className="mt-2 p-2 bg-gray-900 rounded text-xs text-gray-300">
+                      {isComputingDiff || !diffSummary ? (
+                        <span className="text-gray-400">Computing changes…</span>
+                      ) : (
+                        <>
+                          <div className="text-gray-400 mb-1">
+                            {diffBaseScope} → {timeScope}
+                          </div>
+                          <div className="grid grid-cols-2 gap-x-2">
+                            <span className="text-green-400">+{diffSummary.nodes.added} nodes</span>
+                            <span className="text-green-400">+{diffSummary.links.added} edges</span>
+                            <span className="text-red-400">−{diffSummary.nodes.removed} nodes</span>
+                            <span className="text-red-400">−{diffSummary.links.removed} edges</span>
+                            <span className="text-amber-400">~{diffSummary.nodes.changed} changed</span>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
 
             </>
           )}
@@ -636,6 +932,69 @@ if (!localKeywords.trim()) {
                 </p>
               </div>
 
+              <div className="mb-4">
+                <label className="block text-sm text-gray-400 mb-2">
+                  Search in:
+                </label>
+                <div className="flex flex-wrap gap-1.5">
+                  {SEARCH_FIELD_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => toggleSearchField(option.value)}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                        searchFields.has(option.value)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {searchFields.size === 0 && (
+                  <p className="text-xs text-yellow-400 mt-2">
+                    Select at least one field to search
+                  </p>
+                )}
+              </div>
+
+              {additionalTitles.length > 0 && (
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-2">
+                    Search within titles:
+                  </label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {[selectedTitle, ...additionalTitles].map((id) => {
+                      const isEnabled = searchTitles.size === 0 || searchTitles.has(id);
+                      return (
+                        <button
+                          key={id}
+                          type="button"
+                          onClick={() => {
+                            setSearchTitles((prev) => {
+                              const all = [selectedTitle, ...additionalTitles];
+                              const next = new Set(prev.size === 0 ? all : prev);
+                              if (next.has(id)) next.delete(id);
+                              else next.add(id);
+                              // Everything (or nothing) selected means no restriction
+                              return next.size === all.length || next.size === 0 ? new Set() : next;
+                            });
+                          }}
+                          className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                            isEnabled
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                          }`}
+                        >
+                          Title {id}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <form onSubmit={handleKeywordSubmit} className="mb-0">
                 <label className="block text-sm text-gray-400 mb-2">
                   Keyword search:
@@ -648,18 +1007,37 @@ if (!localKeywords.trim()) {
                     onChange={(e) => setLocalKeywords(e.target.value)}
                     onKeyPress={(e) => e.key === 'Enter' && handleKeywordSubmit()}
                     placeholder="tax, income, penalty"
-                    className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+                    className={`flex-1 px-3 py-2 bg-gray-700 border rounded-lg text-sm text-gray-100 placeholder-gray-400 focus:outline-none ${
+                      queryError ? 'border-red-500' : 'border-gray-600 focus:border-blue-500'
+                    }`}
                   />
                   <button
                     type="submit"
-                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-[#12B76A] hover:bg-[#0e9d5a] text-white"
+                    disabled={!!queryError}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      queryError
+                        ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                        : 'bg-[#12B76A] hover:bg-[#0e9d5a] text-white'
+                    }`}
                   >
                     Search
                   </button>
                 </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Comma-separated keywords
-                </p>
+                {queryError ? (
+                  <div className="mt-1 text-xs">
+                    <div className="font-mono text-gray-300 break-all">
+                      {localKeywords.slice(0, queryError.position)}
+                      <span className="bg-red-600 text-white">{localKeywords[queryError.position] ?? ' '}</span>
+                      {localKeywords.slice(queryError.position + 1)}
+                    </div>
+                    <p className="text-red-400 mt-1">⚠️ {queryError.message}</p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Comma-separated keywords, or a query: "qualified dividend" AND chapter:1 AND NOT type:entity.
+                    Fields: text, definition, label, section, chapter, part, title, type; * and ? wildcards; ( ) grouping.
+                  </p>
+                )}
               </form>
             </>
           )}
@@ -735,6 +1113,89 @@ if (!localKeywords.trim()) {
           </div>
         )}
 
+        {/* Communities (tag clusters) */}
+        {stats && (
+          <div className="p-4 border-b border-gray-700">
+            <button
+              onClick={() => {
+                setClustersExpanded(!clustersExpanded);
+                onClustersExpandedChange?.(!clustersExpanded);
+              }}
+              className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+            >
+              <span>Communities</span>
+              <span className="text-sm">{clustersExpanded ? '▼' : '▶'}</span>
+            </button>
+            {clustersExpanded && communitiesLoading && (
+              <p className="text-sm text-gray-400">Detecting communities…</p>
+            )}
+            {clustersExpanded && !communitiesLoading && tagClusters.length === 0 && (
+              <p className="text-sm text-gray-400">No communities found in this graph.</p>
+            )}
+            {clustersExpanded && tagClusters.length > 0 && (
+              <>
+                {onColorByCommunityChange && (
+                  <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer mb-3">
+                    <input
+                      type="checkbox"
+                      checked={colorByCommunity}
+                      onChange={(e) => onColorByCommunityChange(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Color nodes by community
+                  </label>
+                )}
+                <div className="flex gap-1.5 mb-3">
+                  <button
+                    onClick={() => {
+                      tagClusters.forEach(cluster => {
+                        if (enabledClusterIds.has(cluster.id)) {
+                          onToggleCluster(cluster.id);
+                        }
+                      });
+                    }}
+                    className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+                    style={{ fontSize: '9px' }}
+                  >
+                    Show all
+                  </button>
+                  <span className="text-xs text-gray-500">
+                    {enabledClusterIds.size === 0
+                      ? 'No community filter'
+                      : `Showing ${enabledClusterIds.size} of ${tagClusters.length}`}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {tagClusters.map((cluster) => {
+                    const isEnabled = enabledClusterIds.has(cluster.id);
+                    return (
+                      <button
+                        key={cluster.id}
+                        onClick={() => onToggleCluster(cluster.id)}
+                        title={cluster.exemplars.join('\n')}
+                        className={`w-full flex justify-between items-center gap-2 rounded px-3 py-2 text-sm transition-colors ${
+                          isEnabled
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: cluster.color }}
+                          />
+                          <span className="truncate text-left">{cluster.name}</span>
+                        </span>
+                        <span className="font-mono text-xs">{cluster.size.toLocaleString()}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Relationship filters */}
         {stats && (
           <div className="p-4 border-b border-gray-700">
@@ -808,6 +1269,187 @@ if (!localKeywords.trim()) {
           </div>
         )}
 
+        {/* Path finder */}
+        {onFindPaths && onClearPaths && (
+          <div className="p-4 border-b border-gray-700">
+            <button
+              onClick={() => setPathFinderExpanded(!pathFinderExpanded)}
+              className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+            >
+              <span>Path finder</span>
+              <span className="text-sm">{pathFinderExpanded ? '▼' : '▶'}</span>
+            </button>
+            {pathFinderExpanded && (
+              <PathFinder
+                graphTitle={graphTitle}
+                timeScope={timeScope}
+                activeQuery={pathQuery}
+                pathCount={pathCount}
+                onFindPaths={onFindPaths}
+                onClearPaths={onClearPaths}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Hierarchy browser */}
+        {onBranchSelect && (
+          <div className="p-4 border-b border-gray-700">
+            <button
+              onClick={() => setHierarchyExpanded(!hierarchyExpanded)}
+              className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+            >
+              <span>Hierarchy</span>
+              <span className="text-sm">{hierarchyExpanded ? '▼' : '▶'}</span>
+            </button>
+            {hierarchyExpanded && (
+              <HierarchyBrowser
+                graphTitle={graphTitle}
+                timeScope={timeScope}
+                selectedNodeId={selectedNode?.id ?? null}
+                onNodeSelect={onNodeSelect}
+                onBranchSelect={onBranchSelect}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Defined terms */}
+        <div className="p-4 border-b border-gray-700">
+          <button
+            onClick={() => setDefinitionsExpanded(!definitionsExpanded)}
+            className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+          >
+            <span>Definitions</span>
+            <span className="text-sm">{definitionsExpanded ? '▼' : '▶'}</span>
+          </button>
+          {definitionsExpanded && (
+            <DefinitionsPanel
+              graphTitle={graphTitle}
+              timeScope={timeScope}
+              availableTimeScopes={availableTimeScopes}
+              onSelectNode={onNodeSelect}
+              onOpenDocument={onOpenDocument}
+            />
+          )}
+        </div>
+
+        {/* Network metrics */}
+        {onMetricsEnabledChange && (
+          <div className="p-4 border-b border-gray-700">
+            <button
+              onClick={() => setMetricsExpanded(!metricsExpanded)}
+              className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+            >
+              <span>Network metrics</span>
+              <span className="text-sm">{metricsExpanded ? '▼' : '▶'}</span>
+            </button>
+            {metricsExpanded && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={metricsEnabled}
+                    onChange={(e) => onMetricsEnabledChange(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Compute centrality metrics
+                </label>
+
+                <div className="space-y-1">
+                  <label className="flex items-center text-xs text-gray-300">
+                    <input
+                      type="radio"
+                      name="metricsScope"
+                      checked={metricsScope === 'display'}
+                      onChange={() => onMetricsScopeChange?.('display')}
+                      className="mr-2"
+                    />
+                    Displayed graph
+                  </label>
+                  <label className="flex items-center text-xs text-gray-300">
+                    <input
+                      type="radio"
+                      name="metricsScope"
+                      checked={metricsScope === 'full'}
+                      onChange={() => onMetricsScopeChange?.('full')}
+                      className="mr-2"
+                    />
+                    Full {timeScope} graph
+                  </label>
+                </div>
+
+                {metricsEnabled && metricsStatus && (
+                  <div className="text-xs bg-gray-900 rounded p-2">
+                    {metricsStatus.error ? (
+                      <span className="text-red-400">{metricsStatus.error}</span>
+                    ) : metricsStatus.computing ? (
+                      <span className="text-blue-400">Computing metrics for {metricsStatus.nodeCount.toLocaleString()} nodes…</span>
+                    ) : (
+                      <span className="text-gray-400">
+                        Computed for {metricsStatus.nodeCount.toLocaleString()} nodes
+                        {metricsStatus.approximate && (
+                          <span className="text-yellow-400"> (betweenness/closeness sampled)</span>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Size nodes by:</label>
+                  <select
+                    value={sizeMetric}
+                    onChange={(e) => onSizeMetricChange?.(e.target.value as MetricKey)}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-blue-500"
+                  >
+                    {METRIC_DEFINITIONS.map((m) => (
+                      <option key={m.key} value={m.key} disabled={m.key !== 'degree' && !metricsEnabled}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Saved workspaces */}
+        {captureWorkspace && onApplyWorkspace && (
+          <div className="p-4 border-b border-gray-700">
+            <button
+              onClick={() => setWorkspacesExpanded(!workspacesExpanded)}
+              className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+            >
+              <span>Workspaces</span>
+              <span className="text-sm">{workspacesExpanded ? '▼' : '▶'}</span>
+            </button>
+            {workspacesExpanded && (
+              <WorkspaceManager captureSnapshot={captureWorkspace} onOpen={onApplyWorkspace} />
+            )}
+          </div>
+        )}
+
+        {/* Graph cache */}
+        <div className="p-4 border-b border-gray-700">
+          <button
+            onClick={() => setCacheExpanded(!cacheExpanded)}
+            className="w-full flex items-center justify-between text-base font-semibold mb-3 text-white hover:text-blue-400 transition-colors"
+          >
+            <span>Cache</span>
+            <span className="text-sm">{cacheExpanded ? '▼' : '▶'}</span>
+          </button>
+          {cacheExpanded && (
+            <CachePanel
+              manifest={manifest}
+              selectedTitle={selectedTitle}
+              graphTitle={graphTitle}
+              timeScope={timeScope}
+            />
+          )}
+        </div>
+
         {/* Export */}
         <div className="p-4 border-b border-gray-700">
           <button
@@ -824,9 +1466,11 @@ if (!localKeywords.trim()) {
               timeScope={timeScope}
               selectedTitle={selectedTitle}
               selectedNode={selectedNode}
+              diffBaseScope={diffBaseScope}
               filterTypes={Array.from(enabledNodeTypes)}
               searchTerm={buildMode === 'bottomUp' ? (bottomUpSearchKeywords || '') : keywords}
               svgElement={networkGraphRef?.current?.getSvgElement() || null}
+              getCanvasElement={() => networkGraphRef?.current?.getCanvasElement() ?? null}
               displayGraphInfo={displayGraphInfo || topDownGraphInfo}
             />
           )}
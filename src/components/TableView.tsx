@@ -14,12 +14,21 @@ type SortKey =
   | 'id' | 'name' | 'node_type' | 'time' | 'usc_title'
   | 'title' | 'subtitle' | 'chapter' | 'subchapter' | 'part'
   | 'section' | 'subsection' | 'display_label' | 'index_heading'
-  | 'degree' | 'definition' | 'text';
+  | 'degree' | 'definition' | 'text' | 'change_status'
+  | 'betweenness_centrality' | 'closeness_centrality' | 'eigenvector_centrality'
+  | 'pagerank' | 'clustering_coefficient';
 
 type SortDir = 'asc' | 'desc';
 
 const PAGE_SIZE = 1000;
 
+const CHANGE_STATUS_COLORS: Record<string, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#f59e0b',
+  unchanged: '#9ca3af',
+};
+
 const ALL_COLUMNS: { key: SortKey; label: string; defaultVisible: boolean }[] = [
   { key: 'display_label', label: 'Label',             defaultVisible: true  },
   { key: 'usc_title',     label: 'USC Title',          defaultVisible: true  },
@@ -38,8 +47,23 @@ const ALL_COLUMNS: { key: SortKey; label: string; defaultVisible: boolean }[] =
   { key: 'text',          label: 'Full Text',          defaultVisible: false },
   { key: 'id',            label: 'ID',                 defaultVisible: false },
   { key: 'name',          label: 'Name',               defaultVisible: false },
+  { key: 'change_status', label: 'Change Status',      defaultVisible: false },
+  { key: 'betweenness_centrality', label: 'Betweenness', defaultVisible: false },
+  { key: 'closeness_centrality',   label: 'Closeness',   defaultVisible: false },
+  { key: 'eigenvector_centrality', label: 'Eigenvector', defaultVisible: false },
+  { key: 'pagerank',               label: 'PageRank',    defaultVisible: false },
+  { key: 'clustering_coefficient', label: 'Clustering',  defaultVisible: false },
 ];
 
+// Filled in by the metrics engine (services/graphMetrics.ts)
+const METRIC_COLUMNS = new Set<SortKey>([
+  'betweenness_centrality',
+  'closeness_centrality',
+  'eigenvector_centrality',
+  'pagerank',
+  'clustering_coefficient',
+]);
+
 function getCellValue(
   node: GraphNode,
   key: SortKey,
@@ -84,10 +108,22 @@ function renderCell(
     <span style={{ color: '#ffffff' }}>{String(val)}</span>
   );
 
+  if (METRIC_COLUMNS.has(key)) return (
+    <span style={{ color: '#ffffff', fontFamily: 'monospace' }}>
+      {typeof val === 'number' ? val.toPrecision(4) : String(val)}
+    </span>
+  );
+
   if (key === 'node_type') return (
     <span style={{ color: '#ffffff' }}>{String(val)}</span>
   );
 
+  if (key === 'change_status') return (
+    <span style={{ color: CHANGE_STATUS_COLORS[String(val)] || '#ffffff', textTransform: 'capitalize' }}>
+      {String(val)}
+    </span>
+  );
+
   if (key === 'definition' || key === 'text') return (
     <span style={{
       fontSize: '0.75rem',
@@ -107,9 +143,16 @@ export default function TableView({ nodes, links, selectedNodeId, onNodeClick }:
   const [sortKey, setSortKey]           = useState<SortKey>('degree');
   const [sortDir, setSortDir]           = useState<SortDir>('desc');
   const [globalFilter, setGlobalFilter] = useState('');
-  const [visibleCols, setVisibleCols]   = useState<Set<SortKey>>(
-    new Set(ALL_COLUMNS.filter((c) => c.defaultVisible).map((c) => c.key))
-  );
+  const [visibleCols, setVisibleCols]   = useState<Set<SortKey>>(() => {
+    const cols = new Set(ALL_COLUMNS.filter((c) => c.defaultVisible).map((c) => c.key));
+    // Diff tables open with the change column showing
+    if (nodes.some((n) => n.change_status)) cols.add('change_status');
+    if (nodes.some((n) => typeof n.pagerank === 'number')) {
+      cols.add('betweenness_centrality');
+      cols.add('pagerank');
+    }
+    return cols;
+  });
   const [showColPicker, setShowColPicker] = useState(false);
   const [colFilters, setColFilters]     = useState<Partial<Record<SortKey, string>>>({});
   const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
@@ -142,9 +185,11 @@ export default function TableView({ nodes, links, selectedNodeId, onNodeClick }:
     Object.entries(colFilters).forEach(([key, val]) => {
       if (!val?.trim()) return;
       const q = val.toLowerCase();
-      filtered = filtered.filter((n) =>
-        String(getCellValue(n, key as SortKey, degreeMap)).toLowerCase().includes(q)
-      );
+      filtered = key === 'change_status'
+        ? filtered.filter((n) => n.change_status === val)
+        : filtered.filter((n) =>
+            String(getCellValue(n, key as SortKey, degreeMap)).toLowerCase().includes(q)
+          );
     });
 
     return [...filtered].sort((a, b) => {
@@ -153,6 +198,10 @@ export default function TableView({ nodes, links, selectedNodeId, onNodeClick }:
       if (typeof valA === 'number' && typeof valB === 'number') {
         return sortDir === 'asc' ? valA - valB : valB - valA;
       }
+      // Nodes without computed metrics sort last either way
+      if (METRIC_COLUMNS.has(sortKey) && typeof valA !== typeof valB) {
+        return typeof valA === 'number' ? -1 : 1;
+      }
       return sortDir === 'asc'
         ? String(valA).localeCompare(String(valB))
         : String(valB).localeCompare(String(valA));
@@ -254,6 +303,33 @@ export default function TableView({ nodes, links, selectedNodeId, onNodeClick }:
             <tr style={{ backgroundColor: '#1f2937' }}>
               {activeCols.map((col) => (
                 <th key={col.key} style={{ padding: '4px 8px' }}>
+                  {col.key === 'change_status' ? (
+                    <select
+                      value={colFilters.change_status || ''}
+                      onChange={(e) => {
+                        setColFilters((prev) => ({ ...prev, change_status: e.target.value }));
+                        resetPagination();
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      style={{
+                        width: '100%',
+                        backgroundColor: '#374151',
+                        border: '1px solid #4b5563',
+                        borderRadius: '4px',
+                        padding: '2px 8px',
+                        fontSize: '0.75rem',
+                        color: 'white',
+                        outline: 'none',
+                        fontWeight: 'normal',
+                      }}
+                    >
+                      <option value="">All</option>
+                      <option value="added">Added</option>
+                      <option value="removed">Removed</option>
+                      <option value="changed">Changed</option>
+                      <option value="unchanged">Unchanged</option>
+                    </select>
+                  ) : (
                   <input
                     type="text"
                     placeholder="Filter..."
@@ -275,6 +351,7 @@ export default function TableView({ nodes, links, selectedNodeId, onNodeClick }:
                       fontWeight: 'normal',
                     }}
                   />
+                  )}
                 </th>
               ))}
             </tr>
@@ -0,0 +1,269 @@
+// src/components/WorkspaceManager.tsx
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  listWorkspaces,
+  saveWorkspace,
+  createWorkspace,
+  duplicateWorkspace,
+  deleteWorkspace,
+  importWorkspaces,
+  workspacesToJson,
+} from '../services/workspaceStore';
+import type { WorkspaceSnapshot } from '../services/workspaceStore';
+import { downloadFile } from '../utils/exportUtils';
+import type { Workspace } from '../types';
+
+interface WorkspaceManagerProps {
+  captureSnapshot: () => WorkspaceSnapshot;
+  onOpen: (workspace: Workspace) => void;
+}
+
+const fileSafe = (name: string) => name.replace(/[^a-z0-9-_]+/gi, '_').slice(0, 60) || 'workspace';
+
+export default function WorkspaceManager({ captureSnapshot, onOpen }: WorkspaceManagerProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newNotes, setNewNotes] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = useCallback(
+    () =>
+      listWorkspaces().then(
+        (list) => {
+          setWorkspaces(list);
+          setError(null);
+        },
+        (err) => {
+          console.error('Failed to load workspaces:', err);
+          setError('Saved workspaces are unavailable in this browser.');
+        }
+      ),
+    []
+  );
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Runs a store operation, then refreshes the list
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      alert(`❌ ${failure}${err instanceof Error ? `: ${err.message}` : ''}`);
+    }
+    await reload();
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      const created = await createWorkspace(name, newNotes.trim(), captureSnapshot());
+      setExpandedId(created.id);
+      setNewName('');
+      setNewNotes('');
+    }, 'Failed to save workspace');
+  };
+
+  const handleRename = (ws: Workspace) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name || name === ws.name) return;
+    run(() => saveWorkspace({ ...ws, name }), 'Failed to rename workspace');
+  };
+
+  const handleImport = async (file: File) => {
+    const text = await file.text();
+    run(async () => {
+      const imported = await importWorkspaces(text);
+      alert(`✅ Imported ${imported.length} workspace${imported.length !== 1 ? 's' : ''}.`);
+    }, 'Import failed');
+  };
+
+  const exportWorkspaces = (list: Workspace[], filename: string) => {
+    downloadFile(workspacesToJson(list), filename, 'application/json');
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Save current view */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Workspace name"
+          className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+        />
+        <textarea
+          value={newNotes}
+          onChange={(e) => setNewNotes(e.target.value)}
+          placeholder="Notes (optional)"
+          rows={2}
+          className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!newName.trim()}
+          className={`w-full px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+            newName.trim() ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          💾 Save current view
+        </button>
+      </div>
+
+      {/* Import / export all */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+        >
+          Import JSON
+        </button>
+        <button
+          onClick={() => workspaces && exportWorkspaces(workspaces, 'workspaces.json')}
+          disabled={!workspaces || workspaces.length === 0}
+          className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export all
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Saved workspaces */}
+      {workspaces === null && !error ? (
+        <p className="text-xs text-gray-500">Loading workspaces…</p>
+      ) : workspaces && workspaces.length === 0 ? (
+        <p className="text-xs text-gray-500">No saved workspaces yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {workspaces?.map((ws) => {
+            const isExpanded = expandedId === ws.id;
+            return (
+              <div key={ws.id} className="bg-gray-900/50 border border-gray-700 rounded">
+                <div className="flex items-center gap-2 px-2 py-1.5">
+                  {renamingId === ws.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => handleRename(ws)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(ws);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-100 focus:outline-none focus:border-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : ws.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="text-sm text-white truncate">{ws.name}</div>
+                      <div className="text-[10px] text-gray-500">
+                        Title {ws.titles.join(' + ')} · {ws.timeScope} ·{' '}
+                        {ws.buildMode === 'bottomUp' ? 'search' : 'overview'} ·{' '}
+                        {new Date(ws.updatedAt).toLocaleDateString()}
+                      </div>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onOpen(ws)}
+                    className="px-2 py-0.5 rounded text-xs bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                  >
+                    Open
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-2 pb-2 space-y-2">
+                    <textarea
+                      defaultValue={ws.notes}
+                      onBlur={(e) => {
+                        if (e.target.value !== ws.notes) {
+                          run(() => saveWorkspace({ ...ws, notes: e.target.value }), 'Failed to save notes');
+                        }
+                      }}
+                      placeholder="Notes"
+                      rows={3}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+                    />
+                    <div className="text-[10px] text-gray-500">
+                      {Object.keys(ws.pinnedPositions).length} pinned node
+                      {Object.keys(ws.pinnedPositions).length !== 1 ? 's' : ''}
+                      {ws.builderState && ws.builderState.searchTerms.length > 0 && (
+                        <> · search: “{ws.builderState.searchTerms.join(', ')}”</>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      <button
+                        onClick={() =>
+                          run(() => saveWorkspace({ ...ws, ...captureSnapshot() }), 'Failed to update workspace')
+                        }
+                        className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      >
+                        Update to current
+                      </button>
+                      <button
+                        onClick={() => {
+                          setRenamingId(ws.id);
+                          setRenameValue(ws.name);
+                        }}
+                        className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => run(() => duplicateWorkspace(ws), 'Failed to duplicate workspace')}
+                        className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => exportWorkspaces([ws], `workspace_${fileSafe(ws.name)}.json`)}
+                        className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      >
+                        Export
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Delete workspace "${ws.name}"?`)) {
+                            run(() => deleteWorkspace(ws.id), 'Failed to delete workspace');
+                          }
+                        }}
+                        className="px-2 py-0.5 rounded text-xs bg-red-900/60 hover:bg-red-800 text-red-200"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
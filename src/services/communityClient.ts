@@ -0,0 +1,48 @@
+// src/services/communityClient.ts
+
+import type { GraphData } from '../types';
+import { toCommunityGraph } from './communityDetection';
+import type { CommunityResult } from './communityDetection';
+
+/**
+ * Detects communities in `graph` in a dedicated worker, keeping Louvain off
+ * the main thread. Aborting `signal` terminates the worker and rejects with
+ * an AbortError.
+ */
+export function detectCommunitiesInWorker(graph: GraphData, signal?: AbortSignal): Promise<CommunityResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Community detection aborted', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/communities.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Community detection aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<{ type: 'result'; result: CommunityResult } | { type: 'error'; message: string }>) => {
+      cleanup();
+      if (event.data.type === 'error') {
+        reject(new Error(event.data.message));
+        return;
+      }
+      resolve(event.data.result);
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Community detection worker failed'));
+    };
+
+    worker.postMessage(toCommunityGraph(graph));
+  });
+}
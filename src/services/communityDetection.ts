@@ -0,0 +1,322 @@
+// src/services/communityDetection.ts
+
+import * as d3 from 'd3';
+import type { GraphData, GraphLink, GraphNode, TagCluster } from '../types';
+import { isIndexNode } from '../utils/graphNodes';
+
+export interface CommunityResult {
+  clusters: TagCluster[];
+  assignments: Map<string, number>;   // node ID → TagCluster.id
+}
+
+// The node and link fields detection reads, all that is copied to the worker
+type CommunityNode = Pick<GraphNode, 'id' | 'name' | 'display_label' | 'node_type' | 'chapter' | 'subchapter'>;
+
+export interface CommunityGraph {
+  nodes: CommunityNode[];
+  links: { source: string; target: string; edge_type: GraphLink['edge_type']; weight?: number }[];
+}
+
+export function toCommunityGraph(graph: GraphData): CommunityGraph {
+  return {
+    nodes: graph.nodes.map(({ id, name, display_label, node_type, chapter, subchapter }) => ({
+      id,
+      name,
+      display_label,
+      node_type,
+      chapter,
+      subchapter,
+    })),
+    links: graph.links.map((l) => ({
+      source: typeof l.source === 'string' ? l.source : l.source.id,
+      target: typeof l.target === 'string' ? l.target : l.target.id,
+      edge_type: l.edge_type,
+      weight: l.weight,
+    })),
+  };
+}
+
+// Largest communities get their own cluster; the rest share one "other" cluster
+const MAX_CLUSTERS = 24;
+const MIN_CLUSTER_SIZE = 3;
+const MAX_LOCAL_PASSES = 10;
+
+const CLUSTER_PALETTE = [...d3.schemeTableau10, ...d3.schemeSet3, ...d3.schemePastel1];
+const OTHER_CLUSTER_COLOR = '#6b7280';
+
+// ==============================
+// Louvain (modularity maximization)
+// ==============================
+interface WeightedEdges {
+  a: number[];
+  b: number[];
+  w: number[];
+}
+
+function buildWeightedAdjacency(n: number, edges: WeightedEdges) {
+  const offsets = new Int32Array(n + 1);
+  for (let i = 0; i < edges.a.length; i++) {
+    offsets[edges.a[i] + 1]++;
+    offsets[edges.b[i] + 1]++;
+  }
+  for (let i = 0; i < n; i++) offsets[i + 1] += offsets[i];
+
+  const neighbors = new Int32Array(offsets[n]);
+  const weights = new Float64Array(offsets[n]);
+  const cursor = offsets.slice(0, n);
+  for (let i = 0; i < edges.a.length; i++) {
+    const a = edges.a[i];
+    const b = edges.b[i];
+    const w = edges.w[i];
+    neighbors[cursor[a]] = b;
+    weights[cursor[a]++] = w;
+    neighbors[cursor[b]] = a;
+    weights[cursor[b]++] = w;
+  }
+
+  return { offsets, neighbors, weights };
+}
+
+/**
+ * Multi-level Louvain over an undirected weighted graph.
+ * Returns a community index per node (0..k-1). Deterministic: nodes are
+ * visited in index order.
+ */
+export function louvain(nodeCount: number, edges: WeightedEdges): Int32Array {
+  const membership = Int32Array.from({ length: nodeCount }, (_, i) => i);
+  let n = nodeCount;
+  let levelEdges = edges;
+  let selfLoops = new Float64Array(n);
+
+  for (;;) {
+    const adj = buildWeightedAdjacency(n, levelEdges);
+
+    const degree = new Float64Array(n);
+    let totalWeight = 0;
+    for (let v = 0; v < n; v++) {
+      let k = 2 * selfLoops[v];
+      for (let e = adj.offsets[v]; e < adj.offsets[v + 1]; e++) k += adj.weights[e];
+      degree[v] = k;
+      totalWeight += k;
+    }
+    if (totalWeight === 0) break;
+
+    const community = Int32Array.from({ length: n }, (_, i) => i);
+    const communityTotal = Float64Array.from(degree);
+    const linkWeight = new Float64Array(n);
+    const touched: number[] = [];
+
+    let movedAny = false;
+    for (let pass = 0; pass < MAX_LOCAL_PASSES; pass++) {
+      let moved = 0;
+
+      for (let v = 0; v < n; v++) {
+        const current = community[v];
+
+        for (let e = adj.offsets[v]; e < adj.offsets[v + 1]; e++) {
+          const c = community[adj.neighbors[e]];
+          if (linkWeight[c] === 0) touched.push(c);
+          linkWeight[c] += adj.weights[e];
+        }
+
+        communityTotal[current] -= degree[v];
+        let best = current;
+        let bestGain = linkWeight[current] - (communityTotal[current] * degree[v]) / totalWeight;
+
+        for (const c of touched) {
+          const gain = linkWeight[c] - (communityTotal[c] * degree[v]) / totalWeight;
+          if (gain > bestGain + 1e-12) {
+            bestGain = gain;
+            best = c;
+          }
+        }
+
+        communityTotal[best] += degree[v];
+        if (best !== current) {
+          community[v] = best;
+          moved++;
+        }
+
+        for (const c of touched) linkWeight[c] = 0;
+        linkWeight[current] = 0;
+        touched.length = 0;
+      }
+
+      if (moved === 0) break;
+      movedAny = true;
+    }
+
+    if (!movedAny) break;
+
+    // Renumber and collapse each community into a single node
+    const renumber = new Int32Array(n).fill(-1);
+    let next = 0;
+    for (let v = 0; v < n; v++) {
+      if (renumber[community[v]] === -1) renumber[community[v]] = next++;
+    }
+    for (let i = 0; i < nodeCount; i++) membership[i] = renumber[community[membership[i]]];
+
+    const nextSelfLoops = new Float64Array(next);
+    const merged = new Map<number, number>();
+    for (let v = 0; v < n; v++) nextSelfLoops[renumber[community[v]]] += selfLoops[v];
+    for (let i = 0; i < levelEdges.a.length; i++) {
+      const ca = renumber[community[levelEdges.a[i]]];
+      const cb = renumber[community[levelEdges.b[i]]];
+      if (ca === cb) {
+        nextSelfLoops[ca] += levelEdges.w[i];
+      } else {
+        const key = Math.min(ca, cb) * next + Math.max(ca, cb);
+        merged.set(key, (merged.get(key) || 0) + levelEdges.w[i]);
+      }
+    }
+
+    const nextEdges: WeightedEdges = { a: [], b: [], w: [] };
+    merged.forEach((w, key) => {
+      nextEdges.a.push(Math.floor(key / next));
+      nextEdges.b.push(key % next);
+      nextEdges.w.push(w);
+    });
+
+    n = next;
+    levelEdges = nextEdges;
+    selfLoops = nextSelfLoops;
+  }
+
+  return membership;
+}
+
+// ==============================
+// Cluster labels
+// ==============================
+const mostCommon = (values: (string | null | undefined)[]): { value: string; share: number } | null => {
+  const counts = new Map<string, number>();
+  let total = 0;
+  values.forEach((v) => {
+    if (!v || !v.trim()) return;
+    total++;
+    counts.set(v, (counts.get(v) || 0) + 1);
+  });
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best ? { value: best, share: bestCount / Math.max(total, 1) } : null;
+};
+
+const shorten = (text: string, max = 48) =>
+  text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+/**
+ * Names a community after its dominant subchapter or chapter when most of its
+ * sections share one, otherwise after its best connected concepts/entities.
+ */
+function clusterLabel(members: CommunityNode[], degree: Map<string, number>): string {
+  const sections = members.filter(isIndexNode);
+
+  if (sections.length > 0) {
+    const subchapter = mostCommon(sections.map((n) => n.subchapter));
+    if (subchapter && subchapter.share >= 0.6) return shorten(subchapter.value);
+
+    const chapter = mostCommon(sections.map((n) => n.chapter));
+    if (chapter && chapter.share >= 0.4) return shorten(chapter.value);
+  }
+
+  const byDegree = (a: CommunityNode, b: CommunityNode) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0);
+  const terms = members.filter((n) => n.node_type === 'concept' || n.node_type === 'entity').sort(byDegree);
+  const pool = terms.length > 0 ? terms : [...members].sort(byDegree);
+
+  return shorten(
+    pool
+      .slice(0, 3)
+      .map((n) => n.display_label || n.name)
+      .join(', ')
+  );
+}
+
+/**
+ * Detects communities in a (scoped) graph and turns them into TagClusters.
+ * Hierarchy edges are ignored when other edges exist, otherwise every
+ * community would simply be a chapter of the code.
+ */
+export function detectCommunities(graph: CommunityGraph): CommunityResult {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i] as const));
+  const hasContentEdges = graph.links.some((l) => l.edge_type !== 'hierarchy');
+
+  const weights = new Map<number, number>();
+  const degree = new Map<string, number>();
+  const n = graph.nodes.length;
+
+  graph.links.forEach((l) => {
+    if (hasContentEdges && l.edge_type === 'hierarchy') return;
+    const sourceId = l.source;
+    const targetId = l.target;
+    const a = index.get(sourceId);
+    const b = index.get(targetId);
+    if (a === undefined || b === undefined || a === b) return;
+
+    const key = Math.min(a, b) * n + Math.max(a, b);
+    weights.set(key, (weights.get(key) || 0) + (l.weight ?? 1));
+    degree.set(sourceId, (degree.get(sourceId) || 0) + 1);
+    degree.set(targetId, (degree.get(targetId) || 0) + 1);
+  });
+
+  const edges: WeightedEdges = { a: [], b: [], w: [] };
+  weights.forEach((w, key) => {
+    edges.a.push(Math.floor(key / n));
+    edges.b.push(key % n);
+    edges.w.push(w);
+  });
+
+  const membership = louvain(n, edges);
+
+  const groups = new Map<number, CommunityNode[]>();
+  graph.nodes.forEach((node, i) => {
+    const list = groups.get(membership[i]);
+    if (list) list.push(node);
+    else groups.set(membership[i], [node]);
+  });
+
+  const ranked = Array.from(groups.values())
+    .filter((members) => members.length >= MIN_CLUSTER_SIZE)
+    .sort((a, b) => b.length - a.length);
+
+  const clusters: TagCluster[] = [];
+  const assignments = new Map<string, number>();
+
+  ranked.slice(0, MAX_CLUSTERS).forEach((members, id) => {
+    const exemplars = [...members]
+      .sort((a, b) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0))
+      .slice(0, 5)
+      .map((m) => m.display_label || m.name);
+
+    clusters.push({
+      id,
+      name: clusterLabel(members, degree),
+      size: members.length,
+      color: CLUSTER_PALETTE[id % CLUSTER_PALETTE.length],
+      exemplars,
+    });
+    members.forEach((m) => assignments.set(m.id, id));
+  });
+
+  const otherId = clusters.length;
+  const otherCount = graph.nodes.filter((node) => !assignments.has(node.id)).length;
+  if (otherCount > 0) {
+    graph.nodes.forEach((node) => {
+      if (!assignments.has(node.id)) assignments.set(node.id, otherId);
+    });
+    clusters.push({
+      id: otherId,
+      name: 'Other / isolated',
+      size: otherCount,
+      color: OTHER_CLUSTER_COLOR,
+      exemplars: [],
+    });
+  }
+
+  return { clusters, assignments };
+}
@@ -0,0 +1,144 @@
+// src/services/definitions.ts
+
+import type { GraphNode, GraphLink } from '../types';
+import { isIndexNode, endpointId } from '../utils/graphNodes';
+
+// How far a definition reaches, from "For purposes of this chapter" and the like
+export type DefinitionScopeLevel =
+  | 'title'
+  | 'subtitle'
+  | 'chapter'
+  | 'subchapter'
+  | 'part'
+  | 'subpart'
+  | 'section'
+  | 'subsection'
+  | 'paragraph';
+
+export interface DefinitionScope {
+  level: DefinitionScopeLevel;
+  label: string;            // "Title 26", "CHAPTER 1—NORMAL TAXES…", "§ 1411"
+  explicit: boolean;        // False when no scope phrase was found and the defining section is assumed
+}
+
+export interface TermDefinition {
+  section: GraphNode;       // Index node the definition edge connects the term to
+  text: string | null;
+  scope: DefinitionScope;
+}
+
+export interface DefinedTerm {
+  term: GraphNode;
+  definitions: TermDefinition[];
+  referencedBy: GraphNode[];          // Index nodes with a reference edge to or from the term
+  conflictingChapters: string[];      // Chapters defining the term differently; empty when consistent
+}
+
+const SCOPE_PATTERN =
+  /\b(?:(?:for|in)\s+(?:the\s+)?purposes?\s+of|(?:when|as)\s+used\s+in)\s+(?:this|such)\s+(title|subtitle|chapter|subchapter|part|subpart|section|subsection|paragraph)\b/i;
+
+// Only the opening of a section is searched for a scope phrase
+const SECTION_SCOPE_WINDOW = 600;
+
+const nodeLabel = (n: GraphNode) => n.display_label || n.section || n.name || n.id;
+
+// Case, whitespace and punctuation differences don't make definitions differ
+export function normalizeDefinition(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Scope of a definition: the hierarchy level named by a "For purposes of
+ * this …" phrase in the definition or at the start of the defining section,
+ * otherwise the defining section itself.
+ */
+export function definitionScope(section: GraphNode, text: string | null): DefinitionScope {
+  const sectionText = (section.properties?.text ?? section.text ?? '').slice(0, SECTION_SCOPE_WINDOW);
+  const match = (text && SCOPE_PATTERN.exec(text)) || SCOPE_PATTERN.exec(sectionText);
+  const level = (match?.[1].toLowerCase() ?? 'section') as DefinitionScopeLevel;
+
+  let label: string;
+  if (level === 'title') {
+    const title = section.usc_title ?? section.source_title;
+    label = title ? `Title ${title.replace(/^0+/, '')}` : 'Whole title';
+  } else if (level === 'section') {
+    label = section.section ?? nodeLabel(section);
+  } else {
+    label = section[level] ?? `This ${level}`;
+  }
+
+  return { level, label, explicit: !!match };
+}
+
+/**
+ * Every entity or concept with at least one definition edge, with the
+ * sections defining it and the sections referencing it. Edges count in
+ * either direction, since only the node types tell term from section.
+ */
+export function collectDefinedTerms(graph: { nodes: GraphNode[]; links: GraphLink[] }): DefinedTerm[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const definitions = new Map<string, TermDefinition[]>();
+  const references = new Map<string, Map<string, GraphNode>>();
+
+  graph.links.forEach((link) => {
+    if (link.edge_type !== 'definition' && link.edge_type !== 'reference') return;
+    const source = byId.get(endpointId(link.source));
+    const target = byId.get(endpointId(link.target));
+    if (!source || !target || isIndexNode(source) === isIndexNode(target)) return;
+
+    const [term, section] = isIndexNode(source) ? [target, source] : [source, target];
+
+    if (link.edge_type === 'definition') {
+      const text = link.definition ?? term.properties?.definition ?? null;
+      const list = definitions.get(term.id) ?? [];
+      if (!list.some((d) => d.section.id === section.id && d.text === text)) {
+        list.push({ section, text, scope: definitionScope(section, text) });
+      }
+      definitions.set(term.id, list);
+    } else {
+      const sections = references.get(term.id) ?? new Map<string, GraphNode>();
+      sections.set(section.id, section);
+      references.set(term.id, sections);
+    }
+  });
+
+  return [...definitions]
+    .map(([termId, defs]) => ({
+      term: byId.get(termId)!,
+      definitions: defs,
+      referencedBy: [...(references.get(termId)?.values() ?? [])].sort((a, b) =>
+        nodeLabel(a).localeCompare(nodeLabel(b), undefined, { numeric: true })
+      ),
+      conflictingChapters: conflictingChapters(defs),
+    }))
+    .sort((a, b) => (a.term.name ?? a.term.id).localeCompare(b.term.name ?? b.term.id));
+}
+
+// Chapters whose definitions of a term disagree with another chapter's
+function conflictingChapters(definitions: TermDefinition[]): string[] {
+  const textsByChapter = new Map<string, Set<string>>();
+  definitions.forEach((d) => {
+    if (!d.text) return;
+    const chapter = d.section.chapter ?? 'No chapter';
+    const texts = textsByChapter.get(chapter) ?? new Set<string>();
+    texts.add(normalizeDefinition(d.text));
+    textsByChapter.set(chapter, texts);
+  });
+  if (textsByChapter.size < 2) return [];
+
+  const distinct = new Set([...textsByChapter.values()].flatMap((texts) => [...texts]));
+  return distinct.size > 1 ? [...textsByChapter.keys()].sort() : [];
+}
+
+/**
+ * One string per defined term standing for all its definition texts, so
+ * two time scopes can be compared without keeping either graph around.
+ */
+export function definitionSignatures(graph: { nodes: GraphNode[]; links: GraphLink[] }): Map<string, string> {
+  const signatures = new Map<string, string>();
+  collectDefinedTerms(graph).forEach(({ term, definitions }) => {
+    const texts = [...new Set(definitions.map((d) => (d.text ? normalizeDefinition(d.text) : '')))].sort();
+    signatures.set(term.id, texts.join('\u0000'));
+  });
+  return signatures;
+}
@@ -0,0 +1,270 @@
+// src/services/graphCache.ts
+
+import type { GraphData, GraphLink, TimeScope, TimelineIndexData } from '../types';
+import { endpointId } from '../utils/graphNodes';
+
+// ==============================
+// Memory tier: LRU over parsed graphs
+// ==============================
+// Sizes are the downloaded JSON bytes, a stand-in for the far harder to
+// measure heap footprint; the budget is compared against their sum.
+const BUDGET_STORAGE_KEY = 'graphCacheBudgetMB';
+
+export const MEMORY_BUDGET_OPTIONS_MB = [256, 512, 1024, 2048];
+const DEFAULT_MEMORY_BUDGET_MB = 512;
+
+export interface MemoryCacheEntry {
+  key: string;
+  bytes: number;
+}
+
+export class GraphLru {
+  private entries = new Map<string, { graph: GraphData; bytes: number }>();
+  private totalBytes = 0;
+  private budgetBytes: number;
+  // Told about every graph leaving the cache, so data derived from it can go too
+  private onEvict?: (key: string) => void;
+
+  constructor(budgetBytes: number, onEvict?: (key: string) => void) {
+    this.budgetBytes = budgetBytes;
+    this.onEvict = onEvict;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get budget(): number {
+    return this.budgetBytes;
+  }
+
+  // Marks the graph most recently used
+  get(key: string): GraphData | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.graph;
+  }
+
+  // Looks without touching recency, for background work like index building
+  peek(key: string): GraphData | undefined {
+    return this.entries.get(key)?.graph;
+  }
+
+  entryBytes(key: string): number {
+    return this.entries.get(key)?.bytes ?? 0;
+  }
+
+  set(key: string, graph: GraphData, bytes: number): void {
+    this.delete(key);
+    this.entries.set(key, { graph, bytes });
+    this.totalBytes += bytes;
+    this.evict(key);
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    this.onEvict?.(key);
+  }
+
+  // Drops everything except `keep`
+  clear(keep: string[] = []): void {
+    [...this.entries.keys()].forEach((key) => {
+      if (!keep.includes(key)) this.delete(key);
+    });
+  }
+
+  setBudget(budgetBytes: number): void {
+    this.budgetBytes = budgetBytes;
+    this.evict(null);
+  }
+
+  graphs(): GraphData[] {
+    return [...this.entries.values()].map((e) => e.graph);
+  }
+
+  // Most recently used first
+  list(): MemoryCacheEntry[] {
+    return [...this.entries].map(([key, e]) => ({ key, bytes: e.bytes })).reverse();
+  }
+
+  // Least recently used go first; the graph just added always stays
+  private evict(protectedKey: string | null): void {
+    for (const key of [...this.entries.keys()]) {
+      if (this.totalBytes <= this.budgetBytes) return;
+      if (key !== protectedKey) this.delete(key);
+    }
+  }
+}
+
+export function readMemoryBudgetMB(): number {
+  const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+  return MEMORY_BUDGET_OPTIONS_MB.includes(stored) ? stored : DEFAULT_MEMORY_BUDGET_MB;
+}
+
+export function writeMemoryBudgetMB(mb: number): void {
+  localStorage.setItem(BUDGET_STORAGE_KEY, String(mb));
+}
+
+// ==============================
+// Persistent tier: IndexedDB
+// ==============================
+// Graphs live in their own database so the workspace database keeps its version.
+// Metadata sits in a separate store so listing entries never reads a graph.
+// Version 2 adds timeline indexes built in the browser.
+const DB_NAME = 'us-code-network-explorer-graphs';
+const DB_VERSION = 2;
+const GRAPH_STORE = 'graphs';
+const ENTRY_STORE = 'entries';
+const TIMELINE_STORE = 'timelines';
+
+export interface StoredGraphEntry {
+  key: string;              // title::timeScope
+  title: string;
+  timeScope: TimeScope;
+  hash: string;             // Content hash from the manifest the graph was built from
+  bytes: number;
+  savedAt: string;
+}
+
+interface StoredGraph {
+  key: string;
+  graph: GraphData;
+  externalLinks: GraphLink[];
+}
+
+interface StoredTimelineIndex {
+  key: string;              // title::scope,scope,…
+  index: TimelineIndexData;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        [GRAPH_STORE, ENTRY_STORE, TIMELINE_STORE].forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'key' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open graph cache database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error ?? new Error('Graph cache transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Graph cache transaction aborted'));
+  });
+}
+
+/**
+ * The stored graph for title + timeScope, or null when there is none or it
+ * was built from different content than `hash` describes.
+ */
+export async function readStoredGraph(
+  key: string,
+  hash: string
+): Promise<{ graph: GraphData; externalLinks: GraphLink[]; bytes: number } | null> {
+  const entry = await transact([ENTRY_STORE], 'readonly', (tx) =>
+    tx.objectStore(ENTRY_STORE).get(key) as IDBRequest<StoredGraphEntry | undefined>
+  );
+  if (!entry || entry.hash !== hash) return null;
+
+  const stored = await transact([GRAPH_STORE], 'readonly', (tx) =>
+    tx.objectStore(GRAPH_STORE).get(key) as IDBRequest<StoredGraph | undefined>
+  );
+  return stored ? { graph: stored.graph, externalLinks: stored.externalLinks, bytes: entry.bytes } : null;
+}
+
+// Replaces whatever was stored for the same title + timeScope
+export async function storeGraph(
+  entry: Omit<StoredGraphEntry, 'savedAt'>,
+  graph: GraphData,
+  externalLinks: GraphLink[]
+): Promise<void> {
+  // Link endpoints go back to IDs in case the renderer already resolved them to nodes
+  const plain = (links: GraphLink[]) =>
+    links.map((l) => ({ ...l, source: endpointId(l.source), target: endpointId(l.target) }));
+
+  const record: StoredGraph = {
+    key: entry.key,
+    graph: { nodes: graph.nodes, links: plain(graph.links) },
+    externalLinks: plain(externalLinks),
+  };
+  await transact([GRAPH_STORE, ENTRY_STORE], 'readwrite', (tx) => {
+    tx.objectStore(GRAPH_STORE).put(record);
+    tx.objectStore(ENTRY_STORE).put({ ...entry, savedAt: new Date().toISOString() });
+  });
+}
+
+export async function listStoredGraphs(): Promise<StoredGraphEntry[]> {
+  const entries = await transact([ENTRY_STORE], 'readonly', (tx) =>
+    tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<StoredGraphEntry[]>
+  );
+  return (entries ?? []).sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+}
+
+export async function deleteStoredGraph(key: string): Promise<void> {
+  await transact([GRAPH_STORE, ENTRY_STORE], 'readwrite', (tx) => {
+    tx.objectStore(GRAPH_STORE).delete(key);
+    tx.objectStore(ENTRY_STORE).delete(key);
+  });
+}
+
+// Timeline indexes go too: they were built from the graphs being cleared
+export async function clearStoredGraphs(): Promise<void> {
+  await transact([GRAPH_STORE, ENTRY_STORE, TIMELINE_STORE], 'readwrite', (tx) => {
+    tx.objectStore(GRAPH_STORE).clear();
+    tx.objectStore(ENTRY_STORE).clear();
+    tx.objectStore(TIMELINE_STORE).clear();
+  });
+}
+
+// Callers check the index's scope hashes against the manifest before using it
+export async function readStoredTimelineIndex(key: string): Promise<TimelineIndexData | null> {
+  const stored = await transact([TIMELINE_STORE], 'readonly', (tx) =>
+    tx.objectStore(TIMELINE_STORE).get(key) as IDBRequest<StoredTimelineIndex | undefined>
+  );
+  return stored?.index ?? null;
+}
+
+export async function storeTimelineIndex(key: string, index: TimelineIndexData): Promise<void> {
+  const record: StoredTimelineIndex = { key, index };
+  await transact([TIMELINE_STORE], 'readwrite', (tx) => {
+    tx.objectStore(TIMELINE_STORE).put(record);
+  });
+}
+
+// Origin-wide usage and quota, when the browser reports them
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
@@ -0,0 +1,139 @@
+// src/services/graphDiff.ts
+
+import type { GraphData, GraphNode, GraphLink, ChangeStatus, TimeScope } from '../types';
+
+export interface GraphDiffSummary {
+  nodes: Record<ChangeStatus, number>;
+  links: Record<Exclude<ChangeStatus, 'changed'>, number>;
+}
+
+export interface GraphDiff {
+  baseScope: TimeScope;
+  compareScope: TimeScope;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  summary: GraphDiffSummary;
+}
+
+const linkEndpoints = (link: GraphLink) => {
+  const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+  const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+  return { sourceId, targetId };
+};
+
+const linkKey = (link: GraphLink) => {
+  const { sourceId, targetId } = linkEndpoints(link);
+  return `${sourceId}→${targetId}::${link.edge_type ?? ''}`;
+};
+
+const nodeText = (node: GraphNode) =>
+  (node.properties?.text ?? node.text ?? '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Compares two snapshots of the same title.
+ * `base` is the earlier scope, `compare` the one being viewed: nodes/links only
+ * in `compare` are "added", only in `base` are "removed". Nodes present in both
+ * whose `properties.text` differs are "changed".
+ */
+export function computeGraphDiff(
+  base: GraphData,
+  compare: GraphData,
+  baseScope: TimeScope,
+  compareScope: TimeScope
+): GraphDiff {
+  const baseNodes = new Map(base.nodes.map((n) => [n.id, n] as const));
+  const compareNodes = new Map(compare.nodes.map((n) => [n.id, n] as const));
+
+  const summary: GraphDiffSummary = {
+    nodes: { added: 0, removed: 0, changed: 0, unchanged: 0 },
+    links: { added: 0, removed: 0, unchanged: 0 },
+  };
+
+  const nodes: GraphNode[] = [];
+
+  compareNodes.forEach((node, id) => {
+    const previous = baseNodes.get(id);
+    let status: ChangeStatus;
+    if (!previous) status = 'added';
+    else if (nodeText(previous) !== nodeText(node)) status = 'changed';
+    else status = 'unchanged';
+
+    summary.nodes[status] += 1;
+    nodes.push({ ...node, change_status: status });
+  });
+
+  baseNodes.forEach((node, id) => {
+    if (compareNodes.has(id)) return;
+    summary.nodes.removed += 1;
+    nodes.push({ ...node, change_status: 'removed' });
+  });
+
+  const baseLinkKeys = new Set(base.links.map(linkKey));
+  const compareLinkKeys = new Set<string>();
+  const links: GraphLink[] = [];
+
+  const freshLink = (link: GraphLink, status: Exclude<ChangeStatus, 'changed'>): GraphLink => {
+    const { sourceId, targetId } = linkEndpoints(link);
+    return { ...link, source: sourceId, target: targetId, change_status: status };
+  };
+
+  compare.links.forEach((link) => {
+    const key = linkKey(link);
+    if (compareLinkKeys.has(key)) return;
+    compareLinkKeys.add(key);
+
+    const status = baseLinkKeys.has(key) ? 'unchanged' : 'added';
+    summary.links[status] += 1;
+    links.push(freshLink(link, status));
+  });
+
+  const seenRemoved = new Set<string>();
+  base.links.forEach((link) => {
+    const key = linkKey(link);
+    if (compareLinkKeys.has(key) || seenRemoved.has(key)) return;
+    seenRemoved.add(key);
+
+    summary.links.removed += 1;
+    links.push(freshLink(link, 'removed'));
+  });
+
+  return { baseScope, compareScope, nodes, links, summary };
+}
+
+/**
+ * Narrows a diff to what actually moved: every non-unchanged node, plus the
+ * endpoints of added/removed links. Links are kept when both ends survive.
+ * When over `maxNodes`, the nodes touching the most changes win.
+ */
+export function changedSubgraph(diff: GraphDiff, maxNodes: number): GraphData & { truncated: boolean } {
+  const changeCount = new Map<string, number>();
+  const bump = (id: string, by = 1) => changeCount.set(id, (changeCount.get(id) || 0) + by);
+
+  diff.nodes.forEach((n) => {
+    if (n.change_status && n.change_status !== 'unchanged') bump(n.id);
+  });
+
+  diff.links.forEach((l) => {
+    if (l.change_status === 'unchanged') return;
+    const { sourceId, targetId } = linkEndpoints(l);
+    bump(sourceId);
+    bump(targetId);
+  });
+
+  let keep = Array.from(changeCount.keys());
+  const truncated = keep.length > maxNodes;
+  if (truncated) {
+    keep = keep
+      .sort((a, b) => (changeCount.get(b) || 0) - (changeCount.get(a) || 0))
+      .slice(0, maxNodes);
+  }
+
+  const keepIds = new Set(keep);
+  const nodes = diff.nodes.filter((n) => keepIds.has(n.id));
+  const links = diff.links.filter((l) => {
+    const { sourceId, targetId } = linkEndpoints(l);
+    return keepIds.has(sourceId) && keepIds.has(targetId);
+  });
+
+  return { nodes, links, truncated };
+}
@@ -0,0 +1,243 @@
+// src/services/graphLayouts.ts
+
+import * as d3 from 'd3';
+import type { GraphNode, GraphLink } from '../types';
+import { isIndexNode, anchorTerms } from '../utils/graphNodes';
+
+// 'force' is the worker simulation; the others are computed here in one pass
+export type LayoutMode = 'force' | 'tree' | 'radial' | 'cluster-title' | 'cluster-type';
+export type StaticLayoutMode = Exclude<LayoutMode, 'force'>;
+
+export const LAYOUT_MODES: Array<{ value: LayoutMode; label: string }> = [
+  { value: 'force', label: 'Force-directed' },
+  { value: 'tree', label: 'Hierarchy tree' },
+  { value: 'radial', label: 'Radial by chapter' },
+  { value: 'cluster-title', label: 'Clusters by title' },
+  { value: 'cluster-type', label: 'Clusters by node type' },
+];
+
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+// Statutory levels below the title, outermost first
+const HIERARCHY_LEVELS = [
+  'subtitle',
+  'chapter',
+  'subchapter',
+  'part',
+  'subpart',
+  'section',
+  'subsection',
+  'paragraph',
+  'subparagraph',
+  'clause',
+  'subclause',
+] as const;
+
+const TREE_NODE_SPACING = 28;
+const TREE_LEVEL_SPACING = 160;
+const RADIAL_RING_SPACING = 120;
+const RADIAL_NODE_SPACING = 24;
+const RADIAL_SECTOR_GAP = 0.04;   // Radians left empty between chapters
+
+interface TreeDatum {
+  key: string;
+  node?: GraphNode;
+  children: TreeDatum[];
+}
+
+function titleOf(n: GraphNode): string {
+  return n.usc_title ?? n.source_title ?? 'Unknown title';
+}
+
+// Title, then each hierarchy field the node carries: ["26", "Subtitle A…", "Chapter 1…", …]
+function hierarchyPath(n: GraphNode): string[] {
+  const path = [titleOf(n)];
+  HIERARCHY_LEVELS.forEach((level) => {
+    const value = n[level];
+    if (value) path.push(value);
+  });
+  return path;
+}
+
+/**
+ * Builds the statutory tree. Index nodes sit at their hierarchy path, with
+ * virtual groups standing in for levels not present in the graph; term
+ * nodes hang off the index node they are linked to.
+ */
+function buildHierarchyTree(nodes: GraphNode[], links: GraphLink[]): TreeDatum {
+  const root: TreeDatum = { key: '', children: [] };
+  const groups = new Map<string, TreeDatum>([['', root]]);
+  const slots = new Map<string, TreeDatum>();
+
+  const ensureGroup = (path: string[]) => {
+    let parent = root;
+    path.forEach((_, i) => {
+      const key = path.slice(0, i + 1).join('\u0000');
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, children: [] };
+        groups.set(key, group);
+        parent.children.push(group);
+      }
+      parent = group;
+    });
+    return parent;
+  };
+
+  // Shallow paths first, so a chapter node claims its group before its sections attach
+  nodes
+    .filter(isIndexNode)
+    .map((n) => ({ n, path: hierarchyPath(n) }))
+    .sort((a, b) => a.path.length - b.path.length)
+    .forEach(({ n, path }) => {
+      const group = ensureGroup(path);
+      if (!group.node) {
+        group.node = n;
+        slots.set(n.id, group);
+      } else {
+        const leaf: TreeDatum = { key: n.id, node: n, children: [] };
+        group.children.push(leaf);
+        slots.set(n.id, leaf);
+      }
+    });
+
+  const anchors = anchorTerms(nodes, links);
+  nodes
+    .filter((n) => !isIndexNode(n))
+    .forEach((n) => {
+      const anchor = anchors.get(n.id);
+      const parent = (anchor && slots.get(anchor.id)) ?? ensureGroup([titleOf(n), `Unlinked ${n.node_type} terms`]);
+      parent.children.push({ key: n.id, node: n, children: [] });
+    });
+
+  return root;
+}
+
+const compareKeys = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+function treeLayout(nodes: GraphNode[], links: GraphLink[], width: number): LayoutPositions {
+  const root = d3
+    .hierarchy(buildHierarchyTree(nodes, links), (d) => d.children)
+    .sort((a, b) => compareKeys(a.data.key, b.data.key));
+
+  d3.tree<TreeDatum>().nodeSize([TREE_NODE_SPACING, TREE_LEVEL_SPACING])(root);
+
+  const positions: LayoutPositions = new Map();
+  root.each((d) => {
+    if (d.data.node) {
+      positions.set(d.data.node.id, { x: width / 2 + (d.x ?? 0), y: (d.y ?? 0) - TREE_LEVEL_SPACING });
+    }
+  });
+  return positions;
+}
+
+/**
+ * One angular sector per chapter, sized by its node count. Within a sector,
+ * deeper hierarchy levels sit on outer rings; term nodes take the ring
+ * beyond the deepest index node.
+ */
+function radialLayout(nodes: GraphNode[], links: GraphLink[], width: number, height: number): LayoutPositions {
+  const anchors = anchorTerms(nodes, links);
+  const chapterOf = (n: GraphNode) =>
+    (isIndexNode(n) ? n.chapter : anchors.get(n.id)?.chapter) ?? 'No chapter';
+
+  // Ring 0 is the chapter itself (or the shallowest level present without one)
+  const ringOf = (n: GraphNode) => {
+    const source = isIndexNode(n) ? n : anchors.get(n.id);
+    if (!source) return 0;
+    const path = hierarchyPath(source);
+    const chapterDepth = source.chapter ? path.indexOf(source.chapter) : 0;
+    return path.length - 1 - chapterDepth + (source === n ? 0 : 1);
+  };
+
+  const sectors = [...d3.group(nodes, chapterOf)].sort(([a], [b]) => compareKeys(a, b));
+  const usable = 2 * Math.PI - RADIAL_SECTOR_GAP * sectors.length;
+
+  const sectorRings = sectors.map(([chapter, members]) => {
+    const span = Math.max(0, usable * (members.length / nodes.length));
+    const rings = d3.group(members, ringOf);
+    rings.forEach((ring) =>
+      ring.sort((a, b) => compareKeys(hierarchyPath(a).join('/'), hierarchyPath(b).join('/')))
+    );
+    return { chapter, span, rings };
+  });
+
+  // Inner radius large enough that the most crowded ring arc keeps its nodes apart
+  let innerRadius = RADIAL_RING_SPACING;
+  sectorRings.forEach(({ span, rings }) => {
+    rings.forEach((ring, level) => {
+      if (span === 0) return;
+      const needed = (RADIAL_NODE_SPACING * ring.length) / span - level * RADIAL_RING_SPACING;
+      innerRadius = Math.max(innerRadius, needed);
+    });
+  });
+
+  const positions: LayoutPositions = new Map();
+  let start = 0;
+  sectorRings.forEach(({ span, rings }) => {
+    rings.forEach((ring, level) => {
+      const radius = innerRadius + level * RADIAL_RING_SPACING;
+      ring.forEach((n, i) => {
+        const angle = start + (span * (i + 0.5)) / ring.length - Math.PI / 2;
+        positions.set(n.id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) });
+      });
+    });
+    start += span + RADIAL_SECTOR_GAP;
+  });
+  return positions;
+}
+
+// Circle-packs each group, keeping nodes at their rendered size
+function clusterLayout(
+  nodes: GraphNode[],
+  groupOf: (n: GraphNode) => string,
+  radiusOf: (n: GraphNode) => number,
+  width: number,
+  height: number
+): LayoutPositions {
+  const tree: TreeDatum = {
+    key: '',
+    children: [...d3.group(nodes, groupOf)]
+      .sort(([a], [b]) => compareKeys(a, b))
+      .map(([key, members]) => ({
+        key,
+        children: members.map((n) => ({ key: n.id, node: n, children: [] })),
+      })),
+  };
+
+  const root = d3.hierarchy(tree, (d) => d.children).count();
+  d3
+    .pack<TreeDatum>()
+    .size([width, height])
+    .radius((d) => (d.data.node ? radiusOf(d.data.node) + 2 : 0))
+    .padding((d) => (d.depth === 0 ? 80 : 4))(root);
+
+  const positions: LayoutPositions = new Map();
+  root.leaves().forEach((d) => {
+    if (d.data.node) positions.set(d.data.node.id, { x: d.x ?? 0, y: d.y ?? 0 });
+  });
+  return positions;
+}
+
+/**
+ * Target positions for a static layout, keyed by node ID. Positions are in
+ * the same coordinate space as the force layout, centred on the viewport.
+ */
+export function computeStaticLayout(
+  mode: StaticLayoutMode,
+  graph: { nodes: GraphNode[]; links: GraphLink[] },
+  options: { width: number; height: number; radiusOf: (n: GraphNode) => number }
+): LayoutPositions {
+  const { width, height, radiusOf } = options;
+
+  switch (mode) {
+    case 'tree':
+      return treeLayout(graph.nodes, graph.links, width);
+    case 'radial':
+      return radialLayout(graph.nodes, graph.links, width, height);
+    case 'cluster-title':
+      return clusterLayout(graph.nodes, titleOf, radiusOf, width, height);
+    case 'cluster-type':
+      return clusterLayout(graph.nodes, (n) => n.node_type, radiusOf, width, height);
+  }
+}
@@ -0,0 +1,317 @@
+// src/services/graphMetrics.ts
+
+import type { GraphData, MetricKey, NodeMetrics } from '../types';
+
+export const METRIC_DEFINITIONS: { key: MetricKey; label: string }[] = [
+  { key: 'degree',                 label: 'Degree' },
+  { key: 'betweenness_centrality', label: 'Betweenness' },
+  { key: 'closeness_centrality',   label: 'Closeness' },
+  { key: 'eigenvector_centrality', label: 'Eigenvector' },
+  { key: 'pagerank',               label: 'PageRank' },
+  { key: 'clustering_coefficient', label: 'Clustering' },
+];
+
+// Above this many nodes, betweenness and closeness are estimated from
+// SAMPLE_PIVOTS BFS sources instead of one BFS per node.
+const EXACT_PATH_METRICS_LIMIT = 1500;
+const SAMPLE_PIVOTS = 256;
+
+// ==============================
+// Compact graph form (what the worker receives)
+// ==============================
+export interface MetricsInput {
+  nodeIds: string[];
+  sources: Int32Array;   // Directed edge list as node indexes
+  targets: Int32Array;
+}
+
+export type MetricsOutput = Record<MetricKey, Float64Array> & { approximate: boolean };
+
+export function toMetricsInput(graph: GraphData): MetricsInput {
+  const nodeIds = graph.nodes.map((n) => n.id);
+  const index = new Map(nodeIds.map((id, i) => [id, i] as const));
+
+  const sources: number[] = [];
+  const targets: number[] = [];
+  graph.links.forEach((l) => {
+    const s = index.get(typeof l.source === 'string' ? l.source : l.source.id);
+    const t = index.get(typeof l.target === 'string' ? l.target : l.target.id);
+    if (s === undefined || t === undefined) return;
+    sources.push(s);
+    targets.push(t);
+  });
+
+  return { nodeIds, sources: Int32Array.from(sources), targets: Int32Array.from(targets) };
+}
+
+export function toNodeMetricsMap(nodeIds: string[], output: MetricsOutput): Map<string, NodeMetrics> {
+  const map = new Map<string, NodeMetrics>();
+  nodeIds.forEach((id, i) => {
+    map.set(id, {
+      degree: output.degree[i],
+      betweenness_centrality: output.betweenness_centrality[i],
+      closeness_centrality: output.closeness_centrality[i],
+      eigenvector_centrality: output.eigenvector_centrality[i],
+      pagerank: output.pagerank[i],
+      clustering_coefficient: output.clustering_coefficient[i],
+    });
+  });
+  return map;
+}
+
+// ==============================
+// Adjacency (CSR)
+// ==============================
+interface Adjacency {
+  offsets: Int32Array;
+  neighbors: Int32Array;
+}
+
+function buildAdjacency(n: number, pairs: [number, number][]): Adjacency {
+  const counts = new Int32Array(n + 1);
+  pairs.forEach(([a]) => counts[a + 1]++);
+  for (let i = 0; i < n; i++) counts[i + 1] += counts[i];
+
+  const neighbors = new Int32Array(pairs.length);
+  const cursor = counts.slice(0, n);
+  pairs.forEach(([a, b]) => {
+    neighbors[cursor[a]++] = b;
+  });
+
+  return { offsets: counts, neighbors };
+}
+
+// Undirected simple graph: self-loops and parallel edges dropped
+function undirectedAdjacency({ nodeIds, sources, targets }: MetricsInput): Adjacency {
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  const n = nodeIds.length;
+
+  for (let i = 0; i < sources.length; i++) {
+    const a = Math.min(sources[i], targets[i]);
+    const b = Math.max(sources[i], targets[i]);
+    if (a === b) continue;
+    const key = a * n + b;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    pairs.push([a, b], [b, a]);
+  }
+
+  return buildAdjacency(n, pairs);
+}
+
+function directedAdjacency({ nodeIds, sources, targets }: MetricsInput): Adjacency {
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  const n = nodeIds.length;
+
+  for (let i = 0; i < sources.length; i++) {
+    if (sources[i] === targets[i]) continue;
+    const key = sources[i] * n + targets[i];
+    if (seen.has(key)) continue;
+    seen.add(key);
+    pairs.push([sources[i], targets[i]]);
+  }
+
+  return buildAdjacency(n, pairs);
+}
+
+// Evenly spread, deterministic pivots so repeated runs agree
+function pickPivots(n: number): { pivots: Int32Array; approximate: boolean } {
+  if (n <= EXACT_PATH_METRICS_LIMIT) {
+    return { pivots: Int32Array.from({ length: n }, (_, i) => i), approximate: false };
+  }
+  const step = n / SAMPLE_PIVOTS;
+  return {
+    pivots: Int32Array.from({ length: SAMPLE_PIVOTS }, (_, i) => Math.floor(i * step)),
+    approximate: true,
+  };
+}
+
+// ==============================
+// Betweenness + closeness (Brandes, shared BFS per pivot)
+// ==============================
+function pathMetrics(adj: Adjacency, n: number, pivots: Int32Array) {
+  const betweenness = new Float64Array(n);
+  const distSum = new Float64Array(n);
+  const reached = new Float64Array(n);
+
+  const dist = new Int32Array(n);
+  const sigma = new Float64Array(n);
+  const delta = new Float64Array(n);
+  const order = new Int32Array(n);
+
+  for (let p = 0; p < pivots.length; p++) {
+    const s = pivots[p];
+    dist.fill(-1);
+    sigma.fill(0);
+    delta.fill(0);
+
+    dist[s] = 0;
+    sigma[s] = 1;
+    order[0] = s;
+    let head = 0;
+    let tail = 1;
+
+    while (head < tail) {
+      const v = order[head++];
+      for (let e = adj.offsets[v]; e < adj.offsets[v + 1]; e++) {
+        const w = adj.neighbors[e];
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          order[tail++] = w;
+        }
+        if (dist[w] === dist[v] + 1) sigma[w] += sigma[v];
+      }
+    }
+
+    for (let i = tail - 1; i > 0; i--) {
+      const w = order[i];
+      distSum[w] += dist[w];
+      reached[w] += 1;
+      for (let e = adj.offsets[w]; e < adj.offsets[w + 1]; e++) {
+        const v = adj.neighbors[e];
+        if (dist[v] === dist[w] - 1) {
+          delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+        }
+      }
+      betweenness[w] += delta[w];
+    }
+  }
+
+  // Undirected pairs are counted from both ends; sampling scales by n / pivots
+  const scale = n > 2 ? (n / pivots.length) / ((n - 1) * (n - 2)) : 0;
+  for (let i = 0; i < n; i++) betweenness[i] *= scale;
+
+  // Wasserman–Faust closeness, so nodes in small components are not inflated
+  const closeness = new Float64Array(n);
+  const possible = pivots.length === n ? n - 1 : pivots.length;
+  for (let i = 0; i < n; i++) {
+    if (distSum[i] > 0) {
+      closeness[i] = (reached[i] / distSum[i]) * (reached[i] / possible);
+    }
+  }
+
+  return { betweenness, closeness };
+}
+
+// ==============================
+// Eigenvector centrality (power iteration on A + I)
+// ==============================
+function eigenvectorCentrality(adj: Adjacency, n: number, maxIter = 100, tol = 1e-6): Float64Array {
+  let x = new Float64Array(n).fill(n > 0 ? 1 / n : 0);
+  let next = new Float64Array(n);
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    for (let v = 0; v < n; v++) {
+      let sum = x[v];
+      for (let e = adj.offsets[v]; e < adj.offsets[v + 1]; e++) sum += x[adj.neighbors[e]];
+      next[v] = sum;
+    }
+
+    let norm = 0;
+    for (let v = 0; v < n; v++) norm += next[v] * next[v];
+    norm = Math.sqrt(norm) || 1;
+
+    let diff = 0;
+    for (let v = 0; v < n; v++) {
+      next[v] /= norm;
+      diff += Math.abs(next[v] - x[v]);
+    }
+
+    [x, next] = [next, x];
+    if (diff < n * tol) break;
+  }
+
+  return x;
+}
+
+// ==============================
+// PageRank (directed, dangling mass spread uniformly)
+// ==============================
+function pagerank(adj: Adjacency, n: number, damping = 0.85, maxIter = 100, tol = 1e-8): Float64Array {
+  let rank = new Float64Array(n).fill(n > 0 ? 1 / n : 0);
+  let next = new Float64Array(n);
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    let dangling = 0;
+    for (let v = 0; v < n; v++) {
+      if (adj.offsets[v + 1] === adj.offsets[v]) dangling += rank[v];
+    }
+
+    next.fill((1 - damping) / n + (damping * dangling) / n);
+    for (let v = 0; v < n; v++) {
+      const outDegree = adj.offsets[v + 1] - adj.offsets[v];
+      if (outDegree === 0) continue;
+      const share = (damping * rank[v]) / outDegree;
+      for (let e = adj.offsets[v]; e < adj.offsets[v + 1]; e++) next[adj.neighbors[e]] += share;
+    }
+
+    let diff = 0;
+    for (let v = 0; v < n; v++) diff += Math.abs(next[v] - rank[v]);
+
+    [rank, next] = [next, rank];
+    if (diff < n * tol) break;
+  }
+
+  return rank;
+}
+
+// ==============================
+// Local clustering coefficient
+// ==============================
+function clusteringCoefficient(adj: Adjacency, n: number): Float64Array {
+  const result = new Float64Array(n);
+  const mark = new Int32Array(n).fill(-1);
+
+  for (let v = 0; v < n; v++) {
+    const start = adj.offsets[v];
+    const end = adj.offsets[v + 1];
+    const k = end - start;
+    if (k < 2) continue;
+
+    for (let e = start; e < end; e++) mark[adj.neighbors[e]] = v;
+
+    let links = 0;
+    for (let e = start; e < end; e++) {
+      const u = adj.neighbors[e];
+      for (let f = adj.offsets[u]; f < adj.offsets[u + 1]; f++) {
+        if (mark[adj.neighbors[f]] === v) links++;
+      }
+    }
+
+    // Each triangle edge is seen from both of its ends
+    result[v] = links / (k * (k - 1));
+  }
+
+  return result;
+}
+
+/**
+ * Computes every metric in METRIC_DEFINITIONS. Runs in the metrics worker;
+ * can also be called directly for small graphs.
+ */
+export function computeMetrics(input: MetricsInput): MetricsOutput {
+  const n = input.nodeIds.length;
+  const undirected = undirectedAdjacency(input);
+  const directed = directedAdjacency(input);
+
+  const degree = new Float64Array(n);
+  for (let i = 0; i < input.sources.length; i++) {
+    degree[input.sources[i]]++;
+    degree[input.targets[i]]++;
+  }
+
+  const { pivots, approximate } = pickPivots(n);
+  const { betweenness, closeness } = pathMetrics(undirected, n, pivots);
+
+  return {
+    degree,
+    betweenness_centrality: betweenness,
+    closeness_centrality: closeness,
+    eigenvector_centrality: eigenvectorCentrality(undirected, n),
+    pagerank: pagerank(directed, n),
+    clustering_coefficient: clusteringCoefficient(undirected, n),
+    approximate,
+  };
+}
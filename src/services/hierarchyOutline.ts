@@ -0,0 +1,101 @@
+// src/services/hierarchyOutline.ts
+
+import type { GraphNode, GraphLink } from '../types';
+import { isIndexNode, endpointId } from '../utils/graphNodes';
+
+// Levels shown in the outline, outermost first; subsections stay inside their section
+export const OUTLINE_LEVELS = ['subtitle', 'chapter', 'subchapter', 'part', 'section'] as const;
+
+export type OutlineLevel = 'title' | (typeof OUTLINE_LEVELS)[number];
+
+export interface OutlineBranch {
+  key: string;                // Unique path key
+  level: OutlineLevel;
+  label: string;
+  nodeIds: string[];          // Index nodes sitting at this branch (the chapter node, a section and its subsections)
+  count: number;              // Index nodes in the whole subtree
+  referenceDegree: number;    // Reference edges touching the subtree's nodes, summed per node
+  children: OutlineBranch[];
+}
+
+const compareLabels = (a: OutlineBranch, b: OutlineBranch) =>
+  a.label.localeCompare(b.label, undefined, { numeric: true });
+
+/**
+ * Title → subtitle → chapter → subchapter → part → section outline of the
+ * index nodes. Levels a node doesn't carry are skipped, so a chapter without
+ * subchapters holds its parts or sections directly. Returns one root per title.
+ */
+export function buildHierarchyOutline(graph: { nodes: GraphNode[]; links: GraphLink[] }): OutlineBranch[] {
+  const referenceDegree = new Map<string, number>();
+  graph.links.forEach((link) => {
+    if (link.edge_type !== 'reference') return;
+    [endpointId(link.source), endpointId(link.target)].forEach((id) =>
+      referenceDegree.set(id, (referenceDegree.get(id) ?? 0) + 1)
+    );
+  });
+
+  const roots = new Map<string, OutlineBranch>();
+  const branches = new Map<string, OutlineBranch>();
+
+  const child = (parent: OutlineBranch, level: OutlineLevel, label: string) => {
+    const key = `${parent.key}\u0000${label}`;
+    let branch = branches.get(key);
+    if (!branch) {
+      branch = { key, level, label, nodeIds: [], count: 0, referenceDegree: 0, children: [] };
+      branches.set(key, branch);
+      parent.children.push(branch);
+    }
+    return branch;
+  };
+
+  graph.nodes.filter(isIndexNode).forEach((node) => {
+    const title = node.usc_title ?? node.source_title ?? 'Unknown title';
+    let branch = roots.get(title);
+    if (!branch) {
+      branch = { key: title, level: 'title', label: `Title ${title.replace(/^0+/, '')}`, nodeIds: [], count: 0, referenceDegree: 0, children: [] };
+      roots.set(title, branch);
+    }
+
+    const degree = referenceDegree.get(node.id) ?? 0;
+    const path = [branch];
+    OUTLINE_LEVELS.forEach((level) => {
+      const value = node[level];
+      if (value) path.push(child(path[path.length - 1], level, value));
+    });
+
+    path[path.length - 1].nodeIds.push(node.id);
+    path.forEach((b) => {
+      b.count += 1;
+      b.referenceDegree += degree;
+    });
+  });
+
+  const sort = (branch: OutlineBranch) => {
+    branch.children.sort(compareLabels);
+    branch.children.forEach(sort);
+  };
+  const result = [...roots.values()].sort(compareLabels);
+  result.forEach(sort);
+  return result;
+}
+
+// The branch with `key` anywhere under `roots`
+export function findBranch(roots: OutlineBranch[], key: string): OutlineBranch | null {
+  for (const branch of roots) {
+    if (branch.key === key) return branch;
+    if (key.startsWith(`${branch.key}\u0000`)) return findBranch(branch.children, key);
+  }
+  return null;
+}
+
+// Every index node in a branch and its descendants
+export function branchNodeIds(branch: OutlineBranch): string[] {
+  const ids: string[] = [];
+  const visit = (b: OutlineBranch) => {
+    ids.push(...b.nodeIds);
+    b.children.forEach(visit);
+  };
+  visit(branch);
+  return ids;
+}
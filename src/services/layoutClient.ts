@@ -0,0 +1,102 @@
+// src/services/layoutClient.ts
+
+// Per-node input; positions are carried over when a graph is re-laid out
+export interface LayoutNodeInput {
+  x?: number;
+  y?: number;
+  fx?: number | null;
+  fy?: number | null;
+  radius: number;   // Collision radius (rendered radius)
+  val: number;      // Connection count, drives the radial force
+}
+
+export interface LayoutInit {
+  nodes: LayoutNodeInput[];
+  links: Array<[number, number]>;   // Node indices
+  width: number;
+  height: number;
+  paused: boolean;
+  freezeOnSettle: boolean;
+}
+
+// running: ticking · paused: stopped by the user · settled: cooled down, reheats on drag · frozen: settled and stays put
+export type LayoutStatus = 'running' | 'paused' | 'settled' | 'frozen';
+
+export type LayoutRequest =
+  | ({ type: 'init'; generation: number } & LayoutInit)
+  | { type: 'pin'; index: number; x: number; y: number }
+  | { type: 'release'; index: number }
+  | { type: 'alphaTarget'; value: number }
+  | { type: 'reheat'; alpha: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'freezeOnSettle'; enabled: boolean }
+  | { type: 'stop' };
+
+export type LayoutResponse =
+  | { type: 'tick'; generation: number; positions: Float32Array }
+  | { type: 'status'; generation: number; status: LayoutStatus };
+
+export interface LayoutHandlers {
+  onTick: (positions: Float32Array) => void;   // x0, y0, x1, y1, … in node order
+  onStatus: (status: LayoutStatus) => void;
+}
+
+export interface LayoutWorker {
+  start: (init: LayoutInit, handlers: LayoutHandlers) => void;
+  pin: (index: number, x: number, y: number) => void;
+  release: (index: number) => void;
+  setAlphaTarget: (value: number) => void;
+  reheat: (alpha: number) => void;
+  pause: () => void;
+  resume: () => void;
+  setFreezeOnSettle: (enabled: boolean) => void;
+  stop: () => void;
+  terminate: () => void;
+}
+
+/**
+ * Runs the force layout in a dedicated worker that streams node positions
+ * back every tick. One worker serves successive graphs: `start` replaces the
+ * current layout, and messages from an earlier one are dropped.
+ */
+export function createLayoutWorker(): LayoutWorker {
+  const worker = new Worker(new URL('../workers/layout.worker.ts', import.meta.url), { type: 'module' });
+  let generation = 0;
+  let handlers: LayoutHandlers | null = null;
+
+  const send = (request: LayoutRequest) => worker.postMessage(request);
+
+  worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+    if (event.data.generation !== generation || !handlers) return;
+    if (event.data.type === 'tick') handlers.onTick(event.data.positions);
+    else handlers.onStatus(event.data.status);
+  };
+
+  worker.onerror = (event) => {
+    console.error('Layout worker failed:', event.message);
+  };
+
+  return {
+    start: (init, nextHandlers) => {
+      generation += 1;
+      handlers = nextHandlers;
+      send({ type: 'init', generation, ...init });
+    },
+    pin: (index, x, y) => send({ type: 'pin', index, x, y }),
+    release: (index) => send({ type: 'release', index }),
+    setAlphaTarget: (value) => send({ type: 'alphaTarget', value }),
+    reheat: (alpha) => send({ type: 'reheat', alpha }),
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    setFreezeOnSettle: (enabled) => send({ type: 'freezeOnSettle', enabled }),
+    stop: () => {
+      handlers = null;
+      send({ type: 'stop' });
+    },
+    terminate: () => {
+      handlers = null;
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,148 @@
+// src/services/loadErrors.ts
+
+import { formatBytes } from '../utils/formatBytes';
+import { validateGraph, validateSplitMeta } from '../utils/graphValidation';
+import type { GraphValidationReport } from '../utils/graphValidation';
+
+// Why a data file couldn't be used; each kind gets its own explanation in the UI
+export type LoadErrorKind =
+  | 'lfs-pointer'       // Git LFS pointer checked out instead of the file
+  | 'html-fallback'     // Server answered with an HTML page (SPA fallback for a missing file)
+  | 'truncated'         // Body or JSON ends early
+  | 'invalid-json'
+  | 'schema'            // Valid JSON without the expected shape
+  | 'http'
+  | 'network';
+
+export class DataLoadError extends Error {
+  kind: LoadErrorKind;
+  file: string;         // Path relative to the site root
+
+  constructor(kind: LoadErrorKind, file: string, message: string) {
+    super(message);
+    this.name = 'DataLoadError';
+    this.kind = kind;
+    this.file = file;
+  }
+}
+
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1';
+
+// Problems listed in a schema error before "and N more"
+const SCHEMA_PROBLEMS_SHOWN = 3;
+
+/**
+ * Parses a fetched body as JSON, naming what went wrong when it isn't:
+ * a Git LFS pointer, an HTML page, JSON cut off mid-way or otherwise invalid.
+ */
+export function parseJsonBody(file: string, text: string): unknown {
+  const head = text.slice(0, 200).trimStart();
+
+  if (head.startsWith(LFS_POINTER_PREFIX)) {
+    const size = /^size (\d+)$/m.exec(text)?.[1];
+    throw new DataLoadError(
+      'lfs-pointer',
+      file,
+      `The server sent a Git LFS pointer${size ? ` for ${formatBytes(Number(size))} of data` : ''} instead of the file. ` +
+        'The site was deployed without running "git lfs pull".'
+    );
+  }
+  if (/^<(!doctype|html|head|body)\b/i.test(head)) throw htmlFallbackError(file);
+
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    const trimmed = text.trimEnd();
+    // JSON.parse reports a premature end differently per engine; an unclosed root is the reliable sign
+    if (trimmed.length === 0 || /end of (json )?input|unterminated|unexpected end/i.test(reason) || !/[}\]]$/.test(trimmed)) {
+      throw new DataLoadError(
+        'truncated',
+        file,
+        `The JSON ends early after ${formatBytes(text.length)}; the download was cut off or the file is incomplete.`
+      );
+    }
+    throw new DataLoadError('invalid-json', file, `The file is not valid JSON: ${reason}`);
+  }
+}
+
+// Raised for an HTML body, whether sniffed or announced by Content-Type
+export function htmlFallbackError(file: string): DataLoadError {
+  return new DataLoadError(
+    'html-fallback',
+    file,
+    'The server answered with an HTML page instead of JSON, which usually means the file is missing and the app page was served in its place.'
+  );
+}
+
+// Raised when fewer bytes arrived than the server announced
+export function truncatedBodyError(file: string, received: number, expected: number): DataLoadError {
+  return new DataLoadError(
+    'truncated',
+    file,
+    `The download stopped after ${formatBytes(received)} of ${formatBytes(expected)}.`
+  );
+}
+
+function schemaError(file: string, what: string, problems: string[]): DataLoadError {
+  const shown = problems.slice(0, SCHEMA_PROBLEMS_SHOWN).join('; ');
+  const more = problems.length > SCHEMA_PROBLEMS_SHOWN ? ` and ${problems.length - SCHEMA_PROBLEMS_SHOWN} more` : '';
+  return new DataLoadError('schema', file, `The file isn't a valid ${what}: ${shown}${more}.`);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A graph file (or one part of a split graph) checked with the same
+ * validator as scripts/validate-data.mjs. Structural errors fail the load;
+ * duplicates and unknown types are tolerated with a warning. Dangling links
+ * aren't reported, since they are how a title references other titles.
+ */
+export function assertGraphShape(value: unknown, file: string): GraphValidationReport {
+  const report = validateGraph(value);
+  if (report.errors.length > 0) throw schemaError(file, 'graph', report.errors);
+
+  const issues = [
+    report.duplicateNodeIds.count > 0 && `${report.duplicateNodeIds.count} duplicate node IDs`,
+    Object.keys(report.unknownNodeTypes).length > 0 && `unknown node types ${Object.keys(report.unknownNodeTypes).join(', ')}`,
+    Object.keys(report.unknownEdgeTypes).length > 0 && `unknown edge types ${Object.keys(report.unknownEdgeTypes).join(', ')}`,
+  ].filter(Boolean);
+  if (issues.length > 0) console.warn(`${file}: ${issues.join('; ')}`);
+  return report;
+}
+
+// A split graph's meta file: { parts: [{ file }] }
+export function assertSplitMetaShape(value: unknown, file: string): void {
+  const errors = validateSplitMeta(value);
+  if (errors.length > 0) throw schemaError(file, 'split graph meta file', errors);
+}
+
+// The manifest: { titles: [{ id, timeScopes }] }
+export function assertManifestShape(value: unknown, file: string): void {
+  if (!isObject(value) || !Array.isArray(value.titles)) {
+    throw schemaError(file, 'manifest', ['"titles" is not an array']);
+  }
+  const problems: string[] = [];
+  value.titles.forEach((title, i) => {
+    if (!isObject(title) || typeof title.id !== 'string') problems.push(`titles[${i}] has no "id"`);
+    else if (!Array.isArray(title.timeScopes)) problems.push(`titles[${i}] has no "timeScopes" array`);
+  });
+  if (problems.length > 0) throw schemaError(file, 'manifest', problems);
+}
+
+// A title's timeline index: { nodeIds, hashes, scopes: { [scope]: { nodes, textHashes, neighbors } } }
+export function assertTimelineIndexShape(value: unknown, file: string): void {
+  if (!isObject(value) || !Array.isArray(value.nodeIds) || !isObject(value.hashes) || !isObject(value.scopes)) {
+    throw schemaError(file, 'timeline index', ['"nodeIds", "hashes" or "scopes" is missing']);
+  }
+  const problems: string[] = [];
+  Object.entries(value.scopes).forEach(([scope, entry]) => {
+    if (!isObject(entry) || !Array.isArray(entry.nodes) || !Array.isArray(entry.textHashes) || !Array.isArray(entry.neighbors)) {
+      problems.push(`scope ${scope} lacks "nodes", "textHashes" or "neighbors"`);
+    } else if (entry.textHashes.length !== entry.nodes.length || entry.neighbors.length !== entry.nodes.length) {
+      problems.push(`scope ${scope} has arrays of different lengths`);
+    }
+  });
+  if (problems.length > 0) throw schemaError(file, 'timeline index', problems);
+}
@@ -0,0 +1,148 @@
+// src/services/metaGraph.ts
+
+import type { GraphNode, GraphLink } from '../types';
+import { isIndexNode, endpointId, anchorTerms } from '../utils/graphNodes';
+
+export type GroupLevel = 'chapter' | 'subchapter' | 'part';
+
+export const GROUP_LEVELS: Array<{ value: GroupLevel; label: string }> = [
+  { value: 'chapter', label: 'Chapters' },
+  { value: 'subchapter', label: 'Subchapters' },
+  { value: 'part', label: 'Parts' },
+];
+
+// Outermost first; grouping by a level nests inside the levels above it
+const GROUP_PATH: GroupLevel[] = ['chapter', 'subchapter', 'part'];
+
+const GROUP_ID_PREFIX = 'group:';
+
+// Edge types aggregated between groups; hierarchy edges only restate the grouping
+const COUNTED_EDGE_TYPES = new Set<GraphLink['edge_type']>(['reference', 'definition']);
+
+const titleOf = (n: GraphNode) => n.usc_title ?? n.source_title ?? '';
+
+export const isGroupNodeId = (id: string) => id.startsWith(GROUP_ID_PREFIX);
+
+/**
+ * Group of an index node at `level`: its title plus the chapter/subchapter/part
+ * designations down to that level. A node without the level falls back to the
+ * deepest one above it (a chapter without subchapters stays one group); nodes
+ * outside any chapter are not grouped.
+ */
+function groupOf(n: GraphNode, level: GroupLevel): { id: string; label: string; path: string[] } | null {
+  const path: string[] = [];
+  for (const l of GROUP_PATH.slice(0, GROUP_PATH.indexOf(level) + 1)) {
+    const value = n[l];
+    if (value) path.push(value);
+    else if (l === 'chapter') return null;
+  }
+  return {
+    id: `${GROUP_ID_PREFIX}${[titleOf(n), ...path].join(' › ')}`,
+    label: path[path.length - 1],
+    path,
+  };
+}
+
+/**
+ * Collapses nodes into one super-node per group at `level`, except groups in
+ * `expanded`, whose members stay individual (tagged with `expanded_from` so
+ * the graph can place them where the group was). Links between different
+ * groups or nodes become one link per edge type weighted by how many
+ * reference/definition links it stands for.
+ */
+export function aggregateGraph(
+  graph: { nodes: GraphNode[]; links: GraphLink[] },
+  level: GroupLevel,
+  expanded: Set<string>
+): { nodes: GraphNode[]; links: GraphLink[] } {
+  const anchors = anchorTerms(graph.nodes, graph.links);
+  const groupNodes = new Map<string, GraphNode>();
+  const representative = new Map<string, string>();   // Node ID → ID drawn in its place
+  const nodes: GraphNode[] = [];
+
+  graph.nodes.forEach((n) => {
+    const source = isIndexNode(n) ? n : anchors.get(n.id);
+    const group = source ? groupOf(source, level) : null;
+
+    if (!group) {
+      representative.set(n.id, n.id);
+      nodes.push(n);
+      return;
+    }
+
+    if (expanded.has(group.id)) {
+      representative.set(n.id, n.id);
+      nodes.push({ ...n, expanded_from: group.id });
+      return;
+    }
+
+    representative.set(n.id, group.id);
+    let groupNode = groupNodes.get(group.id);
+    if (!groupNode) {
+      groupNode = {
+        id: group.id,
+        name: group.label,
+        node_type: 'index',
+        time: n.time,
+        usc_title: source!.usc_title,
+        source_title: source!.source_title,
+        chapter: source!.chapter,
+        subchapter: level === 'chapter' ? null : source!.subchapter,
+        part: level === 'part' ? source!.part : null,
+        group_level: level,
+        member_count: 0,
+      };
+      groupNodes.set(group.id, groupNode);
+      nodes.push(groupNode);
+    }
+    groupNode.member_count! += 1;
+  });
+
+  groupNodes.forEach((g) => {
+    g.display_label = `${g.name} (${g.member_count!.toLocaleString()})`;
+    g.val = g.member_count;
+    g.totalVal = g.member_count;
+  });
+
+  const links: GraphLink[] = [];
+  const aggregated = new Map<string, GraphLink>();
+
+  graph.links.forEach((l) => {
+    const sourceId = endpointId(l.source);
+    const targetId = endpointId(l.target);
+    const source = representative.get(sourceId);
+    const target = representative.get(targetId);
+    if (!source || !target || source === target) return;
+
+    // Both ends drawn as themselves: the original link
+    if (source === sourceId && target === targetId) {
+      links.push({ ...l, source, target });
+      return;
+    }
+    if (!COUNTED_EDGE_TYPES.has(l.edge_type)) return;
+
+    const key = `${source}→${target}::${l.edge_type}`;
+    const existing = aggregated.get(key);
+    if (existing) {
+      existing.weight = (existing.weight ?? 1) + 1;
+      existing.cross_title = existing.cross_title || l.cross_title;
+      return;
+    }
+    aggregated.set(key, {
+      source,
+      target,
+      edge_type: l.edge_type,
+      action: l.edge_type,
+      time: l.time,
+      cross_title: l.cross_title,
+      weight: 1,
+    });
+  });
+
+  aggregated.forEach((l) => {
+    l.action = `${l.weight!.toLocaleString()} ${l.edge_type} link${l.weight === 1 ? '' : 's'}`;
+    links.push(l);
+  });
+
+  return { nodes, links };
+}
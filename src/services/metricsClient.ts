@@ -0,0 +1,72 @@
+// src/services/metricsClient.ts
+
+import type { GraphData, NodeMetrics } from '../types';
+import { toMetricsInput, toNodeMetricsMap } from './graphMetrics';
+import type { MetricsOutput } from './graphMetrics';
+
+export interface MetricsResult {
+  metrics: Map<string, NodeMetrics>;
+  approximate: boolean;
+}
+
+/**
+ * Computes centrality metrics for `graph` in a dedicated worker.
+ * Aborting `signal` terminates the worker and rejects with an AbortError.
+ */
+export function computeMetricsInWorker(graph: GraphData, signal?: AbortSignal): Promise<MetricsResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Metrics computation aborted', 'AbortError'));
+      return;
+    }
+
+    const input = toMetricsInput(graph);
+    const worker = new Worker(new URL('../workers/metrics.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Metrics computation aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<{ type: 'result'; output: MetricsOutput } | { type: 'error'; message: string }>) => {
+      cleanup();
+      if (event.data.type === 'error') {
+        reject(new Error(event.data.message));
+        return;
+      }
+      resolve({
+        metrics: toNodeMetricsMap(input.nodeIds, event.data.output),
+        approximate: event.data.output.approximate,
+      });
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Metrics worker failed'));
+    };
+
+    worker.postMessage(input, [input.sources.buffer, input.targets.buffer]);
+  });
+}
+
+// Copy metric values onto nodes (as CSV/table columns read them)
+export function withNodeMetrics<T extends { id: string }>(nodes: T[], metrics: Map<string, NodeMetrics> | null): T[] {
+  if (!metrics) return nodes;
+  return nodes.map((n) => {
+    const m = metrics.get(n.id);
+    return m ? { ...n, ...m } : n;
+  });
+}
+
+// Ensures every node carries metrics, computing them for this graph if any are missing
+export async function ensureNodeMetrics(graph: GraphData, signal?: AbortSignal): Promise<GraphData> {
+  if (graph.nodes.every((n) => typeof n.pagerank === 'number')) return graph;
+  const { metrics } = await computeMetricsInWorker(graph, signal);
+  return { nodes: withNodeMetrics(graph.nodes, metrics), links: graph.links };
+}
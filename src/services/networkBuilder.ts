@@ -1,15 +1,67 @@
 // src/services/networkBuilder.ts
 
-import type { GraphNode, GraphLink, NetworkBuilderState, FilteredGraph } from '../types';
+import type {
+  GraphNode,
+  GraphLink,
+  NetworkBuilderState,
+  FilteredGraph,
+  GraphPath,
+  BottomUpSearchParams,
+} from '../types';
+import { SearchIndex } from './searchIndex';
+import { parseQuery, evaluateQuery } from './queryLanguage';
+
+// One color per path returned by findShortestPaths, shortest first
+export const PATH_COLORS = ['#facc15', '#38bdf8', '#a78bfa', '#fb7185', '#34d399', '#fb923c'];
+
+// Sidebar search parameters ↔ builder state (workspaces store the latter)
+export function toBuilderState(params: BottomUpSearchParams): NetworkBuilderState {
+  return {
+    searchTerms: params.keywords.split(',').map(t => t.trim()).filter(t => t),
+    searchFields: params.searchFields as NetworkBuilderState['searchFields'],
+    allowedNodeTypes: params.nodeTypes as NetworkBuilderState['allowedNodeTypes'],
+    allowedEdgeTypes: params.edgeTypes as NetworkBuilderState['allowedEdgeTypes'],
+    allowedTitles: params.titles ?? [],
+    allowedYears: [],
+    seedNodeIds: params.seedNodeIds ?? [],
+    expansionDepth: params.expansionDegree,
+    maxNodesPerExpansion: 100,
+    maxTotalNodes: params.maxNodes,
+  };
+}
+
+export function toSearchParams(
+  state: NetworkBuilderState,
+  searchLogic: 'AND' | 'OR',
+  nodeRankingMode: 'global' | 'subgraph'
+): BottomUpSearchParams {
+  return {
+    keywords: state.searchTerms.join(', '),
+    expansionDegree: state.expansionDepth,
+    maxNodes: state.maxTotalNodes,
+    nodeTypes: state.allowedNodeTypes,
+    edgeTypes: state.allowedEdgeTypes,
+    searchFields: state.searchFields,
+    searchLogic,
+    nodeRankingMode,
+    titles: state.allowedTitles,
+    seedNodeIds: state.seedNodeIds,
+  };
+}
 
 export class NetworkBuilder {
   private allNodes: GraphNode[];
   private allLinks: GraphLink[];
-  private adjacencyMap: Map<string, Array<{ neighborId: string; edgeType: string }>>;
+  private adjacencyMap: Map<string, Array<{ neighborId: string; edgeType: string; link: GraphLink }>>;
+  private nodeById: Map<string, GraphNode>;
+  private searchIndex: SearchIndex;
 
-  constructor(nodes: GraphNode[], links: GraphLink[]) {
+  // `searchIndex` must index `nodes`; pass the shared one from api.getSearchIndex when there is one
+  constructor(nodes: GraphNode[], links: GraphLink[], searchIndex?: SearchIndex) {
     this.allNodes = nodes;
     this.allLinks = links;
+    this.nodeById = new Map(nodes.map(n => [n.id, n]));
+    this.searchIndex = searchIndex ?? new SearchIndex(nodes);
     
     this.adjacencyMap = new Map();
     
@@ -25,72 +77,31 @@ export class NetworkBuilder {
         this.adjacencyMap.set(targetId, []);
       }
       
-      this.adjacencyMap.get(sourceId)!.push({ neighborId: targetId, edgeType });
-      this.adjacencyMap.get(targetId)!.push({ neighborId: sourceId, edgeType });
+      this.adjacencyMap.get(sourceId)!.push({ neighborId: targetId, edgeType, link });
+      this.adjacencyMap.get(targetId)!.push({ neighborId: sourceId, edgeType, link });
     });
   }
 
+  /**
+   * Nodes matching the search query, best BM25 score first. `searchTerms`
+   * are comma-separated parts of a query (see services/queryLanguage.ts),
+   * joined by `logic`; unfielded terms search `searchFields`.
+   * Throws QuerySyntaxError for a malformed query.
+   */
   searchNodes(searchTerms: string[], searchFields: string[], logic: 'AND' | 'OR' = 'OR'): Set<string> {
-    const matchedIds = new Set<string>();
-    const normalizedTerms = searchTerms.map(t => t.toLowerCase().trim());
-
-    this.allNodes.forEach(node => {
-      const searchableValues: string[] = [];
-      
-      searchFields.forEach(field => {
-        let value: any;
-        
-        switch(field) {
-          case 'text':
-            value = node.properties?.text || node.text || node.section_text || node.index_heading;
-            break;
-          case 'full_name':
-            value = node.properties?.full_name || node.full_name;
-            break;
-          case 'display_label':
-            value = node.display_label;
-            break;
-          case 'definition':
-            value = node.properties?.definition;
-            break;
-          case 'entity':
-            value = node.node_type === 'entity' ? node.name : null;
-            break;
-          case 'concept':
-            value = node.node_type === 'concept' ? node.name : null;
-            break;
-          case 'properties':
-            if (node.properties && typeof node.properties === 'object') {
-              Object.values(node.properties).forEach(propValue => {
-                if (typeof propValue === 'string') {
-                  searchableValues.push(propValue.toLowerCase());
-                }
-              });
-            }
-            return;
-          default:
-            value = (node as any)[field];
-        }
+    const query = parseQuery(searchTerms.join(', '), logic);
+    if (!query) return new Set();
 
-        if (value !== null && value !== undefined) {
-          searchableValues.push(String(value).toLowerCase());
-        }
-      });
-
-      if (logic === 'OR') {
-        const shouldMatch = normalizedTerms.some(term => 
-          searchableValues.some(searchableValue => searchableValue.includes(term))
-        );
-        if (shouldMatch) matchedIds.add(node.id);
-      } else {
-        const allTermsMatch = normalizedTerms.every(term => 
-          searchableValues.some(searchableValue => searchableValue.includes(term))
-        );
-        if (allTermsMatch) matchedIds.add(node.id);
-      }
+    const scores = evaluateQuery(query, {
+      nodes: this.allNodes,
+      index: this.searchIndex,
+      defaultFields: searchFields,
     });
-
-    return matchedIds;
+    return new Set(
+      [...scores]
+        .sort((a, b) => b[1] - a[1] || (this.nodeById.get(b[0])?.val ?? 0) - (this.nodeById.get(a[0])?.val ?? 0))
+        .map(([id]) => id)
+    );
   }
 
   expandFromSeeds(
@@ -131,13 +142,141 @@ export class NetworkBuilder {
     return expanded;
   }
 
+  /**
+   * Up to k loopless shortest paths between two nodes (Yen's algorithm over
+   * unweighted BFS). Edges are treated as undirected; parallel edges between
+   * the same two nodes count as one hop, so every returned path visits a
+   * different sequence of nodes.
+   */
+  findShortestPaths(
+    sourceId: string,
+    targetId: string,
+    k: number,
+    allowedEdgeTypes: string[]
+  ): GraphPath[] {
+    if (!this.nodeById.has(sourceId) || !this.nodeById.has(targetId) || sourceId === targetId) {
+      return [];
+    }
+
+    const first = this.bfsPath(sourceId, targetId, allowedEdgeTypes, new Set(), new Set());
+    if (!first) return [];
+
+    const found: string[][] = [first];
+    const seen = new Set<string>([first.join('|')]);
+    const candidates: string[][] = [];
+
+    while (found.length < k) {
+      const previous = found[found.length - 1];
+
+      for (let i = 0; i < previous.length - 1; i++) {
+        const spurNode = previous[i];
+        const rootPath = previous.slice(0, i + 1);
+
+        // Block the next hop of every accepted path that shares this root
+        const blockedEdges = new Set<string>();
+        found.forEach(path => {
+          if (path.length > i + 1 && rootPath.every((id, j) => path[j] === id)) {
+            blockedEdges.add(this.edgeKey(path[i], path[i + 1]));
+          }
+        });
+        const blockedNodes = new Set(rootPath.slice(0, -1));
+
+        const spurPath = this.bfsPath(spurNode, targetId, allowedEdgeTypes, blockedNodes, blockedEdges);
+        if (!spurPath) continue;
+
+        const candidate = [...rootPath.slice(0, -1), ...spurPath];
+        const key = candidate.join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(candidate);
+        }
+      }
+
+      if (candidates.length === 0) break;
+
+      // Shortest candidate next; ties keep discovery order
+      let best = 0;
+      candidates.forEach((c, idx) => {
+        if (c.length < candidates[best].length) best = idx;
+      });
+      found.push(candidates.splice(best, 1)[0]);
+    }
+
+    return found.map(nodeIds => ({
+      nodeIds,
+      hops: nodeIds.slice(1).map((toId, i) => {
+        const fromId = nodeIds[i];
+        const edge = (this.adjacencyMap.get(fromId) || []).find(n =>
+          n.neighborId === toId &&
+          (allowedEdgeTypes.length === 0 || allowedEdgeTypes.includes(n.edgeType))
+        )!;
+        return {
+          from: this.nodeById.get(fromId)!,
+          to: this.nodeById.get(toId)!,
+          link: edge.link,
+        };
+      }),
+    }));
+  }
+
+  private edgeKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private bfsPath(
+    sourceId: string,
+    targetId: string,
+    allowedEdgeTypes: string[],
+    blockedNodes: Set<string>,
+    blockedEdges: Set<string>
+  ): string[] | null {
+    const parent = new Map<string, string | null>([[sourceId, null]]);
+    let frontier = [sourceId];
+
+    while (frontier.length > 0 && !parent.has(targetId)) {
+      const next: string[] = [];
+
+      for (const nodeId of frontier) {
+        for (const { neighborId, edgeType } of this.adjacencyMap.get(nodeId) || []) {
+          if (parent.has(neighborId) || blockedNodes.has(neighborId)) continue;
+          if (allowedEdgeTypes.length > 0 && !allowedEdgeTypes.includes(edgeType)) continue;
+          if (blockedEdges.size > 0 && blockedEdges.has(this.edgeKey(nodeId, neighborId))) continue;
+
+          parent.set(neighborId, nodeId);
+          next.push(neighborId);
+        }
+      }
+
+      frontier = next;
+    }
+
+    if (!parent.has(targetId)) return null;
+
+    const path: string[] = [];
+    for (let id: string | null = targetId; id !== null; id = parent.get(id) ?? null) {
+      path.push(id);
+    }
+    return path.reverse();
+  }
+
   buildNetwork(state: NetworkBuilderState, searchLogic: 'AND' | 'OR' = 'OR', nodeRankingMode: 'global' | 'subgraph' = 'global'): FilteredGraph {
     let candidateNodeIds = new Set<string>();
     let seedNodeIds = new Set<string>();
 
-    // Step 1: Keyword search
-    if (state.searchTerms.length > 0 && state.searchFields.length > 0) {
-      seedNodeIds = this.searchNodes(state.searchTerms, state.searchFields, searchLogic);
+    const hasSearch = state.searchTerms.length > 0 && state.searchFields.length > 0;
+    const hasSeeds = state.seedNodeIds.length > 0;
+
+    // Step 1: Keyword search, narrowed to (or replaced by) explicit seed nodes
+    if (hasSearch || hasSeeds) {
+      if (hasSearch) {
+        seedNodeIds = this.searchNodes(state.searchTerms, state.searchFields, searchLogic);
+        if (hasSeeds) {
+          const allowed = new Set(state.seedNodeIds);
+          seedNodeIds = new Set([...seedNodeIds].filter(id => allowed.has(id)));
+        }
+      } else {
+        seedNodeIds = new Set(state.seedNodeIds.filter(id => this.nodeById.has(id)));
+      }
 
       if (seedNodeIds.size === 0) {
         return { nodes: [], links: [], truncated: false, matchedCount: 0 };
@@ -156,7 +295,7 @@ export class NetworkBuilder {
         if (state.allowedNodeTypes.length > 0) {
           candidateNodeIds = new Set(
             [...candidateNodeIds].filter(id => {
-              const node = this.allNodes.find(n => n.id === id);
+              const node = this.nodeById.get(id);
               if (!node) return false;
               if (seedNodeIds.has(id)) return true;
               return state.allowedNodeTypes.includes(node.node_type);
@@ -170,11 +309,26 @@ export class NetworkBuilder {
       candidateNodeIds = new Set(this.allNodes.map(n => n.id));
     }
 
+    // Step 1c: Restrict to allowed titles (merged multi-title graphs)
+    if (state.allowedTitles.length > 0) {
+      const inAllowedTitle = new Set(
+        this.allNodes
+          .filter(n => n.usc_title && state.allowedTitles.includes(n.usc_title))
+          .map(n => n.id)
+      );
+      candidateNodeIds = new Set([...candidateNodeIds].filter(id => inAllowedTitle.has(id)));
+      seedNodeIds = new Set([...seedNodeIds].filter(id => inAllowedTitle.has(id)));
+
+      if ((hasSearch || hasSeeds) && seedNodeIds.size === 0) {
+        return { nodes: [], links: [], truncated: false, matchedCount: 0 };
+      }
+    }
+
     // Step 2: Filter seed nodes by type
-    if (state.searchTerms.length > 0 && state.searchFields.length > 0) {
+    if (hasSearch || hasSeeds) {
       const seedsAfterFilter = new Set(
         [...seedNodeIds].filter(id => {
-          const node = this.allNodes.find(n => n.id === id);
+          const node = this.nodeById.get(id);
           if (!node) return false;
           return state.allowedNodeTypes.length > 0 && 
                  state.allowedNodeTypes.includes(node.node_type);
@@ -297,6 +451,7 @@ export class NetworkBuilder {
       time: link.time,
       usc_title: link.usc_title,
       source_title: link.source_title,
+      cross_title: link.cross_title,
       weight: link.weight,
       definition: link.definition,
       location: link.location,
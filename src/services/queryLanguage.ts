@@ -0,0 +1,346 @@
+// src/services/queryLanguage.ts
+
+import type { GraphNode } from '../types';
+import { tokenize, tokenizePattern } from './searchIndex';
+import type { SearchIndex } from './searchIndex';
+
+/**
+ * Query syntax for the bottom-up builder:
+ *
+ *   "qualified dividend" AND chapter:1 AND NOT type:entity
+ *   definition:"taxpayer" OR (section:1411 -type:concept)
+ *
+ * Words match by prefix ("tax" → "taxpayer"), quoted phrases exactly, and
+ * * / ? are wildcards. Adjacent terms are ANDed. AND, OR and NOT must be
+ * upper case; `-term` is short for NOT. Commas keep their old meaning of
+ * separating keywords joined by the sidebar's ANY/ALL toggle.
+ */
+export type QueryNode =
+  | { kind: 'term'; field: string | null; text: string; phrase: boolean }
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'and' | 'or'; operands: QueryNode[] };
+
+export class QuerySyntaxError extends Error {
+  position: number;   // Offset into the query string
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+// Text fields, searched through the index; keys are accepted aliases
+const TEXT_FIELDS: Record<string, string> = {
+  text: 'text',
+  name: 'name',
+  label: 'display_label',
+  display_label: 'display_label',
+  full_name: 'full_name',
+  definition: 'definition',
+  entity: 'entity',
+  concept: 'concept',
+  properties: 'properties',
+  id: 'id',
+};
+
+// Hierarchy fields match on their designation: chapter:1 matches "CHAPTER 1—NORMAL TAXES"
+const HIERARCHY_FIELDS = ['subtitle', 'chapter', 'subchapter', 'part', 'subpart', 'section', 'subsection'] as const;
+
+// Fields compared as whole values
+const EXACT_FIELDS: Record<string, (n: GraphNode) => string | null | undefined> = {
+  type: (n) => n.node_type,
+  title: (n) => n.usc_title,
+};
+
+export const QUERY_FIELDS = [...Object.keys(TEXT_FIELDS), ...HIERARCHY_FIELDS, ...Object.keys(EXACT_FIELDS)];
+
+// Words that introduce a designation rather than being part of it
+const LEVEL_WORDS = new Set<string>([...HIERARCHY_FIELDS, 'title', 'sec']);
+
+// ==============================
+// Lexer
+// ==============================
+type Token =
+  | { type: 'lparen' | 'rparen' | 'comma' | 'and' | 'or' | 'not' | 'minus'; position: number }
+  | { type: 'term'; field: string | null; text: string; phrase: boolean; position: number };
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (start: number) => {
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) throw new QuerySyntaxError('Unterminated quote', start);
+    const text = input.slice(start + 1, end);
+    if (tokenize(text).length === 0) throw new QuerySyntaxError('Empty phrase', start);
+    i = end + 1;
+    return text;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    const position = i;
+
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', position });
+      i += 1;
+    } else if (ch === '-' && i + 1 < input.length && /[^\s),]/.test(input[i + 1])) {
+      tokens.push({ type: 'minus', position });
+      i += 1;
+    } else if (ch === '"') {
+      tokens.push({ type: 'term', field: null, text: readPhrase(i), phrase: true, position });
+    } else {
+      const word = /^[^\s(),"]+/.exec(input.slice(i))![0];
+      i += word.length;
+
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not', position });
+        continue;
+      }
+
+      const colon = word.indexOf(':');
+      const field = colon > 0 ? word.slice(0, colon).toLowerCase() : null;
+      if (field === null || !QUERY_FIELDS.includes(field)) {
+        if (field !== null && /^[a-z_]+$/.test(field)) {
+          throw new QuerySyntaxError(`Unknown field "${field}" (try ${QUERY_FIELDS.join(', ')})`, position);
+        }
+        // Bare punctuation such as "§" has nothing to search for
+        if (tokenizePattern(word).length > 0) tokens.push({ type: 'term', field: null, text: word, phrase: false, position });
+        continue;
+      }
+
+      const value = word.slice(colon + 1);
+      if (value) {
+        tokens.push({ type: 'term', field, text: value, phrase: false, position });
+      } else if (input[i] === '"') {
+        tokens.push({ type: 'term', field, text: readPhrase(i), phrase: true, position });
+      } else {
+        throw new QuerySyntaxError(`Missing value after "${field}:"`, position);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// ==============================
+// Parser
+// ==============================
+//   list    := or (',' or)*          joined by the ANY/ALL toggle
+//   or      := and ('OR' and)*
+//   and     := unary (['AND'] unary)*
+//   unary   := ('NOT' | '-') unary | primary
+//   primary := '(' list ')' | term
+
+/**
+ * Parses a builder query. Returns null for a blank query; throws
+ * QuerySyntaxError pointing at the offending position otherwise.
+ */
+export function parseQuery(input: string, commaLogic: 'AND' | 'OR' = 'OR'): QueryNode | null {
+  const tokens = lex(input);
+  if (tokens.length === 0) return null;
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const endPosition = () => input.trimEnd().length;
+
+  const combine = (kind: 'and' | 'or', operands: QueryNode[]): QueryNode =>
+    operands.length === 1 ? operands[0] : { kind, operands };
+
+  const parseList = (): QueryNode => {
+    const operands = [parseOr()];
+    while (peek()?.type === 'comma') {
+      pos += 1;
+      // Empty keywords ("tax, , income" or a trailing comma) are skipped, as before
+      const next = peek();
+      if (next && next.type !== 'comma' && next.type !== 'rparen') operands.push(parseOr());
+    }
+    return combine(commaLogic === 'AND' ? 'and' : 'or', operands);
+  };
+
+  const parseOr = (): QueryNode => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'or') {
+      pos += 1;
+      operands.push(parseAnd());
+    }
+    return combine('or', operands);
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (next?.type === 'and') {
+        pos += 1;
+      } else if (!next || next.type === 'rparen' || next.type === 'comma' || next.type === 'or') {
+        break;
+      }
+      operands.push(parseUnary());
+    }
+    return combine('and', operands);
+  };
+
+  const parseUnary = (): QueryNode => {
+    const next = peek();
+    if (next?.type === 'not' || next?.type === 'minus') {
+      pos += 1;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('Expected a term at end of query', endPosition());
+
+    if (token.type === 'lparen') {
+      pos += 1;
+      if (peek()?.type === 'rparen') throw new QuerySyntaxError('Empty parentheses', token.position);
+      const inner = parseList();
+      if (peek()?.type !== 'rparen') throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+      pos += 1;
+      return inner;
+    }
+
+    if (token.type === 'term') {
+      pos += 1;
+      return { kind: 'term', field: token.field, text: token.text, phrase: token.phrase };
+    }
+
+    const found = token.type === 'rparen' ? '")"' : token.type === 'comma' ? '","' : token.type.toUpperCase();
+    throw new QuerySyntaxError(`Expected a term before ${found}`, token.position);
+  };
+
+  const root = parseList();
+  const extra = peek();
+  if (extra) {
+    throw new QuerySyntaxError(extra.type === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input', extra.position);
+  }
+  return root;
+}
+
+// Syntax error for the sidebar, or null when the query parses (or is blank)
+export function validateQuery(input: string): QuerySyntaxError | null {
+  try {
+    parseQuery(input);
+    return null;
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+}
+
+// Plain text a query searches for, for highlighting matches in documents
+export function queryHighlightTerms(input: string): string[] {
+  let root: QueryNode | null;
+  try {
+    root = parseQuery(input);
+  } catch {
+    return input.split(',').map((t) => t.trim()).filter(Boolean);
+  }
+
+  const terms: string[] = [];
+  const visit = (node: QueryNode) => {
+    if (node.kind === 'term') {
+      if (node.field === null || TEXT_FIELDS[node.field]) terms.push(node.text.replace(/[*?]/g, ''));
+    } else if (node.kind !== 'not') {
+      node.operands.forEach(visit);
+    }
+  };
+  if (root) visit(root);
+  return terms.filter((t) => t.trim().length > 0);
+}
+
+// ==============================
+// Evaluation
+// ==============================
+function designation(tokens: string[]): string | null {
+  return tokens.find((t) => !LEVEL_WORDS.has(t)) ?? null;
+}
+
+function wildcardMatcher(text: string): (value: string) => boolean {
+  const lowered = text.toLowerCase();
+  if (!/[*?]/.test(lowered)) return (value) => value === lowered;
+  const source = lowered
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  const pattern = new RegExp(`^${source}$`);
+  return (value) => pattern.test(value);
+}
+
+/**
+ * Evaluates a parsed query over `nodes`, returning matching node IDs with a
+ * relevance score (text terms score by BM25; structural ones add nothing).
+ * Unfielded terms search `defaultFields`.
+ */
+export function evaluateQuery(
+  root: QueryNode,
+  context: { nodes: GraphNode[]; index: SearchIndex; defaultFields: string[] }
+): Map<string, number> {
+  const { nodes, index, defaultFields } = context;
+
+  const evaluate = (node: QueryNode): Map<string, number> => {
+    switch (node.kind) {
+      case 'term':
+        return evaluateTerm(node);
+
+      case 'not': {
+        const excluded = evaluate(node.operand);
+        return new Map(nodes.filter((n) => !excluded.has(n.id)).map((n) => [n.id, 0] as const));
+      }
+
+      case 'and':
+        return node.operands.map(evaluate).reduce((acc, next) => {
+          const combined = new Map<string, number>();
+          acc.forEach((score, id) => {
+            const other = next.get(id);
+            if (other !== undefined) combined.set(id, score + other);
+          });
+          return combined;
+        });
+
+      case 'or':
+        return node.operands.map(evaluate).reduce((acc, next) => {
+          next.forEach((score, id) => acc.set(id, (acc.get(id) ?? 0) + score));
+          return acc;
+        });
+    }
+  };
+
+  const evaluateTerm = (term: Extract<QueryNode, { kind: 'term' }>): Map<string, number> => {
+    const { field, text, phrase } = term;
+
+    if (field !== null && EXACT_FIELDS[field]) {
+      const matches = wildcardMatcher(text);
+      const valueOf = EXACT_FIELDS[field];
+      return new Map(
+        nodes.filter((n) => matches(String(valueOf(n) ?? '').toLowerCase())).map((n) => [n.id, 0] as const)
+      );
+    }
+
+    const level = HIERARCHY_FIELDS.find((f) => f === field);
+    if (level && !phrase) {
+      const matches = wildcardMatcher(designation(tokenizePattern(text)) ?? text);
+      return new Map(
+        nodes
+          .filter((n) => {
+            const value = n[level] ? designation(tokenize(n[level]!)) : null;
+            return value !== null && matches(value);
+          })
+          .map((n) => [n.id, 0] as const)
+      );
+    }
+
+    // Quoted hierarchy values search the heading text, e.g. chapter:"normal taxes"
+    const fields = level ? [level] : field !== null ? [TEXT_FIELDS[field]] : defaultFields;
+    const clause = { tokens: tokenizePattern(text), prefix: !phrase };
+    return new Map(index.search([clause], { fields, logic: 'AND' }).map((hit) => [hit.node.id, hit.score] as const));
+  };
+
+  return evaluate(root);
+}
@@ -0,0 +1,274 @@
+// src/services/searchIndex.ts
+
+import type { GraphNode } from '../types';
+
+// One clause of a query: a single token, or a phrase whose tokens must be adjacent.
+// With `prefix` the last token also matches longer words ("tax" → "taxpayer");
+// tokens may carry * and ? wildcards.
+export interface QueryClause {
+  tokens: string[];
+  prefix: boolean;
+}
+
+export interface SearchOptions {
+  fields: string[];
+  logic: 'AND' | 'OR';
+  weights?: Record<string, number>;   // Per-field score multiplier, default 1
+}
+
+export interface SearchHit {
+  node: GraphNode;
+  score: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+interface Postings {
+  docs: Int32Array;
+  tfs: Uint16Array;
+}
+
+interface FieldIndex {
+  postings: Map<string, Postings>;
+  vocabulary: string[];   // Sorted, for prefix expansion
+  lengths: Uint32Array;   // Tokens per node
+  avgLength: number;
+}
+
+export function tokenize(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Like tokenize, but keeps * and ? wildcards inside query words
+export function tokenizePattern(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\p{N}*?]+/u).filter((t) => /[\p{L}\p{N}]/u.test(t));
+}
+
+const hasWildcard = (token: string) => /[*?]/.test(token);
+
+// Regex source for one token, wildcards confined to a single word
+function tokenPattern(token: string): string {
+  return token.replace(/\*/g, '[\\p{L}\\p{N}]*').replace(/\?/g, '[\\p{L}\\p{N}]');
+}
+
+// Matches the clause's tokens as consecutive words of tokenized, space-joined text
+function phraseRegExp(clause: QueryClause): RegExp {
+  const body = clause.tokens.map(tokenPattern).join(' ');
+  return new RegExp(`(?:^| )${body}${clause.prefix ? '' : '(?: |$)'}`, 'u');
+}
+
+/**
+ * Splits free text into clauses: quoted spans become phrases, other words
+ * single-token clauses. The last word is prefix-matched unless followed by
+ * whitespace, so results keep up while the user is still typing it.
+ */
+export function parseSearchQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const tokens = tokenize(match[1]);
+      if (tokens.length > 0) clauses.push({ tokens, prefix: false });
+    } else {
+      tokenize(match[2]).forEach((token) => clauses.push({ tokens: [token], prefix: false }));
+    }
+  }
+
+  const last = clauses[clauses.length - 1];
+  if (last && !/[\s"]$/.test(query)) last.prefix = true;
+  return clauses;
+}
+
+// Searchable text of a node for one builder search field
+export function fieldValue(node: GraphNode, field: string): string | null {
+  switch (field) {
+    case 'text':
+      return node.properties?.text || node.text || node.section_text || node.index_heading || null;
+    case 'full_name':
+      return node.properties?.full_name || node.full_name || null;
+    case 'definition':
+      return node.properties?.definition ?? null;
+    case 'entity':
+      return node.node_type === 'entity' ? node.name : null;
+    case 'concept':
+      return node.node_type === 'concept' ? node.name : null;
+    case 'properties':
+      return node.properties
+        ? Object.values(node.properties).filter((v) => typeof v === 'string').join(' ')
+        : null;
+    default: {
+      const value = (node as unknown as Record<string, unknown>)[field];
+      return value === null || value === undefined ? null : String(value);
+    }
+  }
+}
+
+function lowerBound(sorted: string[], value: string): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Inverted index over a fixed node list. Each field is tokenized the first
+ * time a query touches it, so only the fields actually searched cost memory;
+ * after that a query reads postings lists instead of rescanning node text.
+ * Matches are ranked with BM25, summed over fields and clauses.
+ */
+export class SearchIndex {
+  private nodes: GraphNode[];
+  private fields = new Map<string, FieldIndex>();
+
+  constructor(nodes: GraphNode[]) {
+    this.nodes = nodes;
+  }
+
+  search(clauses: QueryClause[], options: SearchOptions): SearchHit[] {
+    const active = clauses.filter((c) => c.tokens.length > 0);
+    if (active.length === 0 || options.fields.length === 0) return [];
+
+    let scores: Map<number, number> | null = null;
+
+    for (const clause of active) {
+      const clauseScores = new Map<number, number>();
+      options.fields.forEach((field) => {
+        const weight = options.weights?.[field] ?? 1;
+        this.scoreClause(clause, field).forEach((score, doc) => {
+          clauseScores.set(doc, (clauseScores.get(doc) ?? 0) + score * weight);
+        });
+      });
+
+      if (scores === null) {
+        scores = clauseScores;
+      } else if (options.logic === 'AND') {
+        const combined = new Map<number, number>();
+        scores.forEach((score, doc) => {
+          const other = clauseScores.get(doc);
+          if (other !== undefined) combined.set(doc, score + other);
+        });
+        scores = combined;
+      } else {
+        clauseScores.forEach((score, doc) => scores!.set(doc, (scores!.get(doc) ?? 0) + score));
+      }
+
+      if (options.logic === 'AND' && scores.size === 0) return [];
+    }
+
+    return [...(scores ?? new Map<number, number>())]
+      .map(([doc, score]) => ({ node: this.nodes[doc], score }))
+      .sort((a, b) => b.score - a.score || (b.node.val ?? 0) - (a.node.val ?? 0));
+  }
+
+  // BM25 score per matching node for one clause in one field
+  private scoreClause(clause: QueryClause, field: string): Map<number, number> {
+    const index = this.fieldIndex(field);
+    const scores = new Map<number, number>();
+
+    // Every token must occur; wildcards and the prefixed last token may expand to several terms
+    const termSets = clause.tokens.map((token, i) =>
+      this.expandTerms(index, token, clause.prefix && i === clause.tokens.length - 1)
+    );
+
+    let candidates: Set<number> | null = null;
+    for (const terms of termSets) {
+      const docs = new Set<number>();
+      terms.forEach((term) => index.postings.get(term)?.docs.forEach((doc) => docs.add(doc)));
+      candidates = candidates === null ? docs : new Set([...candidates].filter((doc) => docs.has(doc)));
+      if (candidates.size === 0) return scores;
+    }
+
+    const phrase = clause.tokens.length > 1 ? phraseRegExp(clause) : null;
+
+    termSets.flat().forEach((term) => {
+      const postings = index.postings.get(term);
+      if (!postings) return;
+      const n = this.nodes.length;
+      const idf = Math.log(1 + (n - postings.docs.length + 0.5) / (postings.docs.length + 0.5));
+
+      postings.docs.forEach((doc, i) => {
+        if (!candidates!.has(doc)) return;
+        const tf = postings.tfs[i];
+        const norm = tf + K1 * (1 - B + (B * index.lengths[doc]) / index.avgLength);
+        scores.set(doc, (scores.get(doc) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+      });
+    });
+
+    // Token co-occurrence is only a candidate filter; phrases are confirmed on the node text
+    if (phrase) {
+      scores.forEach((_, doc) => {
+        const normalized = tokenize(fieldValue(this.nodes[doc], field) ?? '').join(' ');
+        if (!phrase.test(normalized)) scores.delete(doc);
+      });
+    }
+
+    return scores;
+  }
+
+  private expandTerms(index: FieldIndex, token: string, prefix: boolean): string[] {
+    if (!hasWildcard(token)) return prefix ? this.expandPrefix(index, token) : [token];
+
+    // Scan only the vocabulary range sharing the literal part before the first wildcard
+    const pattern = new RegExp(`^${tokenPattern(token)}${prefix ? '' : '$'}`, 'u');
+    return this.expandPrefix(index, token.slice(0, token.search(/[*?]/))).filter((term) => pattern.test(term));
+  }
+
+  private expandPrefix(index: FieldIndex, prefix: string): string[] {
+    const terms: string[] = [];
+    for (let i = lowerBound(index.vocabulary, prefix); i < index.vocabulary.length; i++) {
+      if (!index.vocabulary[i].startsWith(prefix)) break;
+      terms.push(index.vocabulary[i]);
+    }
+    return terms;
+  }
+
+  private fieldIndex(field: string): FieldIndex {
+    const cached = this.fields.get(field);
+    if (cached) return cached;
+
+    const building = new Map<string, { docs: number[]; tfs: number[] }>();
+    const lengths = new Uint32Array(this.nodes.length);
+    let totalLength = 0;
+    let valued = 0;
+
+    this.nodes.forEach((node, doc) => {
+      const value = fieldValue(node, field);
+      if (!value) return;
+      const tokens = tokenize(value);
+      lengths[doc] = tokens.length;
+      totalLength += tokens.length;
+      valued += 1;
+
+      const counts = new Map<string, number>();
+      tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+      counts.forEach((tf, token) => {
+        let entry = building.get(token);
+        if (!entry) building.set(token, (entry = { docs: [], tfs: [] }));
+        entry.docs.push(doc);
+        entry.tfs.push(Math.min(tf, 0xffff));
+      });
+    });
+
+    const postings = new Map<string, Postings>();
+    building.forEach((entry, token) => {
+      postings.set(token, { docs: Int32Array.from(entry.docs), tfs: Uint16Array.from(entry.tfs) });
+    });
+
+    const index: FieldIndex = {
+      postings,
+      vocabulary: [...postings.keys()].sort(),
+      lengths,
+      avgLength: totalLength / Math.max(1, valued) || 1,
+    };
+    this.fields.set(field, index);
+    return index;
+  }
+}
@@ -0,0 +1,154 @@
+// src/services/workspaceStore.ts
+
+import type { Workspace } from '../types';
+
+const DB_NAME = 'us-code-network-explorer';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+
+// Everything a workspace holds besides its identity and notes
+export type WorkspaceSnapshot = Omit<Workspace, 'id' | 'name' | 'notes' | 'createdAt' | 'updatedAt'>;
+
+// ==============================
+// IndexedDB plumbing
+// ==============================
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open workspace database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Workspace transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Workspace transaction aborted'));
+  });
+}
+
+// ==============================
+// CRUD
+// ==============================
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const all = await withStore('readonly', (store) => store.getAll() as IDBRequest<Workspace[]>);
+  return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveWorkspace(workspace: Workspace): Promise<Workspace> {
+  const saved = { ...workspace, updatedAt: new Date().toISOString() };
+  await withStore('readwrite', (store) => store.put(saved));
+  return saved;
+}
+
+export async function createWorkspace(name: string, notes: string, snapshot: WorkspaceSnapshot): Promise<Workspace> {
+  const now = new Date().toISOString();
+  return saveWorkspace({ ...snapshot, id: crypto.randomUUID(), name, notes, createdAt: now, updatedAt: now });
+}
+
+export async function duplicateWorkspace(workspace: Workspace): Promise<Workspace> {
+  return createWorkspace(`${workspace.name} (copy)`, workspace.notes, workspace);
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// ==============================
+// JSON import / export
+// ==============================
+const FILE_FORMAT = 'us-code-network-workspaces';
+const FILE_VERSION = 1;
+
+export function workspacesToJson(workspaces: Workspace[]): string {
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, workspaces }, null, 2);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+function validateWorkspace(raw: unknown, index: number): WorkspaceSnapshot & { name: string; notes: string } {
+  const fail = (reason: string): never => {
+    throw new Error(`Workspace #${index + 1} is invalid: ${reason}`);
+  };
+  if (!raw || typeof raw !== 'object') fail('not an object');
+  const ws = raw as Record<string, unknown>;
+
+  if (typeof ws.name !== 'string' || !ws.name.trim()) fail('missing name');
+  if (!isStringArray(ws.titles) || ws.titles.length === 0) fail('missing titles');
+  if (typeof ws.timeScope !== 'string') fail('missing timeScope');
+  if (ws.buildMode !== 'topDown' && ws.buildMode !== 'bottomUp') fail('buildMode must be topDown or bottomUp');
+  if (!isStringArray(ws.enabledCategories) || !isStringArray(ws.enabledNodeTypes)) fail('invalid filters');
+  if (ws.builderState != null && (typeof ws.builderState !== 'object' || !isStringArray((ws.builderState as Record<string, unknown>).searchTerms))) {
+    fail('invalid builderState');
+  }
+
+  const pins: Workspace['pinnedPositions'] = {};
+  if (ws.pinnedPositions && typeof ws.pinnedPositions === 'object') {
+    Object.entries(ws.pinnedPositions as Record<string, { fx?: unknown; fy?: unknown }>).forEach(([id, pos]) => {
+      if (typeof pos?.fx === 'number' && typeof pos?.fy === 'number') pins[id] = { fx: pos.fx, fy: pos.fy };
+    });
+  }
+
+  return {
+    name: ws.name as string,
+    notes: typeof ws.notes === 'string' ? ws.notes : '',
+    titles: ws.titles as string[],
+    timeScope: ws.timeScope as string,
+    buildMode: ws.buildMode as Workspace['buildMode'],
+    builderState: (ws.builderState ?? null) as Workspace['builderState'],
+    searchLogic: ws.searchLogic === 'AND' ? 'AND' : 'OR',
+    nodeRankingMode: ws.nodeRankingMode === 'subgraph' ? 'subgraph' : 'global',
+    enabledCategories: ws.enabledCategories as string[],
+    enabledNodeTypes: ws.enabledNodeTypes as string[],
+    selectedNodeId: typeof ws.selectedNodeId === 'string' ? ws.selectedNodeId : null,
+    pinnedPositions: pins,
+  };
+}
+
+/**
+ * Reads a file written by workspacesToJson (or a single bare workspace object)
+ * and stores every workspace in it under a fresh ID. Throws on invalid input
+ * without importing anything.
+ */
+export async function importWorkspaces(text: string): Promise<Workspace[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const file = parsed as { format?: unknown; workspaces?: unknown };
+  const entries = file && file.format === FILE_FORMAT ? file.workspaces : [parsed];
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('File contains no workspaces');
+  }
+
+  const valid = entries.map(validateWorkspace);
+  const imported: Workspace[] = [];
+  for (const { name, notes, ...snapshot } of valid) {
+    imported.push(await createWorkspace(name, notes, snapshot));
+  }
+  return imported;
+}
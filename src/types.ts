@@ -4,6 +4,20 @@ export type NodeType = 'section' | 'entity' | 'concept' | 'index';
 
 export type TimeScope = string;
 
+// Year-over-year diff status (see services/graphDiff.ts)
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// Network centrality metrics (see services/graphMetrics.ts)
+export type MetricKey =
+  | 'degree'
+  | 'betweenness_centrality'
+  | 'closeness_centrality'
+  | 'eigenvector_centrality'
+  | 'pagerank'
+  | 'clustering_coefficient';
+
+export type NodeMetrics = Record<MetricKey, number>;
+
 export type SelectedNode = {
   id: string;
   scope: TimeScope;
@@ -20,12 +34,29 @@ export interface GraphNode extends d3.SimulationNodeDatum {
   //   - term nodes  → USC number as string, e.g. "26"
   //   - index nodes → hierarchy text, e.g. "TITLE 26" (may overwrite USC number)
   title?: string | null;
+  usc_title?: string;       // USC number the node was loaded from, e.g. "26"
+  source_title?: string;
 
   // Runtime computed properties
   val?: number;
   totalVal?: number;
   color?: string;
   baseColor?: string;
+  change_status?: ChangeStatus;
+
+  // Meta graph (see services/metaGraph.ts): super-nodes carry their level and size,
+  // members of an expanded group the ID of the super-node they replaced
+  group_level?: 'chapter' | 'subchapter' | 'part';
+  member_count?: number;
+  expanded_from?: string;
+
+  // Network metrics, filled in when computed for the current graph
+  degree?: number;
+  betweenness_centrality?: number;
+  closeness_centrality?: number;
+  eigenvector_centrality?: number;
+  pagerank?: number;
+  clustering_coefficient?: number;
 
   // Hierarchy fields (index nodes only, parsed from named_path)
   subtitle?: string | null;
@@ -73,6 +104,11 @@ export interface GraphLink {
   action: string;
   time?: TimeScope;
   title?: string;       // USC title number written by Python, e.g. "26"
+  usc_title?: string;
+  source_title?: string;
+  cross_title?: boolean; // Set on merged graphs when the endpoints live in different titles
+  change_status?: ChangeStatus;
+  path_rank?: number;    // Set in path-finder view: index of the shortest path this edge lies on
   definition?: string;
   location?: string;
   timestamp?: string;
@@ -84,12 +120,37 @@ export interface GraphData {
   links: GraphLink[];
 }
 
+// One part of a split graph, as listed in the manifest
+export interface ManifestPart {
+  file: string;
+  nodes?: number;
+  links?: number;
+  bytes: number;
+}
+
+// Where one time scope of a title lives and how big it is (manifest version 3)
+export interface ManifestScope {
+  kind: 'single' | 'split';
+  file?: string;                // Single graph file
+  meta?: string;                // Split graph's meta file
+  parts?: ManifestPart[];       // Split graph parts; when present the meta file isn't fetched
+  nodes?: number;               // Counts are missing when the generator only saw LFS pointers
+  links?: number;
+  bytes: number;                // Total of the file or all parts
+  hash: string;                 // SHA-256 of the file(s), keys the persistent cache
+}
+
 export interface ManifestTitle {
   id: string;
   name: string;
   description?: string;
   timeScopes: string[];
   timeScopeType?: 'year' | 'version' | 'scenario' | 'custom';
+  kind?: 'single' | 'split';
+  scopes?: Record<string, ManifestScope>;
+  // Version 2 manifests: per-scope file names, without sizes
+  file?: Record<string, string>;
+  meta?: Record<string, string>;
 }
 
 export interface Manifest {
@@ -97,6 +158,27 @@ export interface Manifest {
   titles: ManifestTitle[];
 }
 
+// One scope of a timeline index, the three arrays parallel per node. Neighbor
+// codes are ((neighbor * 64) + edge type) * 2 + (1 when outgoing), indexing
+// nodeIds and edgeTypes; each list is sorted and stored as deltas, and its
+// length is the node's degree.
+export interface TimelineIndexScope {
+  nodes: number[];              // Indexes into nodeIds
+  textHashes: number[];         // FNV-1a of the whitespace-normalized text
+  neighbors: number[][];
+}
+
+// Per-title timeline index (title-<id>.timeline.json from
+// scripts/generate-timeline-indexes.mjs, or built in the browser without one)
+export interface TimelineIndexData {
+  version: number;
+  title: string;
+  hashes: Record<TimeScope, string>;   // Manifest content hash each scope was indexed from
+  edgeTypes: string[];
+  nodeIds: string[];
+  scopes: Record<TimeScope, TimelineIndexScope>;
+}
+
 export interface NetworkBuilderState {
   searchTerms: string[];
   searchFields: (
@@ -118,6 +200,71 @@ export interface NetworkBuilderState {
   maxTotalNodes: number;
 }
 
+// Community detected over the loaded graph (see services/communityDetection.ts)
+export interface TagCluster {
+  id: number;
+  name: string;          // Generated from dominant chapter/subchapter or top terms
+  size: number;
+  color: string;
+  exemplars: string[];   // Labels of the best connected members
+}
+
+// Parameters of a bottom-up (keyword) network search, as submitted from the Sidebar
+export interface BottomUpSearchParams {
+  keywords: string;
+  expansionDegree: number;
+  maxNodes: number;
+  nodeTypes: string[];
+  edgeTypes: string[];
+  searchFields: string[];
+  searchLogic: 'AND' | 'OR';
+  nodeRankingMode: 'global' | 'subgraph';
+  titles?: string[];
+  seedNodeIds?: string[];   // Start from these nodes (a hierarchy branch) instead of, or within, keyword matches
+  seedBranch?: string;      // Outline key of that branch; URLs carry it instead of the IDs
+}
+
+// Named, saved analysis (see services/workspaceStore.ts)
+export interface Workspace {
+  id: string;
+  name: string;
+  notes: string;
+  createdAt: string;     // ISO timestamps
+  updatedAt: string;
+  titles: string[];      // Primary title first, then merged titles
+  timeScope: TimeScope;
+  buildMode: 'topDown' | 'bottomUp';
+  builderState: NetworkBuilderState | null;   // Bottom-up search, when one was run
+  searchLogic: 'AND' | 'OR';
+  nodeRankingMode: 'global' | 'subgraph';
+  enabledCategories: string[];
+  enabledNodeTypes: string[];
+  selectedNodeId: string | null;
+  pinnedPositions: PinnedPositions;
+}
+
+// Node ID → fixed simulation position (D3 fx/fy)
+export type PinnedPositions = Record<string, { fx: number; fy: number }>;
+
+// Path finder (NetworkBuilder.findShortestPaths)
+export interface PathQuery {
+  sourceId: string;
+  targetId: string;
+  k: number;
+  edgeTypes: ('definition' | 'reference' | 'hierarchy')[];
+}
+
+export interface PathHop {
+  from: GraphNode;
+  to: GraphNode;
+  link: GraphLink;       // May point to → from; hops ignore edge direction
+}
+
+export interface GraphPath {
+  nodeIds: string[];
+  hops: PathHop[];
+}
+
 export interface FilteredGraph {
   nodes: GraphNode[];
   links: GraphLink[];
@@ -0,0 +1,132 @@
+/**
+ * U.S. Code citation parsing and resolution
+ * Used by the Sidebar search ("26 U.S.C. § 1(h)(11)(B)") and DocumentModal cross-references
+ */
+
+import type { GraphNode, Manifest } from '../types';
+
+export interface Citation {
+  raw: string;              // Matched text
+  start: number;            // Offset of the match in the parsed text
+  end: number;
+  title: string | null;     // As cited ("26"); null when the citation names no title
+  section: string;          // Normalized: "1", "1400z-2"
+  path: string[];           // Subsection, paragraph, … designations as cited: ["h", "11", "B"]
+}
+
+export interface ResolvedCitation {
+  node: GraphNode;
+  exact: boolean;           // False when only an enclosing provision is in the graph
+}
+
+// Below the section, outermost first; GraphNode carries one field per level
+const SUBSECTION_LEVELS = ['subsection', 'paragraph', 'subparagraph', 'clause', 'subclause'] as const;
+
+// The Internal Revenue Code is Title 26
+const IRC_TITLE = '26';
+
+// Groups: 1 title before "U.S.C.", 2 IRC, 3 section, 4 "(h)(11)(B)", 5 title after "of title"
+const CITATION_PATTERN = new RegExp(
+  '(?:' +
+    '\\b(\\d+[a-z]?)\\s*U\\.?\\s?S\\.?\\s?C\\.?(?:\\s?A\\.?)?\\s*(?:§§?\\s*|sec(?:tion|\\.)\\s*)?' +
+    '|\\b(I\\.?R\\.?C\\.?)\\s*(?:§§?\\s*|sec(?:tion|\\.)\\s*)?' +
+    '|§§?\\s*' +
+    '|\\bsec(?:tion|\\.)\\s*' +
+  ')' +
+  '(\\d+[a-z]*(?:[-–—]\\d+[a-z]*)?)' +
+  '((?:\\s?\\([a-z0-9]{1,6}\\))*)' +
+  '(?:,?\\s+of\\s+title\\s+(\\d+[a-z]?)\\b)?',
+  'gi'
+);
+
+const normalizeSection = (value: string) => value.toLowerCase().replace(/[–—]/g, '-');
+
+// "§ 1. Tax imposed" → "1", "Sec. 1400Z–2" → "1400z-2"
+function sectionDesignation(value: string | null | undefined): string | null {
+  const match = value?.match(/\d+[a-z]*(?:[-–—]\d+[a-z]*)?/i);
+  return match ? normalizeSection(match[0]) : null;
+}
+
+// "(h) Maximum capital gains rate" → "h"
+function levelDesignation(value: string | null | undefined): string | null {
+  const match = value?.match(/^\s*\(?([a-z0-9]+)\)?/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * All citations in `text`, in order. Titles stay as cited; resolve them
+ * against the manifest with matchTitleId.
+ */
+export function parseCitations(text: string): Citation[] {
+  const citations: Citation[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const [raw, titleBefore, irc, section, levels, titleAfter] = match;
+    citations.push({
+      raw,
+      start: match.index!,
+      end: match.index! + raw.length,
+      title: titleBefore ?? titleAfter ?? (irc ? IRC_TITLE : null),
+      section: normalizeSection(section),
+      path: [...levels.matchAll(/\(([a-z0-9]+)\)/gi)].map((m) => m[1]),
+    });
+  }
+  return citations;
+}
+
+// A citation making up the whole input (as typed into search), or null
+export function parseCitation(input: string): Citation | null {
+  const trimmed = input.trim();
+  const [first] = parseCitations(trimmed);
+  return first && first.start === 0 && first.end === trimmed.length ? first : null;
+}
+
+// Manifest title ID for a cited title number: "1" → "01", "5A" → "05a"
+export function matchTitleId(cited: string, manifest: Manifest): string | null {
+  const normalize = (id: string) => id.replace(/^0+/, '').toLowerCase();
+  return manifest.titles.find((t) => normalize(t.id) === normalize(cited))?.id ?? null;
+}
+
+// Section and subsection designations of an index node, from its fields or display label
+function nodeCitationPath(node: GraphNode): { section: string; path: string[] } | null {
+  const section = sectionDesignation(node.section ?? node.section_code);
+  const path: string[] = [];
+  for (const level of SUBSECTION_LEVELS) {
+    const designation = levelDesignation(node[level]);
+    if (!designation) break;
+    path.push(designation);
+  }
+
+  // Labels like "§ 1(h)(11)" can be more specific than the parsed fields
+  const label = node.display_label ? parseCitation(node.display_label) : null;
+  if (label && (!section || label.section === section) && label.path.length > path.length) {
+    return { section: label.section, path: label.path.map((d) => d.toLowerCase()) };
+  }
+  return section ? { section, path } : null;
+}
+
+/**
+ * The index node a citation refers to: the node at exactly the cited
+ * provision when present, otherwise the most specific enclosing one.
+ */
+export function resolveCitationInNodes(citation: Citation, nodes: GraphNode[]): ResolvedCitation | null {
+  let best: { node: GraphNode; depth: number } | null = null;
+
+  for (const node of nodes) {
+    if (node.node_type !== 'index' && node.node_type !== 'section') continue;
+    const location = nodeCitationPath(node);
+    if (!location || location.section !== citation.section) continue;
+    if (location.path.length > citation.path.length) continue;
+    if (!location.path.every((designation, i) => designation === citation.path[i].toLowerCase())) continue;
+
+    if (!best || location.path.length > best.depth) best = { node, depth: location.path.length };
+  }
+
+  return best ? { node: best.node, exact: best.depth === citation.path.length } : null;
+}
+
+// Canonical display form: "26 U.S.C. § 1(h)(11)(B)"
+export function formatCitation(citation: Citation, titleId?: string | null): string {
+  const title = titleId ?? citation.title;
+  const provision = `§ ${citation.section}${citation.path.map((d) => `(${d})`).join('')}`;
+  return title ? `${title.replace(/^0+/, '')} U.S.C. ${provision}` : provision;
+}
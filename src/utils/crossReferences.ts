@@ -0,0 +1,74 @@
+/**
+ * Cross-reference links in section text
+ * Used by DocumentModal to turn a node's outgoing reference and definition edges into links
+ */
+
+import type { GraphNode } from '../types';
+import { parseCitations, resolveCitationInNodes } from './citations';
+import type { Citation } from './citations';
+import { isIndexNode } from './graphNodes';
+
+export interface LinkTarget {
+  node: GraphNode;
+  edgeType: 'reference' | 'definition';
+}
+
+export type TextLink =
+  | { kind: 'node'; start: number; end: number; target: LinkTarget }
+  | { kind: 'citation'; start: number; end: number; citation: Citation };
+
+// Shorter names ("tax", "or") would turn half the text into links
+const MIN_TERM_LENGTH = 3;
+
+const sameTitle = (a: string, b: string) => a.replace(/^0+/, '').toLowerCase() === b.replace(/^0+/, '').toLowerCase();
+
+/**
+ * Links in `text`, in order and non-overlapping. Citations resolving to a
+ * referenced index node link to that node; other citations are returned
+ * as plain citation links. Term targets link wherever their name occurs,
+ * longest names first.
+ */
+export function findTextLinks(text: string, targets: LinkTarget[]): TextLink[] {
+  const links: TextLink[] = [];
+  const indexTargets = targets.filter((t) => isIndexNode(t.node));
+  const byNodeId = new Map(targets.map((t) => [t.node.id, t] as const));
+
+  parseCitations(text).forEach((citation) => {
+    const resolved = resolveCitationInNodes(citation, indexTargets.map((t) => t.node));
+    const target = resolved ? byNodeId.get(resolved.node.id) : undefined;
+    const title = target?.node.usc_title ?? target?.node.source_title;
+    if (target && !(citation.title && title && !sameTitle(citation.title, title))) {
+      links.push({ kind: 'node', start: citation.start, end: citation.end, target });
+    } else {
+      links.push({ kind: 'citation', start: citation.start, end: citation.end, citation });
+    }
+  });
+
+  const byName = new Map<string, LinkTarget>();
+  targets
+    .filter((t) => !isIndexNode(t.node))
+    .forEach((t) => {
+      [t.node.name, t.node.display_label].forEach((name) => {
+        const key = name?.trim().toLowerCase();
+        if (key && key.length >= MIN_TERM_LENGTH && !byName.has(key)) byName.set(key, t);
+      });
+    });
+  if (byName.size === 0) return links;
+
+  const names = [...byName.keys()].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  const citationLinks = [...links];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const target = byName.get(match[0].toLowerCase());
+    if (!target || citationLinks.some((l) => start < l.end && end > l.start)) continue;
+    links.push({ kind: 'node', start, end, target });
+  }
+
+  return links.sort((a, b) => a.start - b.start);
+}
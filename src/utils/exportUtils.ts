@@ -4,6 +4,7 @@
  */
 
 import type { GraphNode, GraphLink, TimeScope, SelectedNode } from '../types';
+import { toGraphML, toGEXF } from './graphFormats';
 
 interface GraphData {
   nodes: GraphNode[];
@@ -17,16 +18,20 @@ interface ExportMetadata {
   searchTerm?: string | null;
 }
 
+export type ExportFormat = 'separate' | 'edgelist' | 'graphml' | 'gexf';
+
 interface ExportOptions extends ExportMetadata {
-  format?: 'separate' | 'edgelist';
+  format?: ExportFormat;
+  timeScopes?: TimeScope[] | null;   // Every year in the selection (diff view), earliest first
 }
 
 interface FilenameOptions {
-  type?: 'nodes' | 'links' | 'edgelist';
+  type?: 'nodes' | 'links' | 'edgelist' | 'graph';
   year?: string;
   title?: string;
   filter?: string;
   timestamp?: boolean;
+  extension?: string;
 }
 
 interface PNGExportOptions {
@@ -83,7 +88,8 @@ export function nodesToCSV(nodes: GraphNode[], metadata: ExportMetadata = {}): s
     Object.keys(node).forEach(key => allKeys.add(key));
   });
   
-  // Reserve space for future metric columns (will be empty now)
+  // Metric columns are filled when the nodes carry computed metrics
+  // (see services/metricsClient.ts), otherwise left empty
   const metricColumns = [
     'degree',
     'betweenness_centrality',
@@ -93,14 +99,16 @@ export function nodesToCSV(nodes: GraphNode[], metadata: ExportMetadata = {}): s
     'clustering_coefficient'
   ];
   
-  const headers = [...Array.from(allKeys), ...metricColumns];
+  const headers = [...Array.from(allKeys).filter(key => !metricColumns.includes(key)), ...metricColumns];
   csv += headers.map(escapeCSVField).join(',') + '\n';
 
   // Add rows
   nodes.forEach(node => {
     const row = headers.map(header => {
-      // Return node value or empty string for future metric columns
-      return escapeCSVField((node as any)[header] || '');
+      const value = (node as any)[header];
+      // Metrics can legitimately be 0
+      if (metricColumns.includes(header)) return escapeCSVField(value ?? '');
+      return escapeCSVField(value || '');
     });
     csv += row.join(',') + '\n';
   });
@@ -180,14 +188,18 @@ export function toEdgeListCSV(nodes: GraphNode[], links: GraphLink[], metadata:
   csv += `# Format: Edge List with Node Attributes\n`;
   csv += '\n';
 
-  // Headers: source info, target info
+  // Headers: source info, target info, edge attributes
   const headers = [
     'source_id',
     'source_type',
     'source_label',
     'target_id',
     'target_type',
-    'target_label'
+    'target_label',
+    'edge_type',
+    'action',
+    'weight',
+    'definition'
   ];
   csv += headers.join(',') + '\n';
 
@@ -205,7 +217,11 @@ export function toEdgeListCSV(nodes: GraphNode[], links: GraphLink[], metadata:
       escapeCSVField(sourceNode.name || ''),
       escapeCSVField(targetId),
       escapeCSVField(targetNode.node_type || ''),
-      escapeCSVField(targetNode.name || '')
+      escapeCSVField(targetNode.name || ''),
+      escapeCSVField(link.edge_type || ''),
+      escapeCSVField(link.action || ''),
+      escapeCSVField(link.weight ?? ''),
+      escapeCSVField(link.definition || '')
     ];
     csv += row.join(',') + '\n';
   });
@@ -214,13 +230,13 @@ export function toEdgeListCSV(nodes: GraphNode[], links: GraphLink[], metadata:
 }
 
 /**
- * Triggers browser download of CSV content
- * @param csvContent - CSV formatted string
+ * Triggers browser download of text content
+ * @param content - File contents
  * @param filename - Name for downloaded file
+ * @param mimeType - MIME type of the blob
  */
-export function downloadCSV(csvContent: string, filename: string): void {
-  const BOM = '\uFEFF';
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
   const link = document.createElement('a');
   
   if (link.download !== undefined) {
@@ -238,6 +254,15 @@ export function downloadCSV(csvContent: string, filename: string): void {
   }
 }
 
+/**
+ * Triggers browser download of CSV content
+ * @param csvContent - CSV formatted string
+ * @param filename - Name for downloaded file
+ */
+export function downloadCSV(csvContent: string, filename: string): void {
+  downloadFile(csvContent, filename, 'text/csv;charset=utf-8;');
+}
+
 /**
  * Generates filename with timestamp and metadata
  * @param options - Filename components
@@ -249,7 +274,8 @@ export function generateFilename(options: FilenameOptions = {}): string {
     year = '',
     title = '',
     filter = '',
-    timestamp = true
+    timestamp = true,
+    extension = 'csv'
   } = options;
 
   let filename = 'taxcode';
@@ -261,7 +287,7 @@ export function generateFilename(options: FilenameOptions = {}): string {
     const date = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
     filename += `_${date}`;
   }
-  filename += '.csv';
+  filename += `.${extension}`;
 
   return filename;
 }
@@ -273,11 +299,12 @@ export function generateFilename(options: FilenameOptions = {}): string {
  */
 export function exportGraphData(graphData: GraphData, options: ExportOptions = {}): void {
   const {
-    format = 'separate', // 'separate' (2 files), 'edgelist' (1 file)
+    format = 'separate', // 'separate' (2 files), 'edgelist' (1 file), 'graphml' / 'gexf' (1 XML file)
     year = null,
     title = null,
     filterTypes = null,
-    searchTerm = null
+    searchTerm = null,
+    timeScopes = null
   } = options;
 
   const metadata: ExportMetadata = {
@@ -287,7 +314,19 @@ export function exportGraphData(graphData: GraphData, options: ExportOptions = {
     searchTerm
   };
 
-  if (format === 'edgelist') {
+  if (format === 'graphml' || format === 'gexf') {
+    const content = format === 'graphml'
+      ? toGraphML(graphData, { year, title, searchTerm, timeScopes })
+      : toGEXF(graphData, { year, title, searchTerm, timeScopes });
+    const filename = generateFilename({
+      type: 'graph',
+      year: timeScopes && timeScopes.length > 1 ? timeScopes.join('-') : year || '',
+      title: title || '',
+      filter: filterTypes ? filterTypes.join('-') : 'all',
+      extension: format
+    });
+    downloadFile(content, filename, 'application/xml;charset=utf-8;');
+  } else if (format === 'edgelist') {
     // Single combined file
     const csv = toEdgeListCSV(graphData.nodes, graphData.links, metadata);
     const filename = generateFilename({
@@ -430,12 +469,51 @@ ${svgString}`;
   }
 }
 
+/**
+ * Exports a canvas-rendered graph as PNG
+ * The canvas already holds the current zoom/pan view at device resolution,
+ * so it is only flattened onto the background color.
+ * @param canvasElement - The canvas the graph is drawn on
+ * @param filename - Name for the downloaded file
+ * @param options - Export options
+ */
+export function exportCanvasToPNG(canvasElement: HTMLCanvasElement, filename: string, options: PNGExportOptions = {}): void {
+  const { backgroundColor = '#111827' } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasElement.width;
+  canvas.height = canvasElement.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    console.error('Failed to get canvas context');
+    return;
+  }
+
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(canvasElement, 0, 0);
+
+  canvas.toBlob((blob) => {
+    if (!blob) {
+      console.error('Failed to create PNG blob');
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, 'image/png');
+}
+
 /**
  * Main export orchestrator for PNG
- * @param svgElement - The SVG element
+ * @param source - The SVG element, or the canvas for large graphs
  * @param metadata - Graph metadata for filename
  */
-export function exportGraphImage(svgElement: SVGSVGElement, metadata: ImageMetadata = {}): void {
+export function exportGraphImage(source: SVGSVGElement | HTMLCanvasElement, metadata: ImageMetadata = {}): void {
   const {
     title = '26',
     timeScope = '2025',
@@ -455,7 +533,12 @@ export function exportGraphImage(svgElement: SVGSVGElement, metadata: ImageMetad
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
   filename += `_${timestamp}.png`;
 
-  exportGraphToPNG(svgElement, filename, {
+  if (source instanceof HTMLCanvasElement) {
+    exportCanvasToPNG(source, filename, { backgroundColor: '#111827' });
+    return;
+  }
+
+  exportGraphToPNG(source, filename, {
     backgroundColor: '#111827',
     scale: 2,
   });
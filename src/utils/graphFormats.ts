@@ -0,0 +1,354 @@
+/**
+ * GraphML and GEXF writers
+ * Serializes a graph with its hierarchy, type, time and edge attributes for
+ * Gephi and Cytoscape. Selections spanning several years (the diff view) are
+ * written as a dynamic GEXF graph with per-year spells and attribute values.
+ */
+
+import type { GraphNode, GraphLink, TimeScope } from '../types';
+import { endpointId } from './graphNodes';
+
+interface GraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+export interface GraphFormatMetadata {
+  year?: TimeScope | null;
+  title?: string | null;
+  searchTerm?: string | null;
+  timeScopes?: TimeScope[] | null;   // Earliest first; two or more make the GEXF dynamic
+}
+
+type AttributeType = 'string' | 'double' | 'boolean';
+type AttributeValue = string | number | boolean | null | undefined;
+
+interface AttributeSpec<T> {
+  id: string;
+  type: AttributeType;
+  value: (item: T) => AttributeValue;
+}
+
+// ==============================
+// Attributes
+// ==============================
+const HIERARCHY_FIELDS = [
+  'subtitle',
+  'part',
+  'subpart',
+  'chapter',
+  'subchapter',
+  'section',
+  'section_code',
+  'subsection',
+  'paragraph',
+  'subparagraph',
+  'clause',
+  'subclause',
+] as const;
+
+const METRIC_FIELDS = [
+  'degree',
+  'betweenness_centrality',
+  'closeness_centrality',
+  'eigenvector_centrality',
+  'pagerank',
+  'clustering_coefficient',
+] as const;
+
+const NODE_ATTRIBUTES: AttributeSpec<GraphNode>[] = [
+  { id: 'node_type', type: 'string', value: (n) => n.node_type },
+  { id: 'time', type: 'string', value: (n) => n.time },
+  { id: 'usc_title', type: 'string', value: (n) => n.usc_title ?? n.source_title },
+  { id: 'display_label', type: 'string', value: (n) => n.display_label },
+  ...HIERARCHY_FIELDS.map((field) => ({ id: field, type: 'string' as const, value: (n: GraphNode) => n[field] })),
+  { id: 'full_name', type: 'string', value: (n) => n.properties?.full_name ?? n.full_name },
+  { id: 'definition', type: 'string', value: (n) => n.properties?.definition },
+  { id: 'change_status', type: 'string', value: (n) => n.change_status },
+  ...METRIC_FIELDS.map((field) => ({ id: field, type: 'double' as const, value: (n: GraphNode) => n[field] })),
+];
+
+const LINK_ATTRIBUTES: AttributeSpec<GraphLink>[] = [
+  { id: 'edge_type', type: 'string', value: (l) => l.edge_type },
+  { id: 'action', type: 'string', value: (l) => l.action },
+  { id: 'weight', type: 'double', value: (l) => l.weight },
+  { id: 'definition', type: 'string', value: (l) => l.definition },
+  { id: 'time', type: 'string', value: (l) => l.time },
+  { id: 'cross_title', type: 'boolean', value: (l) => l.cross_title },
+  { id: 'change_status', type: 'string', value: (l) => l.change_status },
+];
+
+const isPresent = (value: AttributeValue): value is string | number | boolean =>
+  value !== null && value !== undefined && value !== '';
+
+// Only declare attributes some element actually carries
+const usedAttributes = <T>(specs: AttributeSpec<T>[], items: T[]) =>
+  specs.filter((spec) => items.some((item) => isPresent(spec.value(item))));
+
+const nodeLabel = (node: GraphNode) => node.display_label || node.name || node.id;
+
+/**
+ * Escapes text for XML attribute and element content, dropping control
+ * characters XML 1.0 does not allow
+ */
+export function escapeXml(value: AttributeValue): string {
+  if (!isPresent(value)) return '';
+  return String(value)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const describe = (metadata: GraphFormatMetadata) =>
+  [
+    metadata.title,
+    metadata.timeScopes && metadata.timeScopes.length > 1 ? metadata.timeScopes.join(' → ') : metadata.year,
+    metadata.searchTerm ? `search: ${metadata.searchTerm}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// ==============================
+// GraphML
+// ==============================
+
+/**
+ * Converts nodes and links to GraphML (directed, one key per attribute)
+ * @param graph - Object containing nodes and links
+ * @param metadata - Optional metadata written as the graph description
+ * @returns GraphML document
+ */
+export function toGraphML(graph: GraphData, metadata: GraphFormatMetadata = {}): string {
+  const nodeAttrs = usedAttributes(NODE_ATTRIBUTES, graph.nodes);
+  const linkAttrs = usedAttributes(LINK_ATTRIBUTES, graph.links);
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="n_label" for="node" attr.name="label" attr.type="string"/>',
+  ];
+  nodeAttrs.forEach((spec) => {
+    lines.push(`  <key id="n_${spec.id}" for="node" attr.name="${spec.id}" attr.type="${spec.type}"/>`);
+  });
+  linkAttrs.forEach((spec) => {
+    lines.push(`  <key id="e_${spec.id}" for="edge" attr.name="${spec.id}" attr.type="${spec.type}"/>`);
+  });
+
+  lines.push('  <graph id="G" edgedefault="directed">');
+  const description = describe(metadata);
+  if (description) lines.push(`    <desc>${escapeXml(description)}</desc>`);
+
+  graph.nodes.forEach((node) => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="n_label">${escapeXml(nodeLabel(node))}</data>`);
+    nodeAttrs.forEach((spec) => {
+      const value = spec.value(node);
+      if (isPresent(value)) lines.push(`      <data key="n_${spec.id}">${escapeXml(value)}</data>`);
+    });
+    lines.push('    </node>');
+  });
+
+  graph.links.forEach((link, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${escapeXml(endpointId(link.source))}" target="${escapeXml(endpointId(link.target))}">`
+    );
+    linkAttrs.forEach((spec) => {
+      const value = spec.value(link);
+      if (isPresent(value)) lines.push(`      <data key="e_${spec.id}">${escapeXml(value)}</data>`);
+    });
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+// ==============================
+// GEXF
+// ==============================
+interface Occurrence<T> {
+  item: T;
+  start: number;
+  end: number;
+}
+
+/**
+ * Years an element is present in. Diff elements span both scopes unless
+ * added (later scope only) or removed (earlier scope only); anything else
+ * lives in its own `time`.
+ */
+function presence(
+  item: { time?: TimeScope; change_status?: GraphNode['change_status'] },
+  years: number[]
+): [number, number] {
+  const first = years[0];
+  const last = years[years.length - 1];
+  if (item.change_status === 'added') return [last, last];
+  if (item.change_status === 'removed') return [first, first];
+  if (item.change_status) return [first, last];
+  const year = Number(item.time);
+  return years.includes(year) ? [year, year] : [first, last];
+}
+
+// Groups repeated elements (same node or edge in several years) under one key
+function groupOccurrences<T extends { time?: TimeScope; change_status?: GraphNode['change_status'] }>(
+  items: T[],
+  keyOf: (item: T) => string,
+  years: number[]
+): Map<string, Occurrence<T>[]> {
+  const groups = new Map<string, Occurrence<T>[]>();
+  items.forEach((item) => {
+    const [start, end] = presence(item, years);
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ item, start, end });
+  });
+  groups.forEach((list) => list.sort((a, b) => a.start - b.start));
+  return groups;
+}
+
+// Merges overlapping or back-to-back year ranges
+function mergeSpells(ranges: Array<[number, number]>, years: number[]): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+  ranges.forEach(([start, end]) => {
+    const prev = merged[merged.length - 1];
+    const adjacent = prev && years.indexOf(start) <= years.indexOf(prev[1]) + 1;
+    if (prev && adjacent) prev[1] = Math.max(prev[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+}
+
+function spellsXml(ranges: Array<[number, number]>, years: number[], indent: string): string[] {
+  const spells = mergeSpells(ranges, years);
+  return [
+    `${indent}<spells>`,
+    ...spells.map(([start, end]) => `${indent}  <spell start="${start}" end="${end}"/>`),
+    `${indent}</spells>`,
+  ];
+}
+
+function attvaluesXml<T>(
+  specs: AttributeSpec<T>[],
+  occurrences: Occurrence<T>[],
+  dynamic: boolean,
+  indent: string
+): string[] {
+  const values: string[] = [];
+  specs.forEach((spec, index) => {
+    if (!dynamic) {
+      const value = spec.value(occurrences[0].item);
+      if (isPresent(value)) values.push(`${indent}  <attvalue for="${index}" value="${escapeXml(value)}"/>`);
+      return;
+    }
+    // One value per run of years with the same value
+    let run: { value: string | number | boolean; start: number; end: number } | null = null;
+    const flush = () => {
+      if (run) {
+        values.push(
+          `${indent}  <attvalue for="${index}" value="${escapeXml(run.value)}" start="${run.start}" end="${run.end}"/>`
+        );
+      }
+    };
+    occurrences.forEach(({ item, start, end }) => {
+      const value = spec.value(item);
+      if (!isPresent(value)) return;
+      if (run && run.value === value) {
+        run.end = Math.max(run.end, end);
+      } else {
+        flush();
+        run = { value, start, end };
+      }
+    });
+    flush();
+  });
+  return values.length > 0 ? [`${indent}<attvalues>`, ...values, `${indent}</attvalues>`] : [];
+}
+
+function attributesXml<T>(specs: AttributeSpec<T>[], cls: 'node' | 'edge', dynamic: boolean): string[] {
+  if (specs.length === 0) return [];
+  return [
+    `    <attributes class="${cls}" mode="${dynamic ? 'dynamic' : 'static'}">`,
+    ...specs.map(
+      (spec, index) => `      <attribute id="${index}" title="${spec.id}" type="${spec.type}"/>`
+    ),
+    '    </attributes>',
+  ];
+}
+
+/**
+ * Converts nodes and links to GEXF 1.2. With two or more numeric
+ * `timeScopes` the graph is dynamic: every node and edge gets spells for the
+ * years it exists in, and attributes that differ by year get one value per
+ * year range.
+ * @param graph - Object containing nodes and links
+ * @param metadata - Optional metadata (title, scopes, search term)
+ * @returns GEXF document
+ */
+export function toGEXF(graph: GraphData, metadata: GraphFormatMetadata = {}): string {
+  const years = (metadata.timeScopes ?? []).map(Number).filter((y) => Number.isFinite(y)).sort((a, b) => a - b);
+  const dynamic = years.length > 1;
+  const span = dynamic ? years : [Number(metadata.year) || 0];
+
+  const nodeGroups = groupOccurrences(graph.nodes, (n) => n.id, span);
+  const linkGroups = groupOccurrences(
+    graph.links,
+    (l) => `${endpointId(l.source)}→${endpointId(l.target)}::${l.edge_type}::${l.action}`,
+    span
+  );
+
+  // Spells carry the years of a dynamic graph; weight is a native edge attribute
+  const nodeAttrs = usedAttributes(NODE_ATTRIBUTES.filter((spec) => !dynamic || spec.id !== 'time'), graph.nodes);
+  const linkAttrs = usedAttributes(
+    LINK_ATTRIBUTES.filter((spec) => spec.id !== 'weight' && (!dynamic || spec.id !== 'time')),
+    graph.links
+  );
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://www.gexf.net/1.2draft" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://www.gexf.net/1.2draft http://www.gexf.net/1.2draft/gexf.xsd" version="1.2">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>US Code Network Explorer</creator>',
+    `    <description>${escapeXml(describe(metadata))}</description>`,
+    '  </meta>',
+    dynamic
+      ? `  <graph mode="dynamic" defaultedgetype="directed" timeformat="double" start="${years[0]}" end="${years[years.length - 1]}">`
+      : '  <graph mode="static" defaultedgetype="directed">',
+    ...attributesXml(nodeAttrs, 'node', dynamic),
+    ...attributesXml(linkAttrs, 'edge', dynamic),
+    '    <nodes>',
+  ];
+
+  nodeGroups.forEach((occurrences, id) => {
+    const latest = occurrences[occurrences.length - 1].item;
+    lines.push(`      <node id="${escapeXml(id)}" label="${escapeXml(nodeLabel(latest))}">`);
+    lines.push(...attvaluesXml(nodeAttrs, occurrences, dynamic, '        '));
+    if (dynamic) lines.push(...spellsXml(occurrences.map((o) => [o.start, o.end]), years, '        '));
+    lines.push('      </node>');
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+
+  let edgeIndex = 0;
+  linkGroups.forEach((occurrences) => {
+    const first = occurrences[0].item;
+    const weight = occurrences.find((o) => isPresent(o.item.weight))?.item.weight;
+    lines.push(
+      `      <edge id="e${edgeIndex++}" source="${escapeXml(endpointId(first.source))}" target="${escapeXml(endpointId(first.target))}"` +
+        `${isPresent(weight) ? ` weight="${weight}"` : ''} label="${escapeXml(first.action)}">`
+    );
+    lines.push(...attvaluesXml(linkAttrs, occurrences, dynamic, '        '));
+    if (dynamic) lines.push(...spellsXml(occurrences.map((o) => [o.start, o.end]), years, '        '));
+    lines.push('      </edge>');
+  });
+
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
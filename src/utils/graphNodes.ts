@@ -0,0 +1,42 @@
+/**
+ * Node and link helpers shared by the layouts, grouping, outline and text views
+ */
+
+import type { GraphNode, GraphLink } from '../types';
+
+// Index nodes are the statutory provisions; everything else is a term
+export const isIndexNode = (n: Pick<GraphNode, 'node_type'>) => n.node_type === 'index' || n.node_type === 'section';
+
+// A link end is an ID until the renderer resolves it to its node
+export const endpointId = (end: string | { id: string }) => (typeof end === 'string' ? end : end.id);
+
+// Lower ranks win: the section defining a term is its home, a hierarchy edge
+// places it structurally, and a reference is the loosest tie
+const ANCHOR_RANK: Record<GraphLink['edge_type'], number> = {
+  definition: 0,
+  hierarchy: 1,
+  reference: 2,
+};
+
+/**
+ * Term nodes carry no hierarchy fields, so each is anchored to one linked
+ * index node, picked by edge type in ANCHOR_RANK order (first link wins a tie).
+ * Terms linked to no index node are left out.
+ */
+export function anchorTerms(nodes: GraphNode[], links: GraphLink[]): Map<string, GraphNode> {
+  const byId = new Map(nodes.map((n) => [n.id, n] as const));
+  const best = new Map<string, { anchor: GraphNode; rank: number }>();
+
+  links.forEach((l) => {
+    const source = byId.get(endpointId(l.source));
+    const target = byId.get(endpointId(l.target));
+    if (!source || !target || isIndexNode(source) === isIndexNode(target)) return;
+
+    const [term, anchor] = isIndexNode(source) ? [target, source] : [source, target];
+    const rank = ANCHOR_RANK[l.edge_type] ?? 3;
+    const current = best.get(term.id);
+    if (!current || rank < current.rank) best.set(term.id, { anchor, rank });
+  });
+
+  return new Map([...best].map(([id, { anchor }]) => [id, anchor] as const));
+}
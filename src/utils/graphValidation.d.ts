@@ -0,0 +1,39 @@
+/**
+ * Types for graphValidation.js
+ */
+
+import type { NodeType, GraphLink } from '../types';
+
+export const NODE_TYPES: NodeType[];
+export const EDGE_TYPES: GraphLink['edge_type'][];
+
+export interface GraphValidationReport {
+  nodes: number;
+  links: number;
+  crossTitleLinks: number;    // Links whose missing endpoint lives in another title
+  nodeTypes: Record<string, number>;
+  edgeTypes: Record<string, number>;
+  errors: string[];
+  duplicateNodeIds: { count: number; sample: string[] };
+  unknownNodeTypes: Record<string, number>;
+  unknownEdgeTypes: Record<string, number>;
+  danglingLinks: {
+    count: number;
+    sample: { source: string; target: string }[];
+    endpoints: string[];      // Distinct IDs links point at that no node has
+  };
+}
+
+export function validateGraph(
+  graph: unknown,
+  options?: { nodeIds?: Set<string>; externalNodeIds?: { has(id: string): boolean } }
+): GraphValidationReport;
+
+export function validateSplitMeta(meta: unknown): string[];
+
+export function compareSplitCounts(
+  part: { file: string; nodes?: number; links?: number },
+  report: GraphValidationReport
+): string[];
+
+export function hasIssues(report: GraphValidationReport): boolean;
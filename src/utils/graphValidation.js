@@ -0,0 +1,143 @@
+/**
+ * Data contract checks for title/time graph files
+ * Plain JavaScript so scripts/validate-data.mjs can run it under Node as is;
+ * the browser loader uses the same checks (types in graphValidation.d.ts)
+ */
+
+export const NODE_TYPES = ['section', 'entity', 'concept', 'index'];
+export const EDGE_TYPES = ['definition', 'reference', 'hierarchy'];
+
+// Examples kept per issue; counts are always complete
+const SAMPLE_SIZE = 5;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const endpointId = (end) =>
+  typeof end === 'string' && end.length > 0 ? end : isObject(end) && typeof end.id === 'string' ? end.id : null;
+
+const increment = (counts, key) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Checks one graph file, or one part of a split graph, against what
+ * loadGraph assumes. `errors` are structural problems the loader can't work
+ * around; the other fields are data issues it tolerates but a data drop
+ * shouldn't have.
+ *
+ * Link endpoints are resolved against `nodeIds` when given (all parts of a
+ * split graph), otherwise against the file's own nodes. Endpoints found in
+ * `externalNodeIds` (other titles of the same time scope) count as
+ * cross-title links rather than dangling ones. A link may omit `edge_type`,
+ * which the loader reads as a reference.
+ */
+export function validateGraph(graph, { nodeIds, externalNodeIds } = {}) {
+  const report = {
+    nodes: 0,
+    links: 0,
+    crossTitleLinks: 0,
+    nodeTypes: {},
+    edgeTypes: {},
+    errors: [],
+    duplicateNodeIds: { count: 0, sample: [] },
+    unknownNodeTypes: {},
+    unknownEdgeTypes: {},
+    danglingLinks: { count: 0, sample: [], endpoints: [] },
+  };
+
+  if (!isObject(graph)) {
+    report.errors.push('the top level is not an object');
+    return report;
+  }
+  if (!Array.isArray(graph.nodes)) report.errors.push('"nodes" is not an array');
+  if (!Array.isArray(graph.links)) report.errors.push('"links" is not an array');
+  if (report.errors.length > 0) return report;
+
+  const seen = new Set();
+  const duplicates = new Set();
+  graph.nodes.forEach((node, i) => {
+    if (!isObject(node)) {
+      report.errors.push(`nodes[${i}] is not an object`);
+      return;
+    }
+    if (typeof node.id !== 'string' || node.id.length === 0) {
+      report.errors.push(`nodes[${i}] has no "id"`);
+      return;
+    }
+    report.nodes += 1;
+    if (seen.has(node.id)) duplicates.add(node.id);
+    seen.add(node.id);
+
+    const type = String(node.node_type);
+    increment(report.nodeTypes, type);
+    if (!NODE_TYPES.includes(node.node_type)) increment(report.unknownNodeTypes, type);
+  });
+  report.duplicateNodeIds = { count: duplicates.size, sample: [...duplicates].slice(0, SAMPLE_SIZE) };
+
+  const known = nodeIds ?? seen;
+  const missing = new Set();
+  graph.links.forEach((link, i) => {
+    const source = isObject(link) ? endpointId(link.source) : null;
+    const target = isObject(link) ? endpointId(link.target) : null;
+    if (!source || !target) {
+      report.errors.push(isObject(link) ? `links[${i}] lacks a "source" or "target"` : `links[${i}] is not an object`);
+      return;
+    }
+    report.links += 1;
+
+    const type = link.edge_type ?? 'reference';
+    increment(report.edgeTypes, String(type));
+    if (!EDGE_TYPES.includes(type)) increment(report.unknownEdgeTypes, String(type));
+
+    const absent = [source, target].filter((id) => !known.has(id));
+    if (absent.length > 0 && externalNodeIds && absent.every((id) => externalNodeIds.has(id))) {
+      report.crossTitleLinks += 1;
+    } else if (absent.length > 0) {
+      report.danglingLinks.count += 1;
+      if (report.danglingLinks.sample.length < SAMPLE_SIZE) report.danglingLinks.sample.push({ source, target });
+      absent.forEach((id) => missing.add(id));
+    }
+  });
+  report.danglingLinks.endpoints = [...missing];
+
+  return report;
+}
+
+/**
+ * Checks a split graph's .meta.json: a `parts` list naming each part file,
+ * with the node and link counts each part should hold.
+ */
+export function validateSplitMeta(meta) {
+  const errors = [];
+  if (!isObject(meta) || !Array.isArray(meta.parts)) {
+    errors.push('"parts" is not an array');
+    return errors;
+  }
+  meta.parts.forEach((part, i) => {
+    if (!isObject(part) || typeof part.file !== 'string') errors.push(`parts[${i}] has no "file"`);
+  });
+  return errors;
+}
+
+// Node and link counts a meta file promises for a part that differ from the part's contents
+export function compareSplitCounts(part, report) {
+  const mismatches = [];
+  if (typeof part.nodes === 'number' && part.nodes !== report.nodes) {
+    mismatches.push(`${part.file}: meta lists ${part.nodes} nodes, part has ${report.nodes}`);
+  }
+  if (typeof part.links === 'number' && part.links !== report.links) {
+    mismatches.push(`${part.file}: meta lists ${part.links} links, part has ${report.links}`);
+  }
+  return mismatches;
+}
+
+// Whether a report has anything a data drop should be rejected for
+export function hasIssues(report) {
+  return (
+    report.errors.length > 0 ||
+    report.duplicateNodeIds.count > 0 ||
+    Object.keys(report.unknownNodeTypes).length > 0 ||
+    Object.keys(report.unknownEdgeTypes).length > 0 ||
+    report.danglingLinks.count > 0
+  );
+}
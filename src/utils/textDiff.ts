@@ -0,0 +1,182 @@
+/**
+ * Word-level text diff utilities
+ * Used by DocumentModal to compare a section's text across time scopes
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+// Words and the whitespace between them are separate tokens, so
+// re-wrapped lines show up as whitespace edits rather than word edits.
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+};
+
+/**
+ * Myers O(ND) diff over token ids. Returns edit ops in order, or null when
+ * the edit distance exceeds `maxEdits` (trace memory grows with D²).
+ */
+function myersDiff(a: number[], b: number[], maxEdits: number): { op: DiffOp; index: number }[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    const vd = new Int32Array(2 * d + 1);
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      vd[k + d] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(vd);
+        return backtrack(trace, n, m);
+      }
+    }
+
+    trace.push(vd);
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): { op: DiffOp; index: number }[] {
+  const ops: { op: DiffOp; index: number }[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const get = (k: number) => prev[k + d - 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ op: 'equal', index: x - 1 });
+      x--;
+      y--;
+    }
+
+    if (prevK === k + 1) {
+      ops.push({ op: 'insert', index: prevY });
+    } else {
+      ops.push({ op: 'delete', index: prevX });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ op: 'equal', index: x - 1 });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Word-level diff of `before` → `after`.
+ * Concatenating the equal + insert segments reproduces `after` exactly, and
+ * equal + delete reproduces `before`, so callers can map offsets in `after`
+ * onto the rendered output.
+ */
+export function diffWords(before: string, after: string, maxEdits = 4000): DiffSegment[] {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+
+  let prefix = 0;
+  while (
+    prefix < beforeTokens.length &&
+    prefix < afterTokens.length &&
+    beforeTokens[prefix] === afterTokens[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < beforeTokens.length - prefix &&
+    suffix < afterTokens.length - prefix &&
+    beforeTokens[beforeTokens.length - 1 - suffix] === afterTokens[afterTokens.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const beforeMid = beforeTokens.slice(prefix, beforeTokens.length - suffix);
+  const afterMid = afterTokens.slice(prefix, afterTokens.length - suffix);
+
+  const ids = new Map<string, number>();
+  const toId = (token: string) => {
+    let id = ids.get(token);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(token, id);
+    }
+    return id;
+  };
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', beforeTokens.slice(0, prefix).join(''));
+
+  const ops = myersDiff(beforeMid.map(toId), afterMid.map(toId), maxEdits);
+  if (ops) {
+    ops.forEach(({ op, index }) => {
+      pushSegment(segments, op, op === 'insert' ? afterMid[index] : beforeMid[index]);
+    });
+  } else {
+    // Too different to align word by word: show a full replacement
+    pushSegment(segments, 'delete', beforeMid.join(''));
+    pushSegment(segments, 'insert', afterMid.join(''));
+  }
+
+  pushSegment(segments, 'equal', afterTokens.slice(afterTokens.length - suffix).join(''));
+  return segments;
+}
+
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const countWords = (text: string) => (text.match(/[^\s]+/g) ?? []).length;
+  return segments.reduce<DiffStats>(
+    (stats, seg) => {
+      if (seg.op === 'insert') stats.insertedWords += countWords(seg.text);
+      if (seg.op === 'delete') stats.deletedWords += countWords(seg.text);
+      return stats;
+    },
+    { insertedWords: 0, deletedWords: 0 }
+  );
+}
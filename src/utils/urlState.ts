@@ -0,0 +1,166 @@
+/**
+ * Shareable URL state
+ * Serializes the current view (titles, time scope, build mode, search,
+ * selection and filters) into the query string and restores it against the
+ * manifest, so links and browser back/forward reproduce a network.
+ */
+
+import type { BottomUpSearchParams, Manifest, TimeScope } from '../types';
+
+export interface UrlState {
+  title: string;
+  additionalTitles: string[];
+  timeScope: TimeScope;
+  buildMode: 'topDown' | 'bottomUp';
+  search: BottomUpSearchParams | null;   // Bottom-up search, when one was run
+  keywords: string;                      // Top-down keyword filter
+  selectedNodeId: string | null;
+  enabledCategories: string[];
+  enabledNodeTypes: string[];
+  enabledClusterIds: number[];
+  limit: number;
+  maxHops: number | null;
+}
+
+const EDGE_TYPES = ['definition', 'reference', 'hierarchy'];
+const NODE_TYPES = ['index', 'entity', 'concept'];
+const SEARCH_FIELDS = ['text', 'full_name', 'display_label', 'definition', 'entity', 'concept', 'properties'];
+
+const list = (value: string | null): string[] =>
+  value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+
+const positiveInt = (value: string | null): number | null => {
+  if (value === null) return null;
+  const n = Number.parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// Merged titles only share the scopes every one of them has
+export function sharedTimeScopes(manifest: Manifest, titleIds: string[]): string[] {
+  return titleIds.reduce<string[] | null>((acc, id) => {
+    const scopesOfTitle = manifest.titles.find((t) => t.id === id)?.timeScopes ?? [];
+    return acc === null ? scopesOfTitle : acc.filter((s) => scopesOfTitle.includes(s));
+  }, null) ?? [];
+}
+
+export function serializeUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+
+  params.set('title', state.title);
+  if (state.additionalTitles.length > 0) params.set('with', state.additionalTitles.join(','));
+  params.set('year', state.timeScope);
+  params.set('mode', state.buildMode);
+
+  if (state.buildMode === 'bottomUp' && state.search) {
+    params.set('q', state.search.keywords);
+    params.set('depth', String(state.search.expansionDegree));
+    params.set('fields', state.search.searchFields.join(','));
+    params.set('logic', state.search.searchLogic);
+    params.set('rank', state.search.nodeRankingMode);
+    if (state.search.titles && state.search.titles.length > 0) {
+      params.set('in', state.search.titles.join(','));
+    }
+    // Branch networks name their branch; its node IDs are looked up again on restore
+    if (state.search.seedBranch) params.set('branch', state.search.seedBranch);
+  }
+  if (state.buildMode === 'topDown' && state.keywords) params.set('kw', state.keywords);
+
+  if (state.selectedNodeId) params.set('node', state.selectedNodeId);
+
+  params.set('edges', state.enabledCategories.join(','));
+  params.set('types', state.enabledNodeTypes.join(','));
+  if (state.enabledClusterIds.length > 0) params.set('clusters', state.enabledClusterIds.join(','));
+  params.set('limit', String(state.limit));
+  params.set('max', state.maxHops === null ? 'all' : String(state.maxHops));
+
+  return `?${params.toString()}`;
+}
+
+/**
+ * Parses a query string into a complete UrlState. Anything missing or not
+ * valid for the manifest (unknown title, scope the titles don't share, …)
+ * falls back to `defaults`.
+ */
+export function parseUrlState(query: string, manifest: Manifest, defaults: UrlState): UrlState {
+  const params = new URLSearchParams(query);
+
+  const titleIds = new Set(manifest.titles.map((t) => t.id));
+  const requestedTitle = params.get('title');
+  const title = requestedTitle && titleIds.has(requestedTitle) ? requestedTitle : defaults.title;
+
+  const additionalTitles = [...new Set(list(params.get('with')))].filter(
+    (id) => id !== title && titleIds.has(id)
+  );
+
+  const scopes = sharedTimeScopes(manifest, [title, ...additionalTitles]);
+  const requestedScope = params.get('year');
+  const timeScope =
+    requestedScope && scopes.includes(requestedScope)
+      ? requestedScope
+      : scopes.includes(defaults.timeScope)
+      ? defaults.timeScope
+      : scopes[scopes.length - 1] ?? defaults.timeScope;
+
+  const mode = params.get('mode');
+  const buildMode = mode === 'bottomUp' || mode === 'topDown' ? mode : defaults.buildMode;
+
+  const keywords = params.get('q')?.trim() ?? '';
+  const seedBranch = params.get('branch') || undefined;
+  const searchFields = list(params.get('fields')).filter((f) => SEARCH_FIELDS.includes(f));
+  const maxHopsParam = params.get('max');
+  const maxHops = maxHopsParam === 'all' ? null : positiveInt(maxHopsParam) ?? defaults.maxHops;
+
+  const search: BottomUpSearchParams | null =
+    buildMode === 'bottomUp' && (keywords || seedBranch)
+      ? {
+          keywords,
+          expansionDegree: Math.min(Number.parseInt(params.get('depth') ?? '', 10) || 0, 3),
+          maxNodes: maxHops || 1500,
+          nodeTypes: [...NODE_TYPES],
+          edgeTypes: [...EDGE_TYPES],
+          searchFields: searchFields.length > 0 ? searchFields : ['text', 'display_label', 'entity', 'concept', 'definition'],
+          searchLogic: params.get('logic') === 'AND' ? 'AND' : 'OR',
+          nodeRankingMode: params.get('rank') === 'subgraph' ? 'subgraph' : 'global',
+          titles: list(params.get('in')).filter((id) => id === title || additionalTitles.includes(id)),
+          seedBranch,
+        }
+      : null;
+
+  const edges = params.get('edges');
+  const types = params.get('types');
+
+  return {
+    title,
+    additionalTitles,
+    timeScope,
+    buildMode,
+    search,
+    keywords: buildMode === 'topDown' ? params.get('kw') ?? '' : '',
+    selectedNodeId: params.get('node') || null,
+    enabledCategories: edges === null ? defaults.enabledCategories : list(edges).filter((e) => EDGE_TYPES.includes(e)),
+    enabledNodeTypes: types === null ? defaults.enabledNodeTypes : list(types).filter((t) => NODE_TYPES.includes(t)),
+    enabledClusterIds: list(params.get('clusters'))
+      .map((id) => Number.parseInt(id, 10))
+      .filter((id) => Number.isInteger(id) && id >= 0),
+    limit: positiveInt(params.get('limit')) ?? defaults.limit,
+    maxHops,
+  };
+}
+
+/**
+ * Whether moving from one state to the other is a navigation worth its own
+ * history entry (selection, scope, title, mode or search), as opposed to a
+ * filter tweak that just replaces the current entry. Clearing the selection
+ * doesn't count: it also happens when a scope switch drops the node.
+ */
+export function isNavigation(prev: UrlState, next: UrlState): boolean {
+  return (
+    prev.title !== next.title ||
+    prev.additionalTitles.join(',') !== next.additionalTitles.join(',') ||
+    prev.timeScope !== next.timeScope ||
+    prev.buildMode !== next.buildMode ||
+    (next.selectedNodeId !== null && prev.selectedNodeId !== next.selectedNodeId) ||
+    (prev.search?.keywords ?? '') !== (next.search?.keywords ?? '') ||
+    (prev.search?.seedBranch ?? '') !== (next.search?.seedBranch ?? '')
+  );
+}
@@ -0,0 +1,13 @@
+// src/workers/communities.worker.ts
+
+import { detectCommunities } from '../services/communityDetection';
+import type { CommunityGraph } from '../services/communityDetection';
+import { workerScope as ctx } from './workerScope';
+
+ctx.onmessage = (event: MessageEvent<CommunityGraph>) => {
+  try {
+    ctx.postMessage({ type: 'result', result: detectCommunities(event.data) });
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,163 @@
+// src/workers/layout.worker.ts
+
+import { forceSimulation, forceLink, forceManyBody, forceCenter, forceCollide, forceRadial } from 'd3';
+import type { Simulation, SimulationNodeDatum } from 'd3';
+import type { LayoutRequest, LayoutResponse, LayoutStatus } from '../services/layoutClient';
+import { workerScope as ctx } from './workerScope';
+
+interface LayoutNode extends SimulationNodeDatum {
+  radius: number;
+  val: number;
+}
+
+const TICK_INTERVAL_MS = 16;
+
+let simulation: Simulation<LayoutNode, undefined> | null = null;
+let nodes: LayoutNode[] = [];
+let generation = 0;
+let paused = false;
+let freezeOnSettle = false;
+let status: LayoutStatus = 'running';
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const post = (message: LayoutResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+function setStatus(next: LayoutStatus) {
+  if (next === status) return;
+  status = next;
+  post({ type: 'status', generation, status });
+}
+
+function postPositions() {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((n, i) => {
+    positions[i * 2] = n.x ?? 0;
+    positions[i * 2 + 1] = n.y ?? 0;
+  });
+  post({ type: 'tick', generation, positions }, [positions.buffer]);
+}
+
+// The simulation's own timer is stopped; ticks are driven here so they can be paused
+function schedule() {
+  if (timer !== null || !simulation || paused || status === 'frozen') return;
+  timer = setTimeout(step, TICK_INTERVAL_MS);
+}
+
+function step() {
+  timer = null;
+  if (!simulation || paused || status === 'frozen') return;
+
+  simulation.tick();
+  postPositions();
+
+  if (simulation.alpha() < simulation.alphaMin() && simulation.alphaTarget() < simulation.alphaMin()) {
+    setStatus(freezeOnSettle ? 'frozen' : 'settled');
+    return;
+  }
+  setStatus('running');
+  schedule();
+}
+
+function cancel() {
+  if (timer !== null) clearTimeout(timer);
+  timer = null;
+}
+
+// Restarts ticking unless the user paused or the layout froze
+function wake(alpha?: number) {
+  if (!simulation || status === 'frozen') return;
+  if (alpha !== undefined) simulation.alpha(Math.max(simulation.alpha(), alpha));
+  if (!paused) setStatus('running');
+  schedule();
+}
+
+ctx.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init': {
+      cancel();
+      simulation?.stop();
+      generation = request.generation;
+      paused = request.paused;
+      freezeOnSettle = request.freezeOnSettle;
+      status = paused ? 'paused' : 'running';
+
+      const { width, height } = request;
+      nodes = request.nodes.map((n) => ({ ...n }));
+      const links = request.links.map(([source, target]) => ({ source, target }));
+
+      simulation = forceSimulation(nodes)
+        .force('link', forceLink<LayoutNode, { source: number; target: number }>(links).distance(50))
+        .force('charge', forceManyBody().strength(-400))
+        .force('center', forceCenter(width / 2, height / 2))
+        .force('collision', forceCollide<LayoutNode>().radius((d) => d.radius + 5))
+        .force(
+          'radial',
+          forceRadial<LayoutNode>((d) => (50 - Math.min(d.val, 50)) * 33 + 200, width / 2, height / 2).strength(0.5)
+        )
+        .stop();
+
+      post({ type: 'status', generation, status });
+      postPositions();
+      schedule();
+      break;
+    }
+
+    case 'pin': {
+      const node = nodes[request.index];
+      if (!node) return;
+      node.fx = node.x = request.x;
+      node.fy = node.y = request.y;
+      // Nothing else will report the move while the layout is idle
+      if (timer === null) postPositions();
+      break;
+    }
+
+    case 'release': {
+      const node = nodes[request.index];
+      if (!node) return;
+      node.fx = null;
+      node.fy = null;
+      break;
+    }
+
+    case 'alphaTarget':
+      if (!simulation) return;
+      simulation.alphaTarget(request.value);
+      if (request.value > 0) wake();
+      break;
+
+    case 'reheat':
+      wake(request.alpha);
+      break;
+
+    case 'pause':
+      paused = true;
+      cancel();
+      setStatus('paused');
+      break;
+
+    case 'resume':
+      paused = false;
+      if (status === 'frozen' || status === 'settled' || status === 'paused') {
+        status = 'running';
+        post({ type: 'status', generation, status });
+      }
+      wake(0.3);
+      break;
+
+    case 'freezeOnSettle':
+      freezeOnSettle = request.enabled;
+      if (!freezeOnSettle && status === 'frozen') setStatus('settled');
+      else if (freezeOnSettle && status === 'settled') setStatus('frozen');
+      break;
+
+    case 'stop':
+      cancel();
+      simulation?.stop();
+      simulation = null;
+      nodes = [];
+      break;
+  }
+};
@@ -0,0 +1,16 @@
+// src/workers/metrics.worker.ts
+
+import { computeMetrics } from '../services/graphMetrics';
+import type { MetricsInput } from '../services/graphMetrics';
+import { workerScope as ctx } from './workerScope';
+
+ctx.onmessage = (event: MessageEvent<MetricsInput>) => {
+  try {
+    const output = computeMetrics(event.data);
+    const { approximate, ...arrays } = output;
+    const buffers = Object.values(arrays).map((a) => a.buffer);
+    ctx.postMessage({ type: 'result', output: { ...arrays, approximate } }, buffers);
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,4 @@
+// src/workers/workerScope.ts
+
+// The dedicated worker's global scope, typed as a Worker since tsconfig only ships the DOM lib
+export const workerScope = self as unknown as Worker;